@@ -0,0 +1,81 @@
+/**
+ * @file Breadcrumbs.tsx
+ * @description Breadcrumbs derived from the current location and route metadata
+ */
+
+import React from 'react';
+import { NavPlus } from './NavPlus';
+import { useBreadcrumbs } from './hooks/useBreadcrumbs';
+import { BreadcrumbItem, BreadcrumbsProps } from './types';
+
+/**
+ * Breadcrumbs Component - Renders the crumbs of the current location as an ordered list in a
+ * `<nav>`. Earlier crumbs are NavPlus links; the last one is the current page, marked with
+ * `aria-current="page"`. Labels come from the routes, the label function or the path segments,
+ * and may be loaded asynchronously.
+ *
+ * @component
+ * @example
+ * <Breadcrumbs
+ *   routes={{
+ *     '/users': 'People',
+ *     '/users/:id': ({ id }) => fetchUser(id).then((user) => user.name),
+ *     '/users/:id/edit': 'Edit'
+ *   }}
+ * />
+ *
+ * @example
+ * // With a custom separator and a placeholder while labels load
+ * <Breadcrumbs
+ *   separator={<ChevronIcon />}
+ *   renderItem={(item, renderDefault) => item.status === 'loading' ? <Skeleton /> : renderDefault()}
+ * />
+ */
+export const Breadcrumbs: React.FC<BreadcrumbsProps> = ({
+    location,
+    routes,
+    label,
+    includeHome,
+    homeLabel,
+    matchOptions,
+    separator = '/',
+    renderItem,
+    linkProps,
+    listClassName,
+    itemClassName,
+    as: Component = 'nav',
+    'aria-label': ariaLabel = 'Breadcrumb',
+    ...restProps
+}) => {
+    const items = useBreadcrumbs({ location, routes, label, includeHome, homeLabel, matchOptions });
+
+    const renderDefault = (item: BreadcrumbItem): React.ReactNode => {
+        if (item.isCurrent) {
+            return <span aria-current="page">{item.label}</span>;
+        }
+
+        // Ancestors of the current page must not be marked as active
+        return (
+            <NavPlus to={item.pathname} location={location} matchMode="exact" {...linkProps}>
+                {item.label}
+            </NavPlus>
+        );
+    };
+
+    return (
+        <Component aria-label={ariaLabel} {...restProps}>
+            <ol className={listClassName}>
+                {items.map((item, position) => (
+                    <li key={item.key} className={itemClassName} aria-busy={item.status === 'loading' || undefined}>
+                        {renderItem ? renderItem(item, () => renderDefault(item)) : renderDefault(item)}
+                        {position < items.length - 1 && separator !== null && (
+                            <span aria-hidden="true">{separator}</span>
+                        )}
+                    </li>
+                ))}
+            </ol>
+        </Component>
+    );
+};
+
+Breadcrumbs.displayName = 'Breadcrumbs';
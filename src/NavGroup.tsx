@@ -0,0 +1,175 @@
+/**
+ * @file NavGroup.tsx
+ * @description A collapsible section of navigation links that is active when any link under it is active
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { NavGroupContext, useNavGroup, useReportToNavGroup } from './context/NavGroupContext';
+import { NavGroupContextValue, NavGroupProps, NavGroupState } from './types';
+
+/**
+ * React.useId, which React 17 does not have
+ */
+const reactUseId = (React as unknown as { useId?: () => string }).useId;
+
+/**
+ * Counter for the ids of group contents in React 17
+ */
+let groupCount = 0;
+
+/**
+ * Generates the id of a group's content. React 18 ids match between the server and the client;
+ * the React 17 counter does not, so server-rendered groups there need an `id`
+ * @returns {string} - The generated id
+ */
+const useGeneratedId: () => string = reactUseId
+    ? () => `navplus-group-${reactUseId()}`
+    : () => useState(() => `navplus-group-${++groupCount}`)[0];
+
+/**
+ * NavGroup Component - Groups NavPlus links, e.g. a collapsible sidebar section. The group is
+ * active when any NavPlus below it is active, at any depth and whatever the URLs of the links,
+ * and expands when one becomes active. Groups can be nested; a nested group counts as active
+ * for its parent when one of its links is.
+ *
+ * @component
+ * @example
+ * // With a toggle button rendered from the label
+ * <NavGroup label="Settings">
+ *   <NavPlus to="/account">Account</NavPlus>
+ *   <NavPlus to="/billing">Billing</NavPlus>
+ * </NavGroup>
+ *
+ * @example
+ * // With a render prop
+ * <NavGroup as="li">
+ *   {({ isAnyChildActive, toggleProps, contentProps }) => (
+ *     <>
+ *       <button {...toggleProps} className={isAnyChildActive ? 'section current' : 'section'}>Reports</button>
+ *       <ul {...contentProps}>
+ *         <li><NavPlus to="/reports/weekly">Weekly</NavPlus></li>
+ *         <li><NavPlus to="/exports">Exports</NavPlus></li>
+ *       </ul>
+ *     </>
+ *   )}
+ * </NavGroup>
+ */
+export const NavGroup: React.FC<NavGroupProps> = ({
+    children,
+    label,
+    expanded,
+    defaultExpanded = false,
+    onExpandedChange,
+    autoExpand = true,
+    activeClassName = 'active',
+    as: Component = 'div',
+    className,
+    ...restProps
+}) => {
+    const parent = useNavGroup();
+    const depth = parent ? parent.depth + 1 : 0;
+
+    // Derive the content id from the group's id when given, so it is stable across server rendering
+    const generatedId = useGeneratedId();
+    const contentId = restProps.id ? `${restProps.id}-content` : generatedId;
+
+    // Descendants that are currently active
+    const activeChildrenRef = useRef(new Set<object>());
+    const [activeChildCount, setActiveChildCount] = useState(0);
+    const isAnyChildActive = activeChildCount > 0;
+
+    const setChildActive = useCallback((child: object, isActive: boolean) => {
+        const activeChildren = activeChildrenRef.current;
+        if (isActive) {
+            activeChildren.add(child);
+        } else {
+            activeChildren.delete(child);
+        }
+        setActiveChildCount(activeChildren.size);
+    }, []);
+
+    // Nested groups count as active for their parent
+    useReportToNavGroup(isAnyChildActive);
+
+    const [expandedState, setExpandedState] = useState(defaultExpanded);
+    const isExpanded = expanded ?? expandedState;
+
+    // Keep the latest callback without recreating setExpanded
+    const onExpandedChangeRef = useRef(onExpandedChange);
+    onExpandedChangeRef.current = onExpandedChange;
+
+    const setExpanded = useCallback((nextExpanded: boolean) => {
+        setExpandedState(nextExpanded);
+        onExpandedChangeRef.current?.(nextExpanded);
+    }, []);
+
+    const toggle = useCallback(() => setExpanded(!isExpanded), [setExpanded, isExpanded]);
+
+    // Keep the latest expanded state without running the auto-expand effect when it changes,
+    // so the group only expands when a link becomes active and can still be collapsed by hand
+    const isExpandedRef = useRef(isExpanded);
+    isExpandedRef.current = isExpanded;
+
+    useEffect(() => {
+        if (autoExpand && isAnyChildActive && !isExpandedRef.current) {
+            setExpanded(true);
+        }
+    }, [autoExpand, isAnyChildActive, setExpanded]);
+
+    const contextValue = useMemo<NavGroupContextValue>(() => ({
+        setChildActive,
+        isAnyChildActive,
+        isExpanded,
+        depth
+    }), [setChildActive, isAnyChildActive, isExpanded, depth]);
+
+    const state: NavGroupState = {
+        isAnyChildActive,
+        isExpanded,
+        setExpanded,
+        toggle,
+        toggleProps: {
+            'aria-expanded': isExpanded,
+            'aria-controls': contentId,
+            onClick: toggle
+        },
+        contentProps: {
+            id: contentId,
+            hidden: !isExpanded
+        },
+        depth
+    };
+
+    const content = typeof children === 'function'
+        ? children(state)
+        : (
+            <>
+                {label !== undefined && (
+                    <button type="button" {...state.toggleProps}>
+                        {label}
+                    </button>
+                )}
+                <div {...state.contentProps}>
+                    {children}
+                </div>
+            </>
+        );
+
+    const combinedClassName = [className, isAnyChildActive ? activeClassName : '']
+        .filter(Boolean)
+        .join(' ');
+
+    return (
+        <NavGroupContext.Provider value={contextValue}>
+            <Component
+                className={combinedClassName || undefined}
+                data-active={isAnyChildActive ? 'true' : 'false'}
+                {...restProps}
+            >
+                {content}
+            </Component>
+        </NavGroupContext.Provider>
+    );
+};
+
+NavGroup.displayName = 'NavGroup';
@@ -0,0 +1,92 @@
+/**
+ * @file NavIndicator.tsx
+ * @description An animated indicator, such as an underline or a pill, that follows the active link of a group
+ */
+
+import React, { useRef } from 'react';
+import { useNavIndicator } from './hooks/useNavIndicator';
+import { useIsomorphicLayoutEffect } from './hooks/useIsomorphicLayoutEffect';
+import { getIndicatorStyle, getIndicatorVariables } from './utils/navIndicator';
+import { NavIndicatorProps } from './types';
+
+/**
+ * NavIndicator Component - Slides over the active NavPlus of the links around it, found by
+ * their data-nav-active attribute, and follows it when another link becomes active or the links
+ * are resized. It doesn't animate for users who prefer reduced motion. Place it inside the
+ * element containing the links, and position that element (e.g. `position: relative`).
+ *
+ * In the default 'style' mode, the indicator is positioned with inline styles. In the
+ * 'variables' mode, it sets CSS variables on the container instead, for your own CSS:
+ * `--nav-indicator-x`, `-y`, `-width`, `-height`, `-opacity` and `-duration`.
+ *
+ * @component
+ * @example
+ * // An underline under the active tab
+ * <nav className="tabs" style={{ position: 'relative' }}>
+ *   <NavPlus to="/overview">Overview</NavPlus>
+ *   <NavPlus to="/activity">Activity</NavPlus>
+ *   <NavIndicator className="tabs-underline" />
+ * </nav>
+ *
+ * @example
+ * // With a render prop
+ * <NavIndicator>
+ *   {({ rect }) => <span className="pill" data-wide={rect && rect.width > 120} />}
+ * </NavIndicator>
+ *
+ * @example
+ * // With CSS variables, styled in CSS:
+ * // .tabs::after { transform: translateX(var(--nav-indicator-x)); width: var(--nav-indicator-width);
+ * //   transition: all var(--nav-indicator-duration) ease; }
+ * <NavIndicator mode="variables" hidden />
+ */
+export const NavIndicator: React.FC<NavIndicatorProps> = ({
+    children,
+    mode = 'style',
+    selector,
+    containerRef: containerRefProp,
+    duration = 200,
+    easing = 'ease',
+    variablePrefix = '--nav-indicator',
+    as: Component = 'span',
+    style,
+    ...restProps
+}) => {
+    const indicatorRef = useRef<HTMLElement | null>(null);
+
+    // Without a containerRef, the links are around the indicator
+    const parentRef = useRef<HTMLElement | null>(null);
+    useIsomorphicLayoutEffect(() => {
+        parentRef.current = indicatorRef.current?.parentElement ?? null;
+    });
+
+    const containerRef = containerRefProp || parentRef;
+    const state = useNavIndicator(containerRef, { selector });
+
+    useIsomorphicLayoutEffect(() => {
+        const container = containerRef.current;
+        if (mode !== 'variables' || !container) return;
+
+        const variables = getIndicatorVariables(state, duration, variablePrefix);
+        const names = Object.keys(variables);
+        names.forEach((name) => container.style.setProperty(name, variables[name]));
+
+        return () => names.forEach((name) => container.style.removeProperty(name));
+    }, [mode, containerRef, state, duration, variablePrefix]);
+
+    const content = typeof children === 'function' ? children(state) : children;
+
+    return (
+        <Component
+            ref={indicatorRef}
+            aria-hidden="true"
+            data-visible={state.isVisible ? 'true' : 'false'}
+            style={mode === 'style' ? { ...getIndicatorStyle(state, { duration, easing }), ...style } : style}
+            {...restProps}
+        >
+            {content}
+        </Component>
+    );
+};
+
+NavIndicator.displayName = 'NavIndicator';
@@ -0,0 +1,150 @@
+/**
+ * @file NavMenu.tsx
+ * @description Renders a navigation tree, e.g. loaded from a JSON config, as nested lists of NavPlus links
+ */
+
+import React from 'react';
+import { NavPlus } from './NavPlus';
+import { NavGroup } from './NavGroup';
+import { useNavTree } from './hooks/useNavTree';
+import { NavMenuProps, NavTreeItem, NavTreeNode } from './types';
+
+/**
+ * Renders the icon, label and badge of a node
+ * @param {NavTreeItem} item - The node
+ * @returns {React.ReactNode} - The content of the link or section header
+ */
+const renderDefaultLabel = (item: NavTreeItem): React.ReactNode => {
+    const { icon, label, badge } = item.node;
+    return (
+        <>
+            {icon}
+            {label}
+            {badge}
+        </>
+    );
+};
+
+/**
+ * NavMenu Component - Renders a navigation tree as a `<nav>` with nested `<ul>`/`<li>` lists.
+ * Nodes with a `to` render as NavPlus links, nodes with children as collapsible NavGroups
+ * that expand when one of their links is active. Nodes the user may not see are left out.
+ *
+ * @component
+ * @example
+ * const navConfig: NavTreeNode[] = [
+ *   { label: 'Home', to: '/', linkProps: { matchMode: 'exact' } },
+ *   { label: 'Reports', icon: <ChartIcon />, children: [
+ *     { label: 'Weekly', to: '/reports/weekly' },
+ *     { label: 'Exports', to: '/exports', permissions: ['reports:export'] }
+ *   ] },
+ *   { label: 'Beta', to: '/beta', featureFlag: 'beta', badge: <Badge>New</Badge> }
+ * ];
+ *
+ * <NavMenu
+ *   items={navConfig}
+ *   aria-label="Main"
+ *   hasPermission={(permission) => user.permissions.includes(permission)}
+ *   isFeatureEnabled={(flag) => flags[flag]}
+ * />
+ *
+ * @example
+ * // Override the rendering of some nodes
+ * <NavMenu
+ *   items={navConfig}
+ *   renderItem={(item, renderDefault) => item.node.meta?.divider ? <li key={item.key} role="separator" /> : renderDefault()}
+ * />
+ */
+export function NavMenu<Node extends NavTreeNode>({
+    items,
+    location,
+    matchMode,
+    matchOptions,
+    hasPermission,
+    isFeatureEnabled,
+    filter,
+    renderItem,
+    renderLabel = renderDefaultLabel,
+    linkProps,
+    toggleIcon = '▾',
+    listClassName,
+    itemClassName,
+    as: Component = 'nav',
+    ...restProps
+}: NavMenuProps<Node>): React.ReactElement {
+    const tree = useNavTree(items, { location, matchMode, matchOptions, hasPermission, isFeatureEnabled, filter });
+
+    const renderLink = (item: NavTreeItem<Node>, id?: string) => (
+        <NavPlus
+            to={item.node.to!}
+            id={id}
+            location={location}
+            matchMode={matchMode}
+            matchOptions={matchOptions}
+            {...linkProps}
+            {...item.node.linkProps}
+        >
+            {renderLabel(item)}
+        </NavPlus>
+    );
+
+    const renderList = (listItems: NavTreeItem<Node>[], contentProps?: { id: string; hidden: boolean }) => (
+        <ul className={listClassName} {...contentProps}>
+            {listItems.map((item) => (
+                <React.Fragment key={item.key}>
+                    {renderItem ? renderItem(item, () => renderDefaultItem(item)) : renderDefaultItem(item)}
+                </React.Fragment>
+            ))}
+        </ul>
+    );
+
+    const renderDefaultItem = (item: NavTreeItem<Node>): React.ReactNode => {
+        if (item.children.length === 0) {
+            return (
+                <li className={itemClassName} data-active={item.isActive ? 'true' : 'false'}>
+                    {item.node.to ? renderLink(item) : <span>{renderLabel(item)}</span>}
+                </li>
+            );
+        }
+
+        const { label, toggleLabel = typeof label === 'string' ? label : undefined } = item.node;
+
+        return (
+            <NavGroup as="li" className={itemClassName} defaultExpanded={item.isAnyChildActive}>
+                {({ toggleProps, contentProps }) => {
+                    // Without a text label, the icon-only button is named after the node's link
+                    const linkId = item.node.linkProps?.id || `${contentProps.id}-link`;
+
+                    return (
+                        <>
+                            {item.node.to ? (
+                                <>
+                                    {renderLink(item, linkId)}
+                                    <button
+                                        type="button"
+                                        aria-label={toggleLabel}
+                                        aria-labelledby={toggleLabel ? undefined : linkId}
+                                        {...toggleProps}
+                                    >
+                                        <span aria-hidden="true">{toggleIcon}</span>
+                                    </button>
+                                </>
+                            ) : (
+                                <button type="button" aria-label={item.node.toggleLabel} {...toggleProps}>
+                                    {renderLabel(item)}
+                                </button>
+                            )}
+                            {renderList(item.children, contentProps)}
+                        </>
+                    );
+                }}
+            </NavGroup>
+        );
+    };
+
+    return (
+        <Component {...restProps}>
+            {renderList(tree)}
+        </Component>
+    );
+}
@@ -7,11 +7,31 @@
  */
 
 import React, { useRef, useEffect, useCallback, useMemo } from 'react';
-import { Link, LinkProps, useNavigate } from 'react-router-dom';
-import { useIsActive } from './hooks/useIsActive';
+import { useActiveMatch } from './hooks/useIsActive';
 import { usePrefetch } from './hooks/usePrefetch';
+import { useLocationChange } from './hooks/useLocationChange';
 import { useNavLinkContext } from './context/NavContext';
-import { NavPlusProps } from './types';
+import { useReportToNavGroup } from './context/NavGroupContext';
+import { useNavRovingItem } from './context/NavRovingGroupContext';
+import { runNavigationGuards, navigationGuards as sharedNavigationGuards } from './utils/navigationGuards';
+import { navEvents as sharedNavEvents } from './utils/navEvents';
+import { shouldHandleLinkClick } from './utils/linkClick';
+import { buildHref } from './utils/matchers';
+import { resolveAriaCurrent } from './utils/ariaCurrent';
+import {
+  resolveViewTransition,
+  startNavigationTransition,
+  supportsViewTransitions
+} from './utils/viewTransition';
+import {
+  defaultOutboundLinkPolicy,
+  isExternalUrl,
+  isOutboundLinkAllowed,
+  isSpecialSchemeUrl,
+  stripCurrentOrigin
+} from './utils/external';
+import { visuallyHiddenStyle } from './utils/visuallyHidden';
+import { NavEventBase, NavEventTrigger, NavEventType, NavPlusProps } from './types';
 
 /**
  * NavPlus Component - A flexible navigation link component with active state detection
@@ -19,7 +39,7 @@ import { NavPlusProps } from './types';
  * 
  * @component
  * @example
- * // Basic usage with React Router
+ * // Basic usage, with the router adapter of the NavLinkProvider
  * <NavPlus to="/home">Home</NavPlus>
  * 
  * @example
@@ -29,6 +49,18 @@ import { NavPlusProps } from './types';
  * </NavPlus>
  * 
  * @example
+ * // With a route pattern and matched params
+ * <NavPlus to="/projects/42" customActiveUrl="/projects/:projectId" matchMode="route">
+ *   {(isActive, params) => isActive ? `Project ${params.projectId}` : 'Projects'}
+ * </NavPlus>
+ * 
+ * @example
+ * // With params and search params, keeping the current filters
+ * <NavPlus to="/teams/:teamId/members" params={{ teamId }} search={{ page: 2 }} preserveSearch={['role']}>
+ *   Members
+ * </NavPlus>
+ * 
+ * @example
  * // With prefetching enabled
  * <NavPlus to="/products" prefetch={true}>Products</NavPlus>
  * 
@@ -46,15 +78,26 @@ import { NavPlusProps } from './types';
  * </NavPlus>
  * 
  * @example
- * // External link
- * <NavPlus to="https://example.com" isExternal>External Link</NavPlus>
+ * // Prefetch when the link scrolls into view or the browser is idle
+ * <NavPlus to="/pricing" prefetch={{ strategy: ['viewport', 'idle'], rootMargin: '200px' }}>
+ *   Pricing
+ * </NavPlus>
+ * 
+ * @example
+ * // External link, detected from the URL
+ * <NavPlus to="https://example.com">External Link</NavPlus>
  * 
  * @example
  * // Disabled link
  * <NavPlus to="/settings" disabled>Settings</NavPlus>
  */
 export const NavPlus = React.memo<NavPlusProps>(({
-  to,
+  to: toProp,
+  params: hrefParams,
+  search,
+  hash,
+  preserveSearch,
+  preserveScroll = false,
   children,
   location,
   navigate: navigateProp,
@@ -66,21 +109,33 @@ export const NavPlus = React.memo<NavPlusProps>(({
   onClick,
   matchMode = 'includes',
   matchPattern,
+  matchOptions,
   replace = false,
-  isExternal = false,
+  isExternal: isExternalProp,
   aria = {},
+  ariaCurrent,
   testId,
-  disabled = false,
+  trackingData,
+  disabled: disabledProp = false,
   activeStyle,
   inactiveStyle,
   customActiveUrl,
+  routeParams,
   linkProps = {},
   isActiveFunc,
   navigationDelay,
+  viewTransition,
+  onBeforeNavigate,
+  interceptAllClicks = false,
   triggerEvent = 'click',
-  prefetch = false,
+  prefetch,
   as,
   routerContext: propRouterContext,
+  onFocus,
+  onBlur,
+  onPrefetchStart,
+  onPrefetchSuccess,
+  onPrefetchError,
   ...restProps
 }: NavPlusProps) => {
 
@@ -96,31 +151,81 @@ export const NavPlus = React.memo<NavPlusProps>(({
 
   // Try to get navigate from props or context if not provided directly
   const navigate = navigateProp || routerContext?.navigate;
+  const currentLocation = location || routerContext?.location;
+  const guardRegistry = context.navigationGuards || sharedNavigationGuards;
+  const eventBus = context.eventBus || sharedNavEvents;
+
+  // Latest event fields, so emitting events doesn't depend on every prop
+  const eventFieldsRef = useRef<Omit<NavEventBase, 'to' | 'timestamp'>>({});
+  eventFieldsRef.current = { from: currentLocation, id, testId, trackingData };
+
+  // Keep the latest view transition options without recreating the navigation handler
+  const transitionOptions = resolveViewTransition(viewTransition, context.viewTransition);
+  const transitionOptionsRef = useRef(transitionOptions);
+  transitionOptionsRef.current = transitionOptions;
+
+  // Resolves once a navigation has rendered, for the view transition to capture the new page
+  const waitForLocationChange = useLocationChange(currentLocation);
 
   // Early return for invalid 'to' prop
-  if (!to) {
+  if (!toProp) {
     if (process.env.NODE_ENV !== 'production') {
       console.warn('NavPlus: "to" prop is required and should not be empty');
     }
     return null;
   }
 
+  // The URL built from params, search and hash
+  const href = buildHref(toProp, {
+    params: hrefParams,
+    search,
+    hash,
+    preserveSearch,
+    currentSearch: currentLocation?.search
+  });
+
+  // Detect external links unless isExternal says otherwise, and apply the outbound link policy
+  const outboundLinkPolicy = { ...defaultOutboundLinkPolicy, ...context.outboundLinkPolicy };
+  const isExternal = isExternalProp ?? isExternalUrl(href, outboundLinkPolicy.internalHosts);
+  const isOutboundBlocked = isExternal && !isOutboundLinkAllowed(href, outboundLinkPolicy);
+  const disabled = disabledProp || isOutboundBlocked;
+
+  if (isOutboundBlocked && process.env.NODE_ENV !== 'production') {
+    console.warn(`NavPlus: the outbound link policy blocks links to ${href}`);
+  }
+
+  // The URL used to render, navigate, prefetch and match; internal absolute URLs become paths for the router
+  const to = isExternal ? href : stripCurrentOrigin(href);
+
   // Determine if the link is active
-  const isActive = useIsActive(to, {
-    location: location || routerContext?.location,
+  const { isActive, isExact, params } = useActiveMatch(to, {
+    location: currentLocation,
     matchMode,
     matchPattern,
+    matchOptions,
     customActiveUrl,
+    routeParams,
     isActiveFunc
   });
 
+  // Let the nearest NavGroup know whether this link is active
+  useReportToNavGroup(isActive);
+
+  // Join the nearest NavRovingGroup, which manages the tabIndex of the link
+  const rovingProps = useNavRovingItem(linkRef, disabled, isActive);
+
   // Handle prefetching
-  const { isPrefetched, handlePrefetch, cancelPrefetch } = usePrefetch(to, {
+  const { status: prefetchStatus, isPrefetched, handlePrefetch, cancelPrefetch } = usePrefetch(to, {
     prefetch,
     isExternal,
     redirection,
     disabled,
-    routerContext
+    routerContext,
+    elementRef: linkRef,
+    metadata: { id, testId, trackingData },
+    onPrefetchStart,
+    onPrefetchSuccess,
+    onPrefetchError
   });
 
   // Ensure the component cleans up any timeouts when unmounting
@@ -133,23 +238,110 @@ export const NavPlus = React.memo<NavPlusProps>(({
   }, []);
 
   /**
-   * Handle navigation based on the navigationDelay
+   * Emit a navigation lifecycle event with the link's metadata
+   */
+  const emitNavEvent = useCallback((
+    type: Exclude<NavEventType, 'prefetch:error'>,
+    target: string,
+    trigger?: NavEventTrigger
+  ) => {
+    eventBus.emit({ ...eventFieldsRef.current, type, to: target, trigger, timestamp: Date.now() });
+  }, [eventBus]);
+
+  // Emit link:impression the first time the link becomes visible
+  useEffect(() => {
+    const element = linkRef.current;
+    if (!context.trackImpressions || !element || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        observer.disconnect();
+        emitNavEvent('link:impression', to);
+      }
+    }, { threshold: 0.5 });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [context.trackImpressions, emitNavEvent, to]);
+
+  /**
+   * Handle navigation based on the navigationDelay, once the navigation guards allow it
    */
-  const navigateWithDelay = useCallback((targetUrl: string, shouldReplace = false) => {
+  const navigateWithDelay = useCallback((targetUrl: string, shouldReplace = false, trigger: NavEventTrigger = 'click') => {
     if (!navigate) return;
 
     if (navigationTimeoutRef.current) {
       clearTimeout(navigationTimeoutRef.current);
     }
 
-    if (navigationDelay && navigationDelay > 0) {
-      navigationTimeoutRef.current = setTimeout(() => {
-        navigate(targetUrl, { replace: shouldReplace });
-      }, navigationDelay);
-    } else {
-      navigate(targetUrl, { replace: shouldReplace });
+    emitNavEvent('navigate:start', targetUrl, trigger);
+
+    const go = (url: string, replaceEntry: boolean) => {
+      const finishNavigation = () => {
+        context.afterNavigate?.(url, { preserveScroll, from: currentLocation });
+        emitNavEvent('navigate:end', url, trigger);
+      };
+
+      const navigateNow = () => {
+        const transition = transitionOptionsRef.current;
+        if (!transition || !supportsViewTransitions()) {
+          navigate(url, { replace: replaceEntry });
+          finishNavigation();
+          return;
+        }
+
+        // Let the router render the new location before the transition captures it
+        startNavigationTransition(
+          () => {
+            const rendered = waitForLocationChange(currentLocation);
+            navigate(url, { replace: replaceEntry });
+            return rendered;
+          },
+          transition,
+          linkRef.current
+        ).then(finishNavigation, (error) => {
+          if (process.env.NODE_ENV !== 'production') {
+            console.error(`NavPlus: navigation to ${url} failed`, error);
+          }
+        });
+      };
+
+      if (navigationDelay && navigationDelay > 0) {
+        navigationTimeoutRef.current = setTimeout(navigateNow, navigationDelay);
+      } else {
+        navigateNow();
+      }
+    };
+
+    const guards = onBeforeNavigate
+      ? [onBeforeNavigate].concat(guardRegistry.getGuards())
+      : guardRegistry.getGuards();
+
+    // Without guards, navigate synchronously
+    if (guards.length === 0) {
+      go(targetUrl, shouldReplace);
+      return;
     }
-  }, [navigate, navigationDelay]);
+
+    runNavigationGuards(guards, { from: currentLocation, to: targetUrl, replace: shouldReplace })
+      .then((navigation) => {
+        if (navigation) {
+          go(navigation.to, navigation.replace);
+        } else {
+          emitNavEvent('navigate:cancel', targetUrl, trigger);
+        }
+      });
+  }, [
+    navigate,
+    navigationDelay,
+    onBeforeNavigate,
+    guardRegistry,
+    currentLocation,
+    emitNavEvent,
+    context.afterNavigate,
+    preserveScroll,
+    waitForLocationChange
+  ]);
 
   /**
    * Click handler that uses the passed navigate function
@@ -165,24 +357,45 @@ export const NavPlus = React.memo<NavPlusProps>(({
       onClick(e);
     }
 
+    // Leave modified clicks, non-primary buttons and other targets to the browser
+    const target = (linkProps.target as string | undefined) || restProps.target;
+    const isClientSideClick = interceptAllClicks || shouldHandleLinkClick(e, target);
+
     // Handle navigation if not external and redirection is enabled
-    if (!isExternal && redirection && navigate && !e.defaultPrevented) {
+    if (!isExternal && redirection && navigate && isClientSideClick && !e.defaultPrevented) {
       e.preventDefault();
-      navigateWithDelay(to, replace);
+      navigateWithDelay(to, replace, 'click');
+    } else if (redirection && !e.defaultPrevented) {
+      // The browser follows the link itself, possibly in another tab or window
+      emitNavEvent('navigate:start', to, 'browser');
+      emitNavEvent('navigate:end', to, 'browser');
     }
-  }, [disabled, onClick, isExternal, redirection, navigate, to, replace, navigateWithDelay]);
+  }, [
+    disabled,
+    onClick,
+    linkProps.target,
+    restProps.target,
+    interceptAllClicks,
+    isExternal,
+    redirection,
+    navigate,
+    to,
+    replace,
+    navigateWithDelay,
+    emitNavEvent
+  ]);
 
   /**
    * Mouse enter handler for hover navigation or prefetching
    */
   const handleMouseEnter = useCallback((e: React.MouseEvent<HTMLElement>) => {
     // Handle prefetching
-    handlePrefetch();
+    handlePrefetch('hover');
 
     // Handle hover navigation
     if (triggerEvent === 'hover' && !disabled && redirection && navigate) {
       e.preventDefault();
-      navigateWithDelay(to, replace);
+      navigateWithDelay(to, replace, 'hover');
     }
 
     // Call user-provided onMouseEnter
@@ -214,6 +427,28 @@ export const NavPlus = React.memo<NavPlusProps>(({
     }
   }, [cancelPrefetch, restProps]);
 
+  /**
+   * Focus handler for keyboard prefetching
+   */
+  const handleFocus = useCallback((e: React.FocusEvent<HTMLElement>) => {
+    handlePrefetch('focus');
+
+    if (onFocus) {
+      onFocus(e as React.FocusEvent<HTMLAnchorElement>);
+    }
+  }, [handlePrefetch, onFocus]);
+
+  /**
+   * Blur handler to cancel prefetching
+   */
+  const handleBlur = useCallback((e: React.FocusEvent<HTMLElement>) => {
+    cancelPrefetch();
+
+    if (onBlur) {
+      onBlur(e as React.FocusEvent<HTMLAnchorElement>);
+    }
+  }, [cancelPrefetch, onBlur]);
+
   /**
    * Build up the className based on active state and provided classes
    */
@@ -231,7 +466,7 @@ export const NavPlus = React.memo<NavPlusProps>(({
    */
   const renderChildren = useMemo(() => {
     if (typeof children === 'function') {
-      return children(isActive);
+      return children(isActive, params);
     }
 
     if (React.isValidElement(children) && typeof children.type !== 'string') {
@@ -242,17 +477,19 @@ export const NavPlus = React.memo<NavPlusProps>(({
     }
 
     return children;
-  }, [children, isActive]);
+  }, [children, isActive, params]);
 
   /**
    * Computed ARIA attributes for better accessibility
    */
+  const ariaCurrentValue = resolveAriaCurrent({ isActive, isExact }, ariaCurrent);
+
   const computedAria = useMemo(() => {
     const ariaAttrs = { ...aria };
 
     // Add current attribute for active links (for screen readers)
-    if (isActive) {
-      ariaAttrs['aria-current'] = 'page';
+    if (ariaCurrentValue) {
+      ariaAttrs['aria-current'] = ariaCurrentValue;
     }
 
     // Add disabled attribute
@@ -261,7 +498,11 @@ export const NavPlus = React.memo<NavPlusProps>(({
     }
 
     return ariaAttrs;
-  }, [aria, isActive, disabled]);
+  }, [aria, ariaCurrentValue, disabled]);
+
+  // Name the exactly active link, so an active indicator can morph between links in view transitions.
+  // Names must be unique, so links that are only partially active, like '/', don't get it
+  const activeTransitionName = isExact ? transitionOptions?.activeName : undefined;
 
   /**
    * Common props for the final element
@@ -272,11 +513,18 @@ export const NavPlus = React.memo<NavPlusProps>(({
     onClick: triggerEvent === 'click' ? handleClick : undefined,
     onMouseEnter: handleMouseEnter,
     onMouseLeave: handleMouseLeave,
+    onFocus: handleFocus,
+    onBlur: handleBlur,
     ref: linkRef,
-    style: isActive ? activeStyle : inactiveStyle,
+    style: activeTransitionName
+      ? { ...activeStyle, viewTransitionName: activeTransitionName }
+      : isActive ? activeStyle : inactiveStyle,
     'data-testid': testId,
     'data-active': isActive ? 'true' : 'false',
+    'data-nav-active': isExact ? 'exact' : isActive ? 'partial' : 'false',
     'data-prefetched': isPrefetched ? 'true' : 'false',
+    'data-prefetch-status': prefetchStatus,
+    ...rovingProps,
     ...computedAria,
     ...restProps
   }), [
@@ -286,11 +534,17 @@ export const NavPlus = React.memo<NavPlusProps>(({
     handleClick,
     handleMouseEnter,
     handleMouseLeave,
+    handleFocus,
+    handleBlur,
     isActive,
+    isExact,
     activeStyle,
     inactiveStyle,
+    activeTransitionName,
     testId,
     isPrefetched,
+    prefetchStatus,
+    rovingProps,
     computedAria,
     restProps
   ]);
@@ -313,55 +567,63 @@ export const NavPlus = React.memo<NavPlusProps>(({
     return <span {...commonProps}>{renderChildren}</span>;
   }
 
-  // If it's an external link, render an anchor
+  // If it's an external link, render an anchor; mailto:, tel: and other schemes open in place
   if (isExternal) {
+    const { target, rel, icon, newTabLabel } = outboundLinkPolicy;
+    const isSpecialScheme = isSpecialSchemeUrl(to);
+    const opensNewTab = !isSpecialScheme && target === '_blank';
+
     return (
       <a
         href={to}
-        target="_blank"
-        rel="noopener noreferrer"
+        target={isSpecialScheme ? undefined : target}
+        rel={isSpecialScheme ? undefined : rel}
         {...commonProps}
       >
         {renderChildren}
+        {icon && <span className="pure-nav-link__external-icon" aria-hidden="true">{icon}</span>}
+        {opensNewTab && newTabLabel && <span style={visuallyHiddenStyle}>{` ${newTabLabel}`}</span>}
       </a>
     );
   }
 
-  // Otherwise, render a React Router Link
+  // Otherwise, render the router adapter's Link if there is one
+  const RouterLink = context.adapter?.Link;
+  if (RouterLink) {
+    return (
+      <RouterLink
+        to={to}
+        replace={replace}
+        {...commonProps}
+        {...linkProps}
+      >
+        {renderChildren}
+      </RouterLink>
+    );
+  }
+
+  // Without a router Link, render an anchor; clicks still navigate through `navigate`
   return (
-    <Link
-      to={to}
-      replace={replace}
-      {...commonProps}
-      {...linkProps}
-    >
+    <a href={to} {...commonProps} {...linkProps}>
       {renderChildren}
-    </Link>
+    </a>
   );
 });
 
 NavPlus.displayName = 'NavPlus';
 
 /**
- * Wrapper component that injects router context automatically
- * This makes it easier to use NavPlus without manually passing router props
+ * Wrapper component that takes location and navigation from the router adapter
+ * of the nearest NavLinkProvider, so they can't be passed by hand
  */
 export const RouterNavLink: React.FC<Omit<NavPlusProps, 'location' | 'navigate'>> = (props) => {
-  // We'll try to use React Router hooks if available
-  let routerContext: any = {};
-
-  try {
-    // Import from React Router dynamically if needed
-    const navigate = useNavigate();
-    routerContext.navigate = navigate;
-  } catch (error) {
-    // React Router hooks not available or not in context
-    if (process.env.NODE_ENV !== 'production') {
-      console.debug('RouterNavLink: React Router hooks not available');
-    }
+  const { adapter } = useNavLinkContext();
+
+  if (!adapter && process.env.NODE_ENV !== 'production') {
+    console.warn('RouterNavLink: no router adapter found, wrap your app in <NavLinkProvider adapter={...}>');
   }
 
-  return <NavPlus {...props} routerContext={routerContext} />;
+  return <NavPlus {...props} />;
 };
 
 RouterNavLink.displayName = 'RouterNavLink';
\ No newline at end of file
@@ -0,0 +1,207 @@
+/**
+ * @file NavRovingGroup.tsx
+ * @description A group of navigation links with a single tab stop and arrow key, Home/End and typeahead navigation
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import { NavRovingGroupContext } from './context/NavRovingGroupContext';
+import { getRovingTargetIndex, getTypeaheadIndex } from './utils/rovingFocus';
+import { NavRovingGroupContextValue, NavRovingGroupProps, NavRovingItemState, NavRovingPreset } from './types';
+
+/**
+ * Role of the group and of its links for each preset
+ */
+const presetRoles: Record<NavRovingPreset, { role?: string; itemRole?: string }> = {
+    navigation: {},
+    menubar: { role: 'menubar', itemRole: 'menuitem' },
+    tablist: { role: 'tablist', itemRole: 'tab' }
+};
+
+/**
+ * Time after which typed characters start a new typeahead search
+ */
+const typeaheadTimeout = 500;
+
+/**
+ * Sorts elements in document order
+ * @param {HTMLElement} a - An element
+ * @param {HTMLElement} b - Another element
+ * @returns {number} - Negative if a comes first
+ */
+const compareDocumentOrder = (a: HTMLElement, b: HTMLElement): number => {
+    return a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+};
+
+/**
+ * Counts the items on the first row of a grid laid out by CSS
+ * @param {HTMLElement[]} items - The items in document order
+ * @returns {number} - The number of columns
+ */
+const detectColumns = (items: HTMLElement[]): number => {
+    const firstTop = items[0].getBoundingClientRect().top;
+    let columns = 1;
+    while (columns < items.length && Math.abs(items[columns].getBoundingClientRect().top - firstTop) < 1) {
+        columns++;
+    }
+    return columns;
+};
+
+/**
+ * NavRovingGroup Component - Makes the NavPlus links inside it a single tab stop, as in the
+ * WAI-ARIA menubar and tablist patterns. Arrow keys move focus between the links along the
+ * orientation, Home and End to the first and last links, and typing characters to the next
+ * link whose text starts with them. Disabled links are skipped. Until a link is focused, the
+ * tab stop is the active link.
+ *
+ * @component
+ * @example
+ * // A menubar
+ * <NavRovingGroup preset="menubar" aria-label="Main">
+ *   <NavPlus to="/">Home</NavPlus>
+ *   <NavPlus to="/products">Products</NavPlus>
+ *   <NavPlus to="/pricing" disabled>Pricing</NavPlus>
+ * </NavRovingGroup>
+ *
+ * @example
+ * // Tabs laid out in a grid
+ * <NavRovingGroup preset="tablist" orientation="grid" columns={3}>
+ *   {sections.map((section) => (
+ *     <NavPlus key={section.id} to={section.url}>{section.title}</NavPlus>
+ *   ))}
+ * </NavRovingGroup>
+ */
+export const NavRovingGroup: React.FC<NavRovingGroupProps> = ({
+    children,
+    preset = 'navigation',
+    orientation = preset === 'navigation' ? 'vertical' : 'horizontal',
+    columns,
+    loop = true,
+    typeahead = true,
+    as,
+    onKeyDown,
+    onFocus,
+    ...restProps
+}) => {
+    const Component = as || (preset === 'navigation' ? 'nav' : 'div');
+    const { role, itemRole } = presetRoles[preset];
+
+    const containerRef = useRef<HTMLElement | null>(null);
+    const itemsRef = useRef(new Map<HTMLElement, NavRovingItemState>());
+
+    // The last focused link, which keeps the tab stop when focus leaves the group
+    const focusedRef = useRef<HTMLElement | null>(null);
+
+    const searchRef = useRef({ value: '', timeoutId: 0 });
+
+    useEffect(() => {
+        const search = searchRef.current;
+        return () => window.clearTimeout(search.timeoutId);
+    }, []);
+
+    const getFocusableItems = useCallback((): HTMLElement[] => {
+        const focusableItems: HTMLElement[] = [];
+        itemsRef.current.forEach((state, element) => {
+            if (!state.disabled) focusableItems.push(element);
+        });
+        return focusableItems.sort(compareDocumentOrder);
+    }, []);
+
+    const updateTabStops = useCallback(() => {
+        const focusableItems = getFocusableItems();
+        const focused = focusedRef.current;
+        const tabStop = (focused && focusableItems.indexOf(focused) !== -1 ? focused : null)
+            || focusableItems.filter((element) => itemsRef.current.get(element)?.isActive)[0]
+            || focusableItems[0];
+
+        itemsRef.current.forEach((_, element) => {
+            element.tabIndex = element === tabStop ? 0 : -1;
+        });
+    }, [getFocusableItems]);
+
+    const registerItem = useCallback((element: HTMLElement, state: NavRovingItemState) => {
+        itemsRef.current.set(element, state);
+        updateTabStops();
+
+        return () => {
+            itemsRef.current.delete(element);
+            if (focusedRef.current === element) {
+                focusedRef.current = null;
+            }
+            updateTabStops();
+        };
+    }, [updateTabStops]);
+
+    const handleFocus = useCallback((event: React.FocusEvent<HTMLElement>) => {
+        onFocus?.(event);
+
+        const target = event.target as HTMLElement;
+        if (itemsRef.current.has(target) && !itemsRef.current.get(target)?.disabled) {
+            focusedRef.current = target;
+            updateTabStops();
+        }
+    }, [onFocus, updateTabStops]);
+
+    const handleKeyDown = useCallback((event: React.KeyboardEvent<HTMLElement>) => {
+        onKeyDown?.(event);
+        if (event.defaultPrevented || event.altKey || event.metaKey) return;
+
+        const focusableItems = getFocusableItems();
+        const index = focusableItems.indexOf(event.target as HTMLElement);
+        if (index === -1) return;
+
+        const container = containerRef.current;
+        let targetIndex = getRovingTargetIndex(event.key, index, focusableItems.length, {
+            orientation,
+            loop,
+            columns: orientation === 'grid' ? columns || detectColumns(focusableItems) : undefined,
+            rtl: !!container && window.getComputedStyle(container).direction === 'rtl',
+            ctrlKey: event.ctrlKey
+        });
+
+        if (targetIndex === null && typeahead && event.key.length === 1 && event.key !== ' ' && !event.ctrlKey) {
+            const search = searchRef.current;
+            window.clearTimeout(search.timeoutId);
+            search.value += event.key;
+            search.timeoutId = window.setTimeout(() => {
+                search.value = '';
+            }, typeaheadTimeout);
+
+            targetIndex = getTypeaheadIndex(
+                focusableItems.map((element) => element.textContent || ''),
+                index,
+                search.value
+            );
+        }
+
+        if (targetIndex === null) return;
+
+        event.preventDefault();
+        const target = focusableItems[targetIndex];
+        focusedRef.current = target;
+        updateTabStops();
+        target.focus();
+    }, [onKeyDown, getFocusableItems, orientation, loop, columns, typeahead, updateTabStops]);
+
+    const contextValue = useMemo<NavRovingGroupContextValue>(() => ({
+        registerItem,
+        itemRole,
+        preset
+    }), [registerItem, itemRole, preset]);
+
+    return (
+        <NavRovingGroupContext.Provider value={contextValue}>
+            <Component
+                ref={containerRef}
+                role={role}
+                aria-orientation={role && orientation !== 'grid' ? orientation : undefined}
+                {...restProps}
+                onKeyDown={handleKeyDown}
+                onFocus={handleFocus}
+            >
+                {children}
+            </Component>
+        </NavRovingGroupContext.Provider>
+    );
+};
+
+NavRovingGroup.displayName = 'NavRovingGroup';
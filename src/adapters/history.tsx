@@ -0,0 +1,213 @@
+import React, { forwardRef, useCallback, useEffect, useState } from 'react';
+import { NavigateFunction, NavLocation, RouterAdapter, RouterLinkProps } from '../types';
+import { cleanUrl, parsePath } from '../utils/matchers';
+
+/**
+ * Event dispatched on the window after a history source pushes or replaces an entry,
+ * since pushState and replaceState don't fire popstate. Every source on the page
+ * listens to it, so micro-frontends sharing a window stay in sync
+ */
+const LOCATION_CHANGE_EVENT = 'navplus:locationchange';
+
+/**
+ * Options for creating a history source
+ * @interface HistorySourceOptions
+ */
+export interface HistorySourceOptions {
+    /**
+     * Base path the app is served from, e.g. '/app'. Stripped from the location
+     * and prepended to navigation targets. Ignored with hashRouting
+     */
+    basename?: string;
+
+    /**
+     * Keep the route in the URL hash ('/#/users') instead of the pathname
+     * @default false
+     */
+    hashRouting?: boolean;
+}
+
+/**
+ * A navigation source built on the browser History API
+ * @interface HistorySource
+ */
+export interface HistorySource {
+    /**
+     * Returns the current location, relative to the basename.
+     * Returns the same object until the location changes
+     */
+    getLocation: () => NavLocation;
+
+    /**
+     * Pushes or replaces a history entry and notifies subscribers
+     */
+    navigate: NavigateFunction;
+
+    /**
+     * Subscribes to location changes, including back and forward navigation
+     * @returns {() => void} - Function that removes the subscription
+     */
+    subscribe: (listener: () => void) => () => void;
+
+    /**
+     * Builds the href for a target, including the basename and hash prefix
+     */
+    createHref: (to: string) => string;
+}
+
+/**
+ * Joins a basename and a path without doubling slashes
+ * @param {string} basename - The basename, e.g. '/app'
+ * @param {string} to - The path, e.g. '/users?page=2'
+ * @returns {string} - The joined path
+ */
+const joinBasename = (basename: string, to: string): string => {
+    const base = cleanUrl(basename, { decode: false });
+    if (base === '/') return to;
+    return to === '/' ? base : `${base}${to.charAt(0) === '/' ? '' : '/'}${to}`;
+};
+
+/**
+ * Creates a navigation source for apps without a router, wrapping `history.pushState`,
+ * `history.replaceState` and `popstate`. Supports a basename and hash-based routing
+ *
+ * @param {HistorySourceOptions} [options] - Basename and hash routing options
+ * @returns {HistorySource} - The navigation source
+ *
+ * @example
+ * const source = createHistorySource({ basename: '/billing' });
+ * source.subscribe(() => console.log(source.getLocation().pathname));
+ * source.navigate('/invoices'); // URL becomes /billing/invoices, logs '/invoices'
+ *
+ * @example
+ * // Hash-based routing: the URL becomes /#/invoices
+ * const source = createHistorySource({ hashRouting: true });
+ */
+export const createHistorySource = ({ basename = '', hashRouting = false }: HistorySourceOptions = {}): HistorySource => {
+    let snapshot: NavLocation = { pathname: '/', search: '', hash: '' };
+
+    const readLocation = (): NavLocation => {
+        if (typeof window === 'undefined') return snapshot;
+
+        if (hashRouting) {
+            const { pathname, search, hash } = parsePath(window.location.hash.slice(1) || '/');
+            return { pathname: cleanUrl(pathname, { decode: false, trailingSlash: 'strict' }), search, hash };
+        }
+
+        const { pathname, search, hash } = window.location;
+        return {
+            pathname: basename
+                ? cleanUrl(pathname, { decode: false, trailingSlash: 'strict', basename })
+                : pathname,
+            search,
+            hash
+        };
+    };
+
+    const getLocation = (): NavLocation => {
+        const next = readLocation();
+        if (
+            next.pathname !== snapshot.pathname
+            || next.search !== snapshot.search
+            || next.hash !== snapshot.hash
+        ) {
+            snapshot = next;
+        }
+        return snapshot;
+    };
+
+    const createHref = (to: string): string => (
+        hashRouting ? `#${to}` : joinBasename(basename, to)
+    );
+
+    const navigate: NavigateFunction = (to, options) => {
+        if (typeof window === 'undefined') return;
+
+        const href = hashRouting ? `${window.location.pathname}${window.location.search}${createHref(to)}` : createHref(to);
+        if (options?.replace) {
+            window.history.replaceState(null, '', href);
+        } else {
+            window.history.pushState(null, '', href);
+        }
+        window.dispatchEvent(new Event(LOCATION_CHANGE_EVENT));
+    };
+
+    const subscribe = (listener: () => void) => {
+        if (typeof window === 'undefined') return () => undefined;
+
+        window.addEventListener('popstate', listener);
+        window.addEventListener(LOCATION_CHANGE_EVENT, listener);
+        if (hashRouting) {
+            window.addEventListener('hashchange', listener);
+        }
+
+        return () => {
+            window.removeEventListener('popstate', listener);
+            window.removeEventListener(LOCATION_CHANGE_EVENT, listener);
+            if (hashRouting) {
+                window.removeEventListener('hashchange', listener);
+            }
+        };
+    };
+
+    return { getLocation, navigate, subscribe, createHref };
+};
+
+/**
+ * Creates a router adapter from a history source. NavLinkProvider subscribes to the
+ * source, so active states update on every navigation, including back and forward
+ *
+ * @param {HistorySource | HistorySourceOptions} [sourceOrOptions] - A history source, or options to create one
+ * @returns {RouterAdapter} - The router adapter
+ *
+ * @example
+ * const adapter = createHistoryAdapter({ basename: '/billing', hashRouting: true });
+ *
+ * <NavLinkProvider adapter={adapter}>
+ *   <NavPlus to="/invoices">Invoices</NavPlus>
+ * </NavLinkProvider>
+ */
+export const createHistoryAdapter = (sourceOrOptions: HistorySource | HistorySourceOptions = {}): RouterAdapter => {
+    const source = 'subscribe' in sourceOrOptions
+        ? sourceOrOptions
+        : createHistorySource(sourceOrOptions);
+
+    // Renders the href the browser needs for new tabs and copied links;
+    // plain clicks are handled by NavPlus through navigate
+    const Link = forwardRef<HTMLAnchorElement, RouterLinkProps>(({ to, replace, ...anchorProps }, ref) => (
+        <a {...anchorProps} href={source.createHref(to)} ref={ref} />
+    ));
+    Link.displayName = 'HistoryLink';
+
+    return {
+        name: 'history',
+        Link,
+        useLocation: () => {
+            const [location, setLocation] = useState(source.getLocation);
+
+            useEffect(() => {
+                const handleChange = () => setLocation(source.getLocation());
+
+                // Catch changes between the first render and the subscription
+                handleChange();
+                return source.subscribe(handleChange);
+            }, []);
+
+            return location;
+        },
+        useNavigate: () => useCallback<NavigateFunction>((to, options) => {
+            source.navigate(to, options);
+        }, [])
+    };
+};
+
+/**
+ * Router adapter for apps without a router, built on the browser History API.
+ * Use `createHistoryAdapter` for a basename or hash-based routing
+ *
+ * @example
+ * <NavLinkProvider adapter={historyAdapter}>
+ *   <App />
+ * </NavLinkProvider>
+ */
+export const historyAdapter: RouterAdapter = createHistoryAdapter();
@@ -0,0 +1,79 @@
+import React from 'react';
+import { NavigateFunction, NavLocation, PrefetchFunction, RouterAdapter } from '../types';
+import { DataRouterLike, MatchRoutesLike, prefetchRouteData } from '../utils/routeData';
+
+/**
+ * The parts of react-router-dom used by the adapter
+ * @interface ReactRouterModule
+ */
+export interface ReactRouterModule {
+    Link: React.ElementType;
+    useLocation: () => NavLocation;
+    useNavigate: () => NavigateFunction;
+    matchRoutes?: MatchRoutesLike;
+}
+
+/**
+ * Options for the React Router adapter
+ * @interface ReactRouterAdapterOptions
+ */
+export interface ReactRouterAdapterOptions {
+    /**
+     * Data router created with `createBrowserRouter` (React Router 6.4+ and 7).
+     * With it and `matchRoutes`, prefetching loads the matched routes' lazy() modules
+     * instead of requesting the document
+     */
+    router?: DataRouterLike;
+
+    /**
+     * Whether prefetching also calls the matched routes' loaders.
+     * Wrap loaders with `withPrefetchCache` so navigation reuses the data
+     * @default false
+     */
+    prefetchLoaders?: boolean;
+}
+
+/**
+ * Creates a router adapter for React Router v6 and v7.
+ * The router is passed in rather than imported, so react-router-dom stays an optional dependency
+ *
+ * @param {ReactRouterModule} reactRouter - `Link`, `useLocation`, `useNavigate` and optionally `matchRoutes` from react-router-dom
+ * @param {ReactRouterAdapterOptions} [options] - Data router options for route prefetching
+ * @returns {RouterAdapter} - The router adapter
+ *
+ * @example
+ * import { Link, useLocation, useNavigate } from 'react-router-dom';
+ *
+ * const adapter = createReactRouterAdapter({ Link, useLocation, useNavigate });
+ *
+ * @example
+ * // With a data router, prefetch lazy routes and loader data
+ * import { Link, useLocation, useNavigate, matchRoutes } from 'react-router-dom';
+ *
+ * const adapter = createReactRouterAdapter(
+ *   { Link, useLocation, useNavigate, matchRoutes },
+ *   { router, prefetchLoaders: true }
+ * );
+ */
+export const createReactRouterAdapter = (
+    { Link, useLocation, useNavigate, matchRoutes }: ReactRouterModule,
+    { router, prefetchLoaders = false }: ReactRouterAdapterOptions = {}
+): RouterAdapter => {
+    const adapter: RouterAdapter = {
+        name: 'react-router',
+        Link,
+        useLocation,
+        useNavigate
+    };
+
+    if (router && matchRoutes) {
+        const prefetch: PrefetchFunction = (to, { signal } = {}) => (
+            prefetchRouteData(to, { router, matchRoutes, loaders: prefetchLoaders, signal })
+        );
+        adapter.usePrefetch = () => prefetch;
+    } else if (router && process.env.NODE_ENV !== 'production') {
+        console.warn('createReactRouterAdapter: pass matchRoutes from react-router-dom to prefetch route data');
+    }
+
+    return adapter;
+};
@@ -0,0 +1,106 @@
+import React, { forwardRef, useCallback, useMemo } from 'react';
+import { NavigateFunction, NavLocation, PrefetchFunction, RouterAdapter, RouterLinkProps } from '../types';
+import { parsePath } from '../utils/matchers';
+
+/**
+ * The parts of a TanStack Router instance used by the adapter
+ * @interface TanStackRouterLike
+ */
+export interface TanStackRouterLike {
+    navigate: (options: { href: string; replace?: boolean }) => unknown;
+    preloadRoute?: (options: { href: string }) => Promise<unknown>;
+}
+
+/**
+ * The parts of the TanStack Router location used by the adapter
+ * @interface TanStackLocationLike
+ */
+export interface TanStackLocationLike {
+    pathname: string;
+    searchStr?: string;
+    hash?: string;
+}
+
+/**
+ * The parts of @tanstack/react-router used by the adapter
+ * @interface TanStackRouterModule
+ */
+export interface TanStackRouterModule {
+    useRouter: () => TanStackRouterLike;
+    useRouterState: (options: { select: (state: { location: TanStackLocationLike }) => TanStackLocationLike }) => TanStackLocationLike;
+    Link?: React.ElementType;
+}
+
+/**
+ * Turns a query string into the search object TanStack Router's Link expects.
+ * Repeated keys become arrays
+ * @param {string} search - The query string, e.g. '?tab=files&tag=a&tag=b'
+ * @returns {Record<string, string | string[]>} - The search params
+ */
+const toSearchObject = (search: string): Record<string, string | string[]> => {
+    const result: Record<string, string | string[]> = {};
+    new URLSearchParams(search).forEach((value, key) => {
+        const current = result[key];
+        result[key] = current === undefined ? value : ([] as string[]).concat(current, value);
+    });
+    return result;
+};
+
+/**
+ * Creates a router adapter for TanStack Router. Navigation and preloading go through
+ * the router instance, so links work with full URLs including search and hash.
+ * TanStack's Link takes the path, search and hash separately, so the URL is split for it
+ *
+ * @param {TanStackRouterModule} tanstackRouter - `useRouter`, `useRouterState` and optionally `Link` from @tanstack/react-router
+ * @returns {RouterAdapter} - The router adapter
+ *
+ * @example
+ * import { Link, useRouter, useRouterState } from '@tanstack/react-router';
+ *
+ * const adapter = createTanStackRouterAdapter({ Link, useRouter, useRouterState });
+ */
+export const createTanStackRouterAdapter = ({
+    useRouter,
+    useRouterState,
+    Link
+}: TanStackRouterModule): RouterAdapter => {
+    const TanStackLink = Link && forwardRef<HTMLAnchorElement, RouterLinkProps>(({ to, ...linkProps }, ref) => {
+        const { pathname, search, hash } = parsePath(to);
+        return React.createElement(Link, {
+            ...linkProps,
+            ref,
+            to: pathname,
+            search: search ? toSearchObject(search) : undefined,
+            hash: hash ? hash.slice(1) : undefined
+        });
+    });
+    if (TanStackLink) TanStackLink.displayName = 'TanStackLink';
+
+    return {
+        name: 'tanstack-router',
+        Link: TanStackLink,
+        useLocation: () => {
+            const { pathname, searchStr, hash } = useRouterState({ select: (state) => state.location });
+            return useMemo<NavLocation>(() => ({
+                pathname,
+                search: searchStr,
+                hash
+            }), [pathname, searchStr, hash]);
+        },
+        useNavigate: () => {
+            const router = useRouter();
+            return useCallback<NavigateFunction>((to, options) => {
+                // A failed loader or a blocked navigation rejects; don't leave it unhandled
+                Promise.resolve(router.navigate({ href: to, replace: options?.replace })).catch((error) => {
+                    if (process.env.NODE_ENV !== 'production') {
+                        console.error(`createTanStackRouterAdapter: navigation to ${to} failed`, error);
+                    }
+                });
+            }, [router]);
+        },
+        usePrefetch: () => {
+            const router = useRouter();
+            return useCallback<PrefetchFunction>((to) => router.preloadRoute?.({ href: to }), [router]);
+        }
+    };
+};
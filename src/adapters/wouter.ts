@@ -0,0 +1,44 @@
+import React, { useCallback, useMemo } from 'react';
+import { NavigateFunction, NavLocation, RouterAdapter } from '../types';
+
+/**
+ * The parts of wouter used by the adapter
+ * @interface WouterModule
+ */
+export interface WouterModule {
+    useLocation: () => [string, (to: string, options?: { replace?: boolean }) => void];
+    useSearch?: () => string;
+    Link?: React.ElementType;
+}
+
+/**
+ * Creates a router adapter for wouter. Pass `useSearch` (wouter v3) to match query strings
+ *
+ * @param {WouterModule} wouter - `useLocation` and optionally `useSearch` and `Link` from wouter
+ * @returns {RouterAdapter} - The router adapter
+ *
+ * @example
+ * import { Link, useLocation, useSearch } from 'wouter';
+ *
+ * const adapter = createWouterAdapter({ Link, useLocation, useSearch });
+ */
+export const createWouterAdapter = ({ useLocation, useSearch, Link }: WouterModule): RouterAdapter => {
+    // Decided once so the same hooks run on every render
+    const useSearchString = useSearch || (() => '');
+
+    return {
+        name: 'wouter',
+        Link,
+        useLocation: () => {
+            const [pathname] = useLocation();
+            const search = useSearchString();
+            return useMemo<NavLocation>(() => ({ pathname, search }), [pathname, search]);
+        },
+        useNavigate: () => {
+            const [, setLocation] = useLocation();
+            return useCallback<NavigateFunction>((to, options) => {
+                setLocation(to, { replace: options?.replace });
+            }, [setLocation]);
+        }
+    };
+};
@@ -1,56 +1,273 @@
-import React, { createContext, useContext, useMemo } from 'react';
-import { matchers } from '../utils/matchers';
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { createMatchers, matchers } from '../utils/matchers';
 import { defaultPrefetchOptions } from '../utils/prefetch';
-import { NavLinkContextValue, PrefetchOptions, MatchMode } from '../types';
-import { useNavigate, useLocation } from 'react-router-dom';
+import { prefetchCache as sharedPrefetchCache } from '../utils/prefetchCache';
+import { prefetchQueue as sharedPrefetchQueue } from '../utils/prefetchQueue';
+import { createNavigationGuardRegistry, navigationGuards as sharedNavigationGuards } from '../utils/navigationGuards';
+import { createNavEventBus, navEvents as sharedNavEvents } from '../utils/navEvents';
+import { isExternalUrl } from '../utils/external';
+import { visuallyHiddenStyle } from '../utils/visuallyHidden';
+import { usePostNavigation } from '../hooks/usePostNavigation';
+import {
+    NavLinkContextValue,
+    PrefetchOptions,
+    MatchMode,
+    MatchOptions,
+    Matcher,
+    NavLocation,
+    PrefetchCache,
+    PrefetchQueue,
+    PrefetchCallbacks,
+    NavigationGuard,
+    NavEventBus,
+    NavigationAnnouncerOptions,
+    OutboundLinkPolicy,
+    PostNavigationOptions,
+    ViewTransitionOptions,
+    RouterAdapter,
+    RouterContext
+} from '../types';
+
+/**
+ * Prefetch defaults for links that don't set the prefetch prop.
+ * Prefetching stays off unless the provider's prefetchDefaults enable it
+ */
+const linkPrefetchDefaults: PrefetchOptions = {
+    ...defaultPrefetchOptions,
+    enabled: false
+};
+
+/**
+ * Adapter used when no router adapter is provided: no location, navigation or prefetching
+ */
+const noopAdapter: RouterAdapter = {
+    name: 'none',
+    useLocation: () => undefined,
+    useNavigate: () => undefined,
+    usePrefetch: () => undefined
+};
 
 /**
  * Context for sharing navigation state across components
  */
 export const NavLinkContext = createContext<NavLinkContextValue>({
     activeMatchers: matchers,
-    prefetchDefaults: defaultPrefetchOptions,
+    prefetchDefaults: linkPrefetchDefaults,
+    prefetchCache: sharedPrefetchCache,
+    prefetchQueue: sharedPrefetchQueue,
+    navigationGuards: sharedNavigationGuards,
+    eventBus: sharedNavEvents,
+    trackImpressions: false,
     routerContext: undefined
 });
 
 /**
  * Props for the NavLinkProvider component
  */
-interface NavLinkProviderProps {
+interface NavLinkProviderProps extends PrefetchCallbacks {
     /**
      * Children to render inside the provider
      */
     children: React.ReactNode;
 
     /**
-     * Optional map of active state matcher functions
+     * Optional map of active state matcher functions. Entries override the built-in
+     * matchers of the same name, or add new match modes (see MatchModeRegistry)
      */
-    activeMatchers?: Map<MatchMode, (pathname: string, url: string, pattern?: RegExp) => boolean>;
+    activeMatchers?: Map<MatchMode, Matcher>;
 
     /**
-     * Default prefetch options to use for all links
+     * App-wide options for comparing paths: trailing slashes, case sensitivity,
+     * URL decoding, the router basename and segment boundaries
+     */
+    matchOptions?: MatchOptions;
+
+    /**
+     * Default prefetch options to use for all links.
+     * Set `enabled: true` to prefetch links that don't set the prefetch prop
      */
     prefetchDefaults?: PrefetchOptions;
 
     /**
-     * Custom router context if not using React Router
+     * Registry deduplicating prefetches across links, created with createPrefetchCache.
+     * Defaults to the cache shared by the whole page
+     */
+    prefetchCache?: PrefetchCache;
+
+    /**
+     * Queue limiting concurrent prefetches and holding them back on data-saving or slow
+     * connections, created with createPrefetchQueue. Defaults to the queue shared by the whole page
+     */
+    prefetchQueue?: PrefetchQueue;
+
+    /**
+     * Guards run before every navigation started by a NavPlus below the provider, after the link's
+     * own onBeforeNavigate. Each can allow, cancel or redirect the navigation
+     */
+    beforeNavigate?: NavigationGuard | NavigationGuard[];
+
+    /**
+     * Event bus receiving the navigation lifecycle events of the links below the provider,
+     * created with createNavEventBus. Defaults to a bus of its own; subscribe with useNavEvents
+     */
+    eventBus?: NavEventBus;
+
+    /**
+     * Whether links emit a link:impression event the first time they become visible
+     * @default false
+     */
+    trackImpressions?: boolean;
+
+    /**
+     * How links to other sites are detected and rendered: internal hosts, target, rel,
+     * an icon or new-tab label, and which hosts may be linked to
+     */
+    outboundLinkPolicy?: OutboundLinkPolicy;
+
+    /**
+     * Whether to announce the new page to screen readers after navigations through links, in a
+     * polite live region. The announcement is the page title unless getMessage is set
+     * @default false
+     */
+    announceNavigation?: boolean | NavigationAnnouncerOptions;
+
+    /**
+     * What happens after links navigate: focus moves to the main landmark or focusTarget, the
+     * page scrolls to its top or the URL's hash target, and back and forward restore the scroll
+     * position. Links opt out with preserveScroll
+     * @default false
+     */
+    postNavigation?: boolean | PostNavigationOptions;
+
+    /**
+     * Whether links run their navigations in a view transition where the browser supports them,
+     * and the default transition options. Links override it with their viewTransition prop
+     * @default false
      */
-    customRouterContext?: any;
+    viewTransition?: boolean | ViewTransitionOptions;
 
     /**
-     * Whether to use React Router context automatically
-     * @default true
+     * Router adapter supplying the link component, location, navigation and prefetching.
+     * Must not change between renders
      */
-    useReactRouterContext?: boolean;
+    adapter?: RouterAdapter;
+
+    /**
+     * Custom router context, overriding what the adapter supplies
+     */
+    customRouterContext?: RouterContext;
 }
 
+/**
+ * Reads the title of the page, or its first heading when it has none
+ * @returns {string} - The title, empty if the page has neither
+ */
+const getPageTitle = (): string => {
+    return document.title || document.querySelector('h1')?.textContent?.trim() || '';
+};
+
+/**
+ * Live region announcing the page reached after each navigation through a link below the
+ * provider. Navigations that leave the location as it was, and links the browser follows
+ * itself, e.g. to a new tab or to other sites, are not announced
+ */
+const NavigationAnnouncer: React.FC<NavigationAnnouncerOptions> = ({ delay = 250, getMessage, className }) => {
+    const { eventBus = sharedNavEvents, routerContext, outboundLinkPolicy } = useNavLinkContext();
+    const [message, setMessage] = useState('');
+
+    // Keep the latest location and options without subscribing again
+    const latestRef = useRef({ location: routerContext?.location, outboundLinkPolicy, delay, getMessage });
+    latestRef.current = { location: routerContext?.location, outboundLinkPolicy, delay, getMessage };
+
+    useEffect(() => {
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+        let startLocationKey: string | undefined;
+
+        // Without an adapter, the location is read from the browser
+        const getLocationKey = () => {
+            const location = latestRef.current.location;
+            return location
+                ? `${location.pathname}${location.search || ''}${location.hash || ''}`
+                : window.location.href;
+        };
+
+        const unsubscribe = eventBus.subscribe((event) => {
+            if (event.type === 'navigate:start') {
+                startLocationKey = getLocationKey();
+                return;
+            }
+
+            if (event.trigger === 'browser'
+                || isExternalUrl(event.to, latestRef.current.outboundLinkPolicy?.internalHosts)) return;
+
+            const fromKey = startLocationKey;
+            if (timeoutId) clearTimeout(timeoutId);
+
+            timeoutId = setTimeout(() => {
+                if (getLocationKey() === fromKey) return;
+
+                const title = getPageTitle();
+                const buildMessage = latestRef.current.getMessage;
+                const nextMessage = buildMessage ? buildMessage(title, event) : title;
+                if (!nextMessage) return;
+
+                // Screen readers skip text that didn't change, so alternate a trailing no-break space
+                setMessage((current) => (current === nextMessage ? `${nextMessage}\u00a0` : nextMessage));
+            }, latestRef.current.delay);
+        }, ['navigate:start', 'navigate:end']);
+
+        return () => {
+            unsubscribe();
+            if (timeoutId) clearTimeout(timeoutId);
+        };
+    }, [eventBus]);
+
+    return (
+        <div
+            role="status"
+            aria-live="polite"
+            aria-atomic="true"
+            className={className}
+            style={className ? undefined : visuallyHiddenStyle}
+        >
+            {message}
+        </div>
+    );
+};
+
 /**
  * Provider component for NavLinkContext
  * 
  * @component
  * @example
- * // Basic usage
- * <NavLinkProvider>
+ * // With React Router
+ * import { Link, useLocation, useNavigate } from 'react-router-dom';
+ *
+ * const adapter = createReactRouterAdapter({ Link, useLocation, useNavigate });
+ *
+ * <NavLinkProvider adapter={adapter}>
+ *   <App />
+ * </NavLinkProvider>
+ * 
+ * @example
+ * // Without a router
+ * <NavLinkProvider adapter={historyAdapter}>
+ *   <App />
+ * </NavLinkProvider>
+ * 
+ * @example
+ * // With app-wide match options
+ * <NavLinkProvider
+ *   matchOptions={{ basename: '/app', trailingSlash: 'ignore', caseSensitive: false }}
+ * >
+ *   <App />
+ * </NavLinkProvider>
+ * 
+ * @example
+ * // With a custom match mode
+ * <NavLinkProvider
+ *   activeMatchers={new Map([['locale', (pathname, url) => stripLocale(pathname) === url]])}
+ * >
  *   <App />
  * </NavLinkProvider>
  * 
@@ -61,43 +278,173 @@ interface NavLinkProviderProps {
  * >
  *   <App />
  * </NavLinkProvider>
+ * 
+ * @example
+ * // Report failed prefetches of every link
+ * <NavLinkProvider onPrefetchError={(error, to) => logger.warn(`Prefetch of ${to} failed`, error)}>
+ *   <App />
+ * </NavLinkProvider>
+ * 
+ * @example
+ * // Send signed-out users to the login page
+ * <NavLinkProvider
+ *   beforeNavigate={({ to }) => (isSignedIn() || to === '/login' ? true : `/login?next=${encodeURIComponent(to)}`)}
+ * >
+ *   <App />
+ * </NavLinkProvider>
+ * 
+ * @example
+ * // Send navigation events to analytics
+ * const eventBus = createNavEventBus();
+ * eventBus.subscribe((event) => analytics.track(event.type, event));
+ *
+ * <NavLinkProvider eventBus={eventBus} trackImpressions>
+ *   <App />
+ * </NavLinkProvider>
+ * 
+ * @example
+ * // Mark user-generated outbound links and announce new tabs
+ * <NavLinkProvider
+ *   outboundLinkPolicy={{
+ *     internalHosts: ['*.example.com'],
+ *     rel: 'noopener noreferrer nofollow ugc',
+ *     newTabLabel: '(opens in a new tab)'
+ *   }}
+ * >
+ *   <App />
+ * </NavLinkProvider>
+ * 
+ * @example
+ * // Announce the title of each new page to screen readers
+ * <NavLinkProvider adapter={adapter} announceNavigation>
+ *   <App />
+ * </NavLinkProvider>
+ * 
+ * @example
+ * // Focus the page content and scroll smoothly after navigations
+ * <NavLinkProvider adapter={adapter} postNavigation={{ focusTarget: '#content', scrollBehavior: 'smooth' }}>
+ *   <App />
+ * </NavLinkProvider>
+ * 
+ * @example
+ * // Animate navigations with view transitions where the browser supports them
+ * <NavLinkProvider adapter={adapter} viewTransition>
+ *   <App />
+ * </NavLinkProvider>
+ * 
+ * @example
+ * // With at most two prefetches at once
+ * const prefetchQueue = createPrefetchQueue({ concurrency: 2 });
+ *
+ * <NavLinkProvider prefetchQueue={prefetchQueue}>
+ *   <App />
+ * </NavLinkProvider>
  */
 export const NavLinkProvider: React.FC<NavLinkProviderProps> = ({
     children,
     activeMatchers: customMatchers,
+    matchOptions,
     prefetchDefaults: customPrefetchDefaults,
-    customRouterContext,
-    useReactRouterContext = true
+    prefetchCache = sharedPrefetchCache,
+    prefetchQueue = sharedPrefetchQueue,
+    onPrefetchStart,
+    onPrefetchSuccess,
+    onPrefetchError,
+    beforeNavigate,
+    eventBus: customEventBus,
+    trackImpressions = false,
+    outboundLinkPolicy,
+    announceNavigation = false,
+    postNavigation = false,
+    viewTransition,
+    adapter,
+    customRouterContext
 }) => {
-    // Try to get React Router context if enabled
-    let reactRouterContext: unknown;
-
-    if (useReactRouterContext) {
-        try {
-            const navigate = useNavigate();
-            const location = useLocation();
-            reactRouterContext = { navigate, location };
-        } catch (error) {
-            // React Router hooks not available
-            if (process.env.NODE_ENV !== 'production') {
-                console.debug('NavLinkProvider: React Router hooks not available');
-            }
-        }
-    }
+    // The adapter's hooks run unconditionally; without one, the no-op adapter keeps the hook order stable
+    const activeAdapter = adapter || noopAdapter;
+    const usePrefetch = activeAdapter.usePrefetch || noopAdapter.usePrefetch!;
+
+    const location = activeAdapter.useLocation();
+    const navigate = activeAdapter.useNavigate();
+    const prefetch = usePrefetch();
+
+    const adapterRouterContext = useMemo<RouterContext | undefined>(() => (
+        adapter ? { location, navigate, prefetch } : undefined
+    ), [adapter, location, navigate, prefetch]);
+
+    // Stable callbacks calling the latest props, so inline callbacks don't re-render every link
+    const callbacksRef = useRef<PrefetchCallbacks>({});
+    callbacksRef.current = { onPrefetchStart, onPrefetchSuccess, onPrefetchError };
+
+    const prefetchCallbacks = useMemo<PrefetchCallbacks>(() => ({
+        onPrefetchStart: (to) => callbacksRef.current.onPrefetchStart?.(to),
+        onPrefetchSuccess: (to) => callbacksRef.current.onPrefetchSuccess?.(to),
+        onPrefetchError: (error, to) => callbacksRef.current.onPrefetchError?.(error, to)
+    }), []);
+
+    // Guards registered with useNavigationBlocker run after the latest beforeNavigate guards
+    const beforeNavigateRef = useRef(beforeNavigate);
+    beforeNavigateRef.current = beforeNavigate;
+
+    const [navigationGuards] = useState(() => createNavigationGuardRegistry(() => {
+        const guards = beforeNavigateRef.current;
+        if (!guards) return [];
+        return Array.isArray(guards) ? guards : [guards];
+    }));
+
+    const [ownEventBus] = useState(createNavEventBus);
+    const eventBus = customEventBus || ownEventBus;
+
+    const afterNavigate = usePostNavigation(
+        postNavigation ? (postNavigation === true ? {} : postNavigation) : undefined,
+        location
+    );
 
     // Combine context values
     const contextValue = useMemo(() => ({
-        activeMatchers: customMatchers || matchers,
+        activeMatchers: customMatchers ? createMatchers(customMatchers) : matchers,
+        matchOptions,
         prefetchDefaults: {
-            ...defaultPrefetchOptions,
+            ...linkPrefetchDefaults,
             ...customPrefetchDefaults
         },
-        routerContext: customRouterContext || reactRouterContext
-    }), [customMatchers, customPrefetchDefaults, customRouterContext, reactRouterContext]);
+        prefetchCache,
+        prefetchQueue,
+        prefetchCallbacks,
+        navigationGuards,
+        eventBus,
+        trackImpressions,
+        outboundLinkPolicy,
+        afterNavigate,
+        viewTransition,
+        adapter,
+        routerContext: customRouterContext
+            ? { ...adapterRouterContext, ...customRouterContext }
+            : adapterRouterContext
+    }), [
+        customMatchers,
+        matchOptions,
+        customPrefetchDefaults,
+        prefetchCache,
+        prefetchQueue,
+        prefetchCallbacks,
+        navigationGuards,
+        eventBus,
+        trackImpressions,
+        outboundLinkPolicy,
+        afterNavigate,
+        viewTransition,
+        adapter,
+        customRouterContext,
+        adapterRouterContext
+    ]);
 
     return (
         <NavLinkContext.Provider value={contextValue}>
             {children}
+            {announceNavigation && (
+                <NavigationAnnouncer {...(announceNavigation === true ? {} : announceNavigation)} />
+            )}
         </NavLinkContext.Provider>
     );
 };
@@ -113,4 +460,33 @@ export const NavLinkProvider: React.FC<NavLinkProviderProps> = ({
  */
 export const useNavLinkContext = (): NavLinkContextValue => {
     return useContext(NavLinkContext);
+};
+
+/**
+ * Hook to read the current location from the NavLinkProvider's router adapter.
+ * Re-renders the component whenever the location changes
+ * 
+ * @returns {NavLocation | undefined} The current location, undefined without an adapter
+ * 
+ * @example
+ * // With historyAdapter, this updates on pushState, replaceState, back and forward
+ * const location = useNavLocation();
+ */
+export const useNavLocation = (): NavLocation | undefined => {
+    return useNavLinkContext().routerContext?.location;
+};
+
+/**
+ * Hook to access the prefetch cache of the nearest NavLinkProvider, to inspect,
+ * invalidate or clear prefetched URLs
+ * 
+ * @returns {PrefetchCache} The prefetch cache
+ * 
+ * @example
+ * const cache = usePrefetchCache();
+ * // After saving a product, let links prefetch it again
+ * cache.invalidate(`/products/${id}`);
+ */
+export const usePrefetchCache = (): PrefetchCache => {
+    return useNavLinkContext().prefetchCache || sharedPrefetchCache;
 };
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { createContext, useContext, useEffect, useRef } from 'react';
+import { NavGroupContextValue } from '../types';
+
+/**
+ * Context through which links and nested groups report their active state to the nearest NavGroup
+ */
+export const NavGroupContext = createContext<NavGroupContextValue | null>(null);
+
+/**
+ * Hook reading the state of the nearest NavGroup
+ * @returns {NavGroupContextValue | null} - The group's state, or null outside a NavGroup
+ *
+ * @example
+ * const group = useNavGroup();
+ * const indent = group ? group.depth + 1 : 0;
+ */
+export const useNavGroup = (): NavGroupContextValue | null => {
+    return useContext(NavGroupContext);
+};
+
+/**
+ * Hook reporting whether a link or nested group is active to the nearest NavGroup
+ * @param {boolean} isActive - Whether the descendant is active
+ */
+export const useReportToNavGroup = (isActive: boolean): void => {
+    const group = useNavGroup();
+    const setChildActive = group?.setChildActive;
+
+    // A stable key for this descendant, so the group counts it once
+    const keyRef = useRef({});
+
+    useEffect(() => {
+        if (!setChildActive) return;
+
+        const key = keyRef.current;
+        setChildActive(key, isActive);
+        return () => setChildActive(key, false);
+    }, [setChildActive, isActive]);
+};
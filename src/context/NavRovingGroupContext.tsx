@@ -0,0 +1,47 @@
+import { createContext, useContext, useEffect, useMemo, RefObject } from 'react';
+import { NavRovingGroupContextValue } from '../types';
+
+/**
+ * Context through which links join the nearest NavRovingGroup
+ */
+export const NavRovingGroupContext = createContext<NavRovingGroupContextValue | null>(null);
+
+/**
+ * Hook reading the nearest NavRovingGroup
+ * @returns {NavRovingGroupContextValue | null} - The group, or null outside a NavRovingGroup
+ */
+export const useNavRovingGroup = (): NavRovingGroupContextValue | null => {
+    return useContext(NavRovingGroupContext);
+};
+
+/**
+ * Hook registering the element of a link with the nearest NavRovingGroup, which then manages
+ * its tabIndex and moves focus to it from the keyboard
+ * @param {RefObject<HTMLElement>} elementRef - Ref to the rendered element of the link
+ * @param {boolean} disabled - Whether the link is disabled and skipped
+ * @param {boolean} isActive - Whether the link is active
+ * @returns {Record<string, string | boolean | undefined>} - Role props for the link, e.g. role="tab" and aria-selected
+ */
+export const useNavRovingItem = (
+    elementRef: RefObject<HTMLElement>,
+    disabled: boolean,
+    isActive: boolean
+): Record<string, string | boolean | undefined> => {
+    const group = useNavRovingGroup();
+    const registerItem = group?.registerItem;
+    const itemRole = group?.itemRole;
+    const preset = group?.preset;
+
+    useEffect(() => {
+        const element = elementRef.current;
+        if (!registerItem || !element) return;
+
+        return registerItem(element, { disabled, isActive });
+        // The element changes along with `disabled`, when the link renders as a span instead
+    }, [registerItem, elementRef, disabled, isActive]);
+
+    return useMemo(() => (itemRole ? {
+        role: itemRole,
+        'aria-selected': preset === 'tablist' ? isActive : undefined
+    } : {}), [itemRole, preset, isActive]);
+};
@@ -0,0 +1,72 @@
+/**
+ * @file defineRoutes.tsx
+ * @description Declares the route table of an app once and derives a typed NavPlus variant from it
+ */
+
+import React from 'react';
+import { NavPlus } from './NavPlus';
+import { RouteLinkProps, RouteRegistry, RouteSearchParams } from './types';
+import { buildHref } from './utils/matchers';
+import { buildRouteHref, getRoutePattern, RouteTarget, stringifyRouteParams } from './utils/routes';
+
+/**
+ * Declares the route table of an app. The returned `Link` is a NavPlus variant where `to` is a
+ * route name and `params` and `search` are checked against the route: they are required when the
+ * pattern has required params or the declared search type has required keys. It builds the href
+ * and is active when the current location matches the route's pattern and the link's params.
+ *
+ * @param {RouteDefinitions} routes - Route patterns keyed by route name
+ * @returns {RouteRegistry} - The routes, an href builder and the typed Link component
+ *
+ * @example
+ * export const { href, Link: RouteLink } = defineRoutes({
+ *   home: '/',
+ *   user: '/users/:id/*',
+ *   search: { path: '/search', search: {} as { q: string; page?: number } }
+ * });
+ *
+ * <RouteLink to="user" params={{ id: 42 }}>Profile</RouteLink>
+ * <RouteLink to="search" search={{ q: 'shoes' }}>Shoes</RouteLink>
+ * navigate(href('user', { params: { id: 42 }, hash: 'posts' }));
+ *
+ * @example
+ * // Active on every user page, not only the linked user
+ * <RouteLink to="user" params={{ id: 42 }} matchParams={false}>Users</RouteLink>
+ */
+export function defineRoutes<
+    Routes extends Record<string, Pattern | { path: Pattern; search?: RouteSearchParams }>,
+    Pattern extends string
+>(routes: Routes): RouteRegistry<Routes> {
+    const href: RouteRegistry<Routes>['href'] = (to, ...args) => {
+        return buildRouteHref(routes[to], args[0] as RouteTarget | undefined);
+    };
+
+    const Link: RouteRegistry<Routes>['Link'] = (props) => {
+        const { to, params, search, hash, matchParams = true, ...navPlusProps } = props as RouteLinkProps<Routes>
+            & RouteTarget & { to: string };
+        const definition = routes[to];
+
+        if (!definition) {
+            if (process.env.NODE_ENV !== 'production') {
+                console.warn(`RouteLink: unknown route "${to}"`);
+            }
+            return null;
+        }
+
+        // Match the pattern with the link's search and hash, so matchOptions.search and hash still apply.
+        // They are appended to the pattern as is, since buildHref would read its optional segments as a query string
+        const activeUrl = `${getRoutePattern(definition)}${buildHref('', { search, hash })}`;
+
+        return (
+            <NavPlus
+                {...navPlusProps}
+                to={buildRouteHref(definition, { params, search, hash })}
+                customActiveUrl={activeUrl}
+                matchMode="route"
+                routeParams={matchParams ? stringifyRouteParams(params) : undefined}
+            />
+        );
+    };
+
+    return { routes, href, Link };
+}
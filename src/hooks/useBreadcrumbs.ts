@@ -0,0 +1,96 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BreadcrumbItem, BreadcrumbStatus, BreadcrumbsOptions } from '../types';
+import { useNavLinkContext } from '../context/NavContext';
+import { cleanUrl } from '../utils/matchers';
+import { PendingBreadcrumbItem, resolveBreadcrumbs } from '../utils/breadcrumbs';
+
+/**
+ * Async labels loaded for a set of crumbs
+ * @interface LoadedLabels
+ */
+interface LoadedLabels {
+    crumbs: PendingBreadcrumbItem[];
+    labels: Record<string, { label: React.ReactNode; status: BreadcrumbStatus }>;
+}
+
+/**
+ * Hook splitting the current pathname into breadcrumbs. Crumbs are labelled from the first
+ * matching route, then the label function, then their formatted segment. Async labels,
+ * e.g. the name of an entity, show the formatted segment with a 'loading' status until they resolve
+ *
+ * @param {BreadcrumbsOptions} [options] - Location, routes, label function and home crumb options
+ * @returns {BreadcrumbItem[]} - The crumbs, the last one being the current page
+ *
+ * @example
+ * const crumbs = useBreadcrumbs({
+ *   routes: {
+ *     '/projects': 'Projects',
+ *     '/projects/:projectId': ({ projectId }) => fetchProject(projectId).then((project) => project.name)
+ *   }
+ * });
+ */
+export function useBreadcrumbs(options: BreadcrumbsOptions = {}): BreadcrumbItem[] {
+    const context = useNavLinkContext();
+    const location = options.location || context.routerContext?.location;
+    const { basename, caseSensitive } = { ...context.matchOptions, ...options.matchOptions };
+    const includeHome = options.includeHome ?? true;
+
+    // Keep the pathname encoded, as it is used for the links of the crumbs
+    const pathname = location?.pathname ? cleanUrl(location.pathname, { basename, decode: false }) : '';
+
+    // Read the latest routes and labels, but only label the crumbs again when the pathname changes
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+
+    const crumbs = useMemo(
+        () => (pathname ? resolveBreadcrumbs(pathname, { ...optionsRef.current, includeHome, caseSensitive }) : []),
+        [pathname, includeHome, caseSensitive]
+    );
+
+    const [loaded, setLoaded] = useState<LoadedLabels>({ crumbs, labels: {} });
+
+    useEffect(() => {
+        let cancelled = false;
+
+        crumbs.forEach((crumb) => {
+            if (!crumb.pending) return;
+
+            crumb.pending.then(
+                (label) => ({ label, status: 'ready' as const }),
+                (error) => {
+                    if (process.env.NODE_ENV !== 'production') {
+                        console.error(`Failed to load the breadcrumb label of ${crumb.pathname}:`, error);
+                    }
+                    return { label: crumb.label, status: 'error' as const };
+                }
+            ).then((result) => {
+                // Labels of a previous pathname are dropped
+                if (cancelled) return;
+                setLoaded((previous) => ({
+                    crumbs,
+                    labels: { ...(previous.crumbs === crumbs ? previous.labels : {}), [crumb.key]: result }
+                }));
+            });
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [crumbs]);
+
+    const labels = loaded.crumbs === crumbs ? loaded.labels : undefined;
+
+    return useMemo(() => crumbs.map((crumb) => {
+        const loadedLabel = labels && labels[crumb.key];
+        return {
+            key: crumb.key,
+            pathname: crumb.pathname,
+            segment: crumb.segment,
+            index: crumb.index,
+            params: crumb.params,
+            isCurrent: crumb.isCurrent,
+            label: loadedLabel ? loadedLabel.label : crumb.label,
+            status: loadedLabel ? loadedLabel.status : crumb.status
+        };
+    }), [crumbs, labels]);
+}
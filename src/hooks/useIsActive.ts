@@ -1,6 +1,93 @@
 import { useMemo } from 'react';
-import { MatchMode } from '../types';
-import { isActive, isActiveWithCustomFn } from '../utils/matchers';
+import { ActiveMatch, LocationMatchOptions, NavLocation } from '../types';
+import { useNavLinkContext } from '../context/NavContext';
+import { matchLocation } from '../utils/matchers';
+
+/**
+ * Options for determining the active state of a link
+ */
+type IsActiveOptions = LocationMatchOptions & {
+    location?: NavLocation;
+};
+
+/**
+ * Hook for matching a link against the current location. Works like `useIsActive`,
+ * but also returns the params extracted from the pathname when matchMode is 'route'.
+ *
+ * @param {string} to - The target URL for the link
+ * @param {object} options - Options for determining active state, see `useIsActive`
+ * @returns {ActiveMatch} - Whether the link is active and the matched params
+ *
+ * @example
+ * const { isActive, params } = useActiveMatch('/projects/:projectId', {
+ *   location,
+ *   matchMode: 'route'
+ * });
+ * // params.projectId === '42' on /projects/42
+ */
+export function useActiveMatch(to: string, options: IsActiveOptions = {}): ActiveMatch {
+    const context = useNavLinkContext();
+
+    const {
+        location,
+        matchMode,
+        matchPattern,
+        matchOptions,
+        activeMatchers = context.activeMatchers,
+        customActiveUrl,
+        routeParams,
+        isActiveFunc
+    } = options;
+
+    const {
+        trailingSlash,
+        decode,
+        basename,
+        caseSensitive,
+        segmentBoundaries,
+        search,
+        hash
+    } = { ...context.matchOptions, ...matchOptions };
+
+    // Compare the route params by value, so an inline object doesn't invalidate the memo
+    const routeParamsKey = routeParams ? JSON.stringify(routeParams) : '';
+
+    return useMemo(() => matchLocation(to, location, {
+        matchMode,
+        matchPattern,
+        matchOptions: {
+            trailingSlash,
+            decode,
+            basename,
+            caseSensitive,
+            segmentBoundaries,
+            search,
+            hash
+        },
+        activeMatchers,
+        customActiveUrl,
+        routeParams: routeParamsKey ? JSON.parse(routeParamsKey) : undefined,
+        isActiveFunc
+    }), [
+        location?.pathname,
+        location?.search,
+        location?.hash,
+        to,
+        matchMode,
+        matchPattern,
+        customActiveUrl,
+        routeParamsKey,
+        isActiveFunc,
+        activeMatchers,
+        trailingSlash,
+        decode,
+        basename,
+        caseSensitive,
+        segmentBoundaries,
+        search,
+        hash
+    ]);
+}
 
 /**
  * Hook for determining if a link is active based on the current location,
@@ -8,10 +95,14 @@ import { isActive, isActiveWithCustomFn } from '../utils/matchers';
  * 
  * @param {string} to - The target URL for the link
  * @param {object} options - Options for determining active state
- * @param {object} options.location - Location object with pathname
- * @param {MatchMode} options.matchMode - How to match the URL ('exact', 'startsWith', 'includes', 'pattern')
+ * @param {NavLocation} options.location - Location object with pathname, and optionally search and hash
+ * @param {MatchMode} options.matchMode - How to match the URL ('exact', 'startsWith', 'includes', 'pattern', 'route')
  * @param {RegExp} options.matchPattern - Custom regex pattern for matching
+ * @param {MatchOptions} options.matchOptions - Trailing-slash, case, decoding, basename, segment, search and hash options,
+ * merged over the NavLinkProvider's matchOptions
+ * @param {Map<MatchMode, Matcher>} options.activeMatchers - Matchers to use, defaults to the NavLinkProvider's
  * @param {string} options.customActiveUrl - Custom URL to use for active state detection
+ * @param {RouteParams} options.routeParams - Params the location must match when matchMode is 'route'
  * @param {Function} options.isActiveFunc - Custom active detection function
  * @returns {boolean} - Whether the link is active
  * 
@@ -28,39 +119,42 @@ import { isActive, isActiveWithCustomFn } from '../utils/matchers';
  * });
  * 
  * @example
+ * // Under a router basename, ignoring case
+ * const isActive = useIsActive('/reports', {
+ *   location: window.location,
+ *   matchMode: 'startsWith',
+ *   matchOptions: { basename: '/app', caseSensitive: false }
+ * });
+ * 
+ * @example
+ * // A section link that is only active on its hash
+ * const isActive = useIsActive('/docs#install', {
+ *   location,
+ *   matchOptions: { hash: 'exact' }
+ * });
+ * 
+ * @example
+ * // With a route pattern
+ * const isActive = useIsActive('/users/:id/*', {
+ *   location,
+ *   matchMode: 'route'
+ * });
+ * 
+ * @example
+ * // Only on the route of one user
+ * const isActive = useIsActive('/users/:id/*', {
+ *   location,
+ *   matchMode: 'route',
+ *   routeParams: { id: '42' }
+ * });
+ * 
+ * @example
  * // With custom function
  * const isActive = useIsActive('/products', {
  *   location,
  *   isActiveFunc: (pathname, url) => pathname.includes(url) && pathname.includes('category')
  * });
  */
-export function useIsActive(
-    to: string,
-    options: {
-        location?: Pick<Location, 'pathname'>;
-        matchMode?: MatchMode;
-        matchPattern?: RegExp;
-        customActiveUrl?: string;
-        isActiveFunc?: (pathname: string, url: string) => boolean;
-    } = {}
-): boolean {
-    const {
-        location,
-        matchMode = 'includes',
-        matchPattern,
-        customActiveUrl,
-        isActiveFunc
-    } = options;
-
-    return useMemo(() => {
-        if (!location?.pathname) return false;
-
-        const urlToMatch = customActiveUrl || to;
-
-        if (isActiveFunc) {
-            return isActiveWithCustomFn(location.pathname, urlToMatch, isActiveFunc);
-        }
-
-        return isActive(location.pathname, urlToMatch, matchMode, matchPattern);
-    }, [location?.pathname, to, matchMode, matchPattern, customActiveUrl, isActiveFunc]);
-}
\ No newline at end of file
+export function useIsActive(to: string, options: IsActiveOptions = {}): boolean {
+    return useActiveMatch(to, options).isActive;
+}
@@ -0,0 +1,7 @@
+import { useEffect, useLayoutEffect } from 'react';
+
+/**
+ * useLayoutEffect in the browser, so DOM updates land before paint; useEffect on the
+ * server, where layout effects don't run and warn
+ */
+export const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? useLayoutEffect : useEffect;
@@ -0,0 +1,81 @@
+import { useCallback, useRef } from 'react';
+import { NavLocation } from '../types';
+import { useIsomorphicLayoutEffect } from './useIsomorphicLayoutEffect';
+
+/**
+ * Time after which waiting for a location change gives up, e.g. when a navigation was
+ * blocked or led to the current URL. Browsers abort view transitions whose update takes longer
+ */
+const locationChangeTimeout = 3000;
+
+/**
+ * A pending wait for the location to change
+ * @interface LocationWaiter
+ */
+interface LocationWaiter {
+    fromKey: string;
+    resolve: () => void;
+}
+
+/**
+ * Builds a key comparing locations by their pathname, search and hash
+ * @param {NavLocation} [location] - The location
+ * @returns {string} - The key, empty without a location
+ */
+export const getLocationKey = (location?: NavLocation): string => (
+    location ? `${location.pathname}${location.search || ''}${location.hash || ''}` : ''
+);
+
+/**
+ * Hook waiting for navigations to render. The returned function resolves once a location other
+ * than `from` has been committed, which covers routers that update the location in a React
+ * transition or after loading lazy routes. It also resolves when the component unmounts, as
+ * the new page has rendered by then, and after a timeout when the location doesn't change.
+ * Without a location to follow, it resolves right away
+ *
+ * @param {NavLocation} [location] - The current location
+ * @returns {(from?: NavLocation) => Promise<void>} - Waits for a location other than `from`,
+ * the location rendered when it is called by default
+ *
+ * @example
+ * const waitForLocationChange = useLocationChange(location);
+ *
+ * const rendered = waitForLocationChange();
+ * navigate('/photos/1');
+ * rendered.then(() => document.getElementById('photo')?.focus());
+ */
+export function useLocationChange(location?: NavLocation): (from?: NavLocation) => Promise<void> {
+    const locationKey = getLocationKey(location);
+
+    const committedKeyRef = useRef(locationKey);
+    const waitersRef = useRef<LocationWaiter[]>([]);
+
+    // Resolve in the commit of the new location, before the browser paints it
+    useIsomorphicLayoutEffect(() => {
+        committedKeyRef.current = locationKey;
+        waitersRef.current.filter((waiter) => waiter.fromKey !== locationKey).forEach((waiter) => waiter.resolve());
+    }, [locationKey]);
+
+    useIsomorphicLayoutEffect(() => () => {
+        waitersRef.current.slice().forEach((waiter) => waiter.resolve());
+    }, []);
+
+    return useCallback((from?: NavLocation) => new Promise<void>((resolve) => {
+        const fromKey = from ? getLocationKey(from) : committedKeyRef.current;
+        if (!committedKeyRef.current || fromKey !== committedKeyRef.current) {
+            resolve();
+            return;
+        }
+
+        const waiter: LocationWaiter = {
+            fromKey,
+            resolve: () => {
+                clearTimeout(timeoutId);
+                waitersRef.current = waitersRef.current.filter((item) => item !== waiter);
+                resolve();
+            }
+        };
+        const timeoutId = setTimeout(waiter.resolve, locationChangeTimeout);
+        waitersRef.current.push(waiter);
+    }), []);
+}
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react';
+import { NavEvent, NavEventType } from '../types';
+import { navEvents as sharedNavEvents } from '../utils/navEvents';
+import { useNavLinkContext } from '../context/NavContext';
+
+/**
+ * Hook subscribing to the navigation lifecycle events of the links below the nearest NavLinkProvider
+ *
+ * @param {(event: NavEvent) => void} listener - Called with each event; may change between renders
+ * @param {NavEventType[]} [types] - Event types to receive, all types if omitted
+ *
+ * @example
+ * // Send clicks and blocked navigations to analytics
+ * useNavEvents((event) => {
+ *   analytics.track(event.type, { to: event.to, from: event.from?.pathname, ...event.trackingData });
+ * }, ['navigate:start', 'navigate:cancel']);
+ */
+export function useNavEvents(listener: (event: NavEvent) => void, types?: NavEventType[]): void {
+    const { eventBus = sharedNavEvents } = useNavLinkContext();
+
+    // Keep the latest listener without subscribing again
+    const listenerRef = useRef(listener);
+    listenerRef.current = listener;
+
+    // Compare types by value, so an inline array doesn't resubscribe on every render
+    const typesKey = types ? types.join(',') : undefined;
+
+    useEffect(() => {
+        const subscribedTypes = typesKey === undefined ? undefined : typesKey.split(',') as NavEventType[];
+        return eventBus.subscribe((event) => listenerRef.current(event), subscribedTypes);
+    }, [eventBus, typesKey]);
+}
@@ -0,0 +1,139 @@
+import { RefObject, useEffect, useState } from 'react';
+import { NavIndicatorOptions, NavIndicatorRect, NavIndicatorState } from '../types';
+import { findActiveLink, getIndicatorRect, isSameIndicatorRect } from '../utils/navIndicator';
+import { useIsomorphicLayoutEffect } from './useIsomorphicLayoutEffect';
+
+const reducedMotionQuery = '(prefers-reduced-motion: reduce)';
+
+/**
+ * The measured part of the indicator's state
+ * @interface MeasuredIndicator
+ */
+interface MeasuredIndicator {
+    rect: NavIndicatorRect | null;
+    activeElement: HTMLElement | null;
+    hasMoved: boolean;
+}
+
+/**
+ * Hook reading whether the user prefers reduced motion, updated when the preference changes
+ * @returns {boolean} - Whether the user prefers reduced motion
+ */
+const usePrefersReducedMotion = (): boolean => {
+    const [reducedMotion, setReducedMotion] = useState(false);
+
+    useEffect(() => {
+        if (typeof window.matchMedia !== 'function') return;
+
+        const query = window.matchMedia(reducedMotionQuery);
+        const update = () => setReducedMotion(query.matches);
+        update();
+
+        // Safari before 14 only supports addListener
+        if (query.addEventListener) {
+            query.addEventListener('change', update);
+            return () => query.removeEventListener('change', update);
+        }
+        query.addListener(update);
+        return () => query.removeListener(update);
+    }, []);
+
+    return reducedMotion;
+};
+
+/**
+ * Hook measuring the active link within a container, e.g. to place a sliding underline. It
+ * measures again when a link becomes active, when links are added or removed, and when the
+ * container or the active link is resized
+ *
+ * @param {RefObject<HTMLElement>} containerRef - Ref to the element containing the links
+ * @param {NavIndicatorOptions} [options] - Selector of the active link, the exact active NavPlus by default
+ * @returns {NavIndicatorState} - The position and size of the active link, and whether to animate to it
+ *
+ * @example
+ * const tabsRef = useRef<HTMLDivElement>(null);
+ * const { rect, isVisible } = useNavIndicator(tabsRef);
+ */
+export function useNavIndicator(
+    containerRef: RefObject<HTMLElement>,
+    options: NavIndicatorOptions = {}
+): NavIndicatorState {
+    const { selector } = options;
+    const reducedMotion = usePrefersReducedMotion();
+
+    const [measured, setMeasured] = useState<MeasuredIndicator>({
+        rect: null,
+        activeElement: null,
+        hasMoved: false
+    });
+
+    useIsomorphicLayoutEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        let observedElement: HTMLElement | null = null;
+        const resizeObserver = typeof ResizeObserver !== 'undefined'
+            ? new ResizeObserver(() => measure())
+            : null;
+
+        const measure = () => {
+            const activeElement = findActiveLink(container, selector);
+
+            if (resizeObserver && activeElement !== observedElement) {
+                if (observedElement) resizeObserver.unobserve(observedElement);
+                if (activeElement) resizeObserver.observe(activeElement);
+                observedElement = activeElement;
+            }
+
+            const rect = activeElement
+                ? getIndicatorRect(activeElement.getBoundingClientRect(), container.getBoundingClientRect(), container)
+                : null;
+
+            setMeasured((previous) => {
+                if (previous.activeElement === activeElement && isSameIndicatorRect(previous.rect, rect)) {
+                    return previous;
+                }
+                // Without an active link, the indicator fades out where it was
+                return {
+                    rect: rect || previous.rect,
+                    activeElement,
+                    hasMoved: previous.rect !== null
+                };
+            });
+        };
+
+        measure();
+
+        // Links mark themselves active with attributes; the indicator's own styles are left out
+        const mutationObserver = new MutationObserver(measure);
+        mutationObserver.observe(container, {
+            subtree: true,
+            childList: true,
+            attributes: true,
+            attributeFilter: ['data-nav-active', 'data-active', 'aria-current', 'class']
+        });
+
+        if (resizeObserver) {
+            resizeObserver.observe(container);
+        } else {
+            window.addEventListener('resize', measure);
+        }
+
+        return () => {
+            mutationObserver.disconnect();
+            if (resizeObserver) {
+                resizeObserver.disconnect();
+            } else {
+                window.removeEventListener('resize', measure);
+            }
+        };
+    }, [containerRef, selector]);
+
+    return {
+        rect: measured.rect,
+        activeElement: measured.activeElement,
+        isVisible: !!measured.activeElement,
+        shouldAnimate: measured.hasMoved && !reducedMotion,
+        reducedMotion
+    };
+}
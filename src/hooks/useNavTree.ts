@@ -0,0 +1,50 @@
+import { useMemo } from 'react';
+import { NavTreeItem, NavTreeNode, NavTreeOptions } from '../types';
+import { useNavLinkContext } from '../context/NavContext';
+import { filterNavTree, resolveNavTree } from '../utils/navTree';
+
+/**
+ * Hook resolving a navigation tree against the current location: it removes the nodes the
+ * user may not see, builds the URL of each link and computes which nodes are active
+ *
+ * @param {NavTreeNode[]} tree - The navigation tree, e.g. loaded from a JSON config
+ * @param {NavTreeOptions} [options] - Location, match options and permission, feature flag and custom filters
+ * @returns {NavTreeItem[]} - The visible nodes with their URL and active state
+ *
+ * @example
+ * // A custom menu from the same config as NavMenu
+ * const items = useNavTree(navConfig, {
+ *   hasPermission: (permission) => user.permissions.includes(permission)
+ * });
+ * return <Tabs>{items.map((item) => <Tab key={item.key} selected={item.isActive}>{item.node.label}</Tab>)}</Tabs>;
+ */
+export function useNavTree<Node extends NavTreeNode>(
+    tree: Node[],
+    options: NavTreeOptions<Node> = {}
+): NavTreeItem<Node>[] {
+    const context = useNavLinkContext();
+    const location = options.location || context.routerContext?.location;
+    const { matchMode, hasPermission, isFeatureEnabled, filter } = options;
+
+    // Compare the match options by value, so an inline object doesn't invalidate the memo
+    const matchOptionsKey = JSON.stringify({ ...context.matchOptions, ...options.matchOptions });
+
+    const visibleTree = useMemo(
+        () => filterNavTree(tree, { hasPermission, isFeatureEnabled, filter }),
+        [tree, hasPermission, isFeatureEnabled, filter]
+    );
+
+    return useMemo(() => resolveNavTree(visibleTree, location, {
+        matchMode,
+        matchOptions: JSON.parse(matchOptionsKey),
+        activeMatchers: context.activeMatchers
+    }), [
+        visibleTree,
+        location?.pathname,
+        location?.search,
+        location?.hash,
+        matchMode,
+        matchOptionsKey,
+        context.activeMatchers
+    ]);
+}
@@ -0,0 +1,80 @@
+import { useEffect, useRef } from 'react';
+import { NavigationAttempt } from '../types';
+import { navigationGuards as sharedNavigationGuards } from '../utils/navigationGuards';
+import { useNavLinkContext } from '../context/NavContext';
+
+/**
+ * Options for useNavigationBlocker
+ * @interface NavigationBlockerOptions
+ */
+export interface NavigationBlockerOptions {
+    /**
+     * Message of the confirmation dialog
+     * @default 'You have unsaved changes. Leave this page?'
+     */
+    message?: string;
+
+    /**
+     * Asks whether to leave, e.g. with a custom modal. Defaults to window.confirm with the message
+     */
+    confirm?: (navigation: NavigationAttempt) => boolean | Promise<boolean>;
+
+    /**
+     * Whether to also ask before the page is reloaded or closed
+     * @default true
+     */
+    beforeUnload?: boolean;
+}
+
+const defaultMessage = 'You have unsaved changes. Leave this page?';
+
+/**
+ * Hook asking for confirmation before NavPlus navigates away while `when` is true,
+ * e.g. while a form has unsaved changes. It registers a navigation guard with the
+ * nearest NavLinkProvider, which runs after the provider's beforeNavigate guards
+ *
+ * @param {boolean} when - Whether to block navigations
+ * @param {NavigationBlockerOptions} [options] - Confirmation message and dialog
+ *
+ * @example
+ * // Confirm with the browser dialog while the form is dirty
+ * useNavigationBlocker(isDirty, { message: 'Discard your changes?' });
+ *
+ * @example
+ * // Confirm with a custom modal
+ * useNavigationBlocker(isDirty, {
+ *   confirm: ({ to }) => openConfirmModal(`Leave for ${to}?`)
+ * });
+ */
+export function useNavigationBlocker(when: boolean, options: NavigationBlockerOptions = {}): void {
+    const { navigationGuards = sharedNavigationGuards } = useNavLinkContext();
+    const { beforeUnload = true } = options;
+
+    // Keep the latest options without registering the guard again
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+
+    useEffect(() => {
+        if (!when) return;
+
+        return navigationGuards.register((navigation) => {
+            const { message = defaultMessage, confirm } = optionsRef.current;
+            return confirm ? confirm(navigation) : window.confirm(message);
+        });
+    }, [when, navigationGuards]);
+
+    useEffect(() => {
+        if (!when || !beforeUnload) return;
+
+        const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+            const message = optionsRef.current.message || defaultMessage;
+            event.preventDefault();
+            // Older browsers show the dialog only when returnValue is set
+            event.returnValue = message;
+            return message;
+        };
+
+        window.addEventListener('beforeunload', handleBeforeUnload);
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [when, beforeUnload]);
+}
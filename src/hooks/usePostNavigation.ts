@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { AfterNavigateOptions, NavLocation, PostNavigationOptions } from '../types';
+import { parsePath } from '../utils/matchers';
+import {
+    defaultPostNavigationOptions,
+    focusElement,
+    getHashTarget,
+    getHistoryEntryKey,
+    scrollWindowTo
+} from '../utils/postNavigation';
+import { getLocationKey, useLocationChange } from './useLocationChange';
+
+/**
+ * Number of frames to look for the element of the URL's hash, which lazy routes and
+ * pages loading their data may render a little after the location changes
+ */
+const hashTargetFrames = 30;
+
+/**
+ * A saved scroll position
+ * @interface ScrollPosition
+ */
+interface ScrollPosition {
+    left: number;
+    top: number;
+}
+
+/**
+ * Hook running the post-navigation behavior of NavLinkProvider: after a link navigates, it
+ * scrolls to the top of the new page or to the element of the URL's hash and moves focus to
+ * the focus target; on back and forward, it restores the scroll position the page was left at
+ *
+ * @param {PostNavigationOptions | undefined} options - The behavior, undefined to turn it off
+ * @param {NavLocation} [location] - The current location, to follow navigations not made by links
+ * @returns {((to: string, options: AfterNavigateOptions) => void) | undefined} - Called by links
+ * once they have navigated, undefined when turned off
+ *
+ * @example
+ * const afterNavigate = usePostNavigation({ focusTarget: '#content', scrollBehavior: 'smooth' }, location);
+ */
+export function usePostNavigation(
+    options: PostNavigationOptions | undefined,
+    location?: NavLocation
+): ((to: string, options: AfterNavigateOptions) => void) | undefined {
+    const enabled = !!options;
+    const restoreScroll = options?.restoreScroll ?? defaultPostNavigationOptions.restoreScroll;
+
+    // Keep the latest options without subscribing again
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+
+    const positionsRef = useRef(new Map<string, ScrollPosition>());
+
+    // The history entry the page is showing, whose position is saved when leaving it
+    const entryKeyRef = useRef<string | null>(null);
+
+    const saveScrollPosition = useCallback(() => {
+        if (entryKeyRef.current) {
+            positionsRef.current.set(entryKeyRef.current, { left: window.scrollX, top: window.scrollY });
+        }
+    }, []);
+
+    const locationKey = getLocationKey(location);
+    const waitForLocationChange = useLocationChange(location);
+
+    useEffect(() => {
+        if (enabled) {
+            entryKeyRef.current = getHistoryEntryKey();
+        }
+    }, [enabled, locationKey]);
+
+    useEffect(() => {
+        if (!enabled || !restoreScroll) return;
+
+        const { history } = window;
+        const previousScrollRestoration = history.scrollRestoration;
+        history.scrollRestoration = 'manual';
+
+        let frameId = 0;
+        const handlePopState = () => {
+            // The page hasn't changed yet, so this is still the position of the entry being left
+            saveScrollPosition();
+            entryKeyRef.current = getHistoryEntryKey();
+            const position = positionsRef.current.get(entryKeyRef.current);
+
+            // Wait for the router to render the page
+            cancelAnimationFrame(frameId);
+            frameId = requestAnimationFrame(() => {
+                if (position) {
+                    scrollWindowTo(position.left, position.top, 'instant');
+                    return;
+                }
+                const hashTarget = getHashTarget(window.location.href);
+                if (hashTarget) {
+                    hashTarget.scrollIntoView({ behavior: 'instant' as ScrollBehavior });
+                } else {
+                    scrollWindowTo(0, 0, 'instant');
+                }
+            });
+        };
+
+        window.addEventListener('popstate', handlePopState);
+        return () => {
+            window.removeEventListener('popstate', handlePopState);
+            cancelAnimationFrame(frameId);
+            history.scrollRestoration = previousScrollRestoration;
+        };
+    }, [enabled, restoreScroll, saveScrollPosition]);
+
+    // Cancels the post-navigation of the previous navigation
+    const cancelRef = useRef<() => void>(() => undefined);
+
+    useEffect(() => () => cancelRef.current(), []);
+
+    const afterNavigate = useCallback((to: string, { preserveScroll = false, from }: AfterNavigateOptions) => {
+        saveScrollPosition();
+        cancelRef.current();
+
+        let cancelled = false;
+        let frameId = 0;
+        cancelRef.current = () => {
+            cancelled = true;
+            cancelAnimationFrame(frameId);
+        };
+
+        const run = (framesLeft: number) => {
+            const { focusTarget, scroll, scrollBehavior } = { ...defaultPostNavigationOptions, ...optionsRef.current };
+            const hashTarget = getHashTarget(to);
+
+            // Give the page a few frames to render the element of the hash
+            if (!hashTarget && parsePath(to).hash.length > 1 && framesLeft > 0) {
+                frameId = requestAnimationFrame(() => run(framesLeft - 1));
+                return;
+            }
+
+            if (scroll) {
+                if (hashTarget) {
+                    hashTarget.scrollIntoView({ behavior: scrollBehavior as ScrollBehavior });
+                } else {
+                    scrollWindowTo(0, 0, scrollBehavior);
+                }
+            }
+
+            const focusedElement = hashTarget
+                || (focusTarget ? document.querySelector<HTMLElement>(focusTarget) : null);
+            if (focusedElement) {
+                focusElement(focusedElement);
+            }
+        };
+
+        // Wait for the router to render the new page
+        waitForLocationChange(from).then(() => {
+            if (cancelled) return;
+            entryKeyRef.current = getHistoryEntryKey();
+            if (preserveScroll) return;
+            frameId = requestAnimationFrame(() => run(hashTargetFrames));
+        });
+    }, [saveScrollPosition, waitForLocationChange]);
+
+    return enabled ? afterNavigate : undefined;
+}
@@ -1,18 +1,58 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { PrefetchOptions, RouterType } from '../types';
-import { normalizePrefetchOptions, executePrefetch } from '../utils/prefetch';
+import { useState, useCallback, useRef, useEffect, RefObject } from 'react';
+import {
+    NavEvent,
+    NavLinkMetadata,
+    PrefetchCacheEntry,
+    PrefetchCallbacks,
+    PrefetchOptions,
+    PrefetchStatus,
+    PrefetchStrategy
+} from '../types';
+import {
+    normalizePrefetchOptions,
+    executePrefetch,
+    removePrefetchLinks,
+    resolvePrefetchStrategies,
+    retryPrefetch
+} from '../utils/prefetch';
+import { prefetchCache as sharedPrefetchCache } from '../utils/prefetchCache';
+import { prefetchQueue as sharedPrefetchQueue } from '../utils/prefetchQueue';
+import { navEvents as sharedNavEvents } from '../utils/navEvents';
+import { useNavLinkContext } from '../context/NavContext';
 
 /**
- * Hook for handling prefetching of link targets with timeout management
+ * Status of a link's prefetch from its prefetch cache entry
+ * @param {PrefetchCacheEntry | undefined} entry - The cache entry of the link's URL
+ * @returns {PrefetchStatus} - 'pending' or 'success' for an entry, 'idle' without one
+ */
+const statusFromCache = (entry: PrefetchCacheEntry | undefined): PrefetchStatus => {
+    if (!entry) return 'idle';
+    return entry.status === 'success' ? 'success' : 'pending';
+};
+
+/**
+ * Hook for handling prefetching of link targets with timeout management.
+ * Prefetches go through the NavLinkProvider's prefetch cache, so links to the
+ * same URL share a single prefetch and its prefetched state, and through its prefetch queue,
+ * which limits concurrent prefetches and holds them back on data-saving or slow connections.
+ * The 'viewport', 'idle' and 'render' strategies run by themselves; 'hover' and 'focus'
+ * run when the matching handler calls `handlePrefetch`.
+ * The status follows the prefetch until its Promise settles; an in-flight prefetch is aborted
+ * once every link to its URL has unmounted or changed its URL
  * 
  * @param {string} to - The URL to prefetch
  * @param {object} options - Options for prefetching
- * @param {boolean | PrefetchOptions} options.prefetch - Prefetch configuration
+ * @param {boolean | PrefetchOptions} options.prefetch - Prefetch configuration, merged over the NavLinkProvider's prefetchDefaults
  * @param {boolean} options.isExternal - Whether the URL is external
  * @param {boolean} options.redirection - Whether redirection is enabled
  * @param {boolean} options.disabled - Whether the link is disabled
  * @param {any} options.routerContext - Router context for accessing router instance
- * @returns {object} - Prefetch state and handlers
+ * @param {RefObject<Element>} options.elementRef - The link element, observed by the 'viewport' strategy
+ * @param {NavLinkMetadata} options.metadata - Link id, testId and trackingData included in prefetch events
+ * @param {(to: string) => void} options.onPrefetchStart - Called when a prefetch started by this link starts
+ * @param {(to: string) => void} options.onPrefetchSuccess - Called when a prefetch started by this link succeeds
+ * @param {(error: unknown, to: string) => void} options.onPrefetchError - Called when a prefetch started by this link fails
+ * @returns {object} - Prefetch status, error and handlers
  * 
  * @example
  * // Basic usage
@@ -23,8 +63,23 @@ import { normalizePrefetchOptions, executePrefetch } from '../utils/prefetch';
  * 
  * // When mouse enters the link
  * const handleMouseEnter = () => {
- *   handlePrefetch();
+ *   handlePrefetch('hover');
  * };
+ * 
+ * @example
+ * // Retry failed prefetches and show their status
+ * const { status, error } = usePrefetch('/reports', {
+ *   prefetch: { routerType: 'custom', customPrefetch: (to, { signal }) => fetch(`/api${to}`, { signal }), retry: 2 },
+ *   onPrefetchError: (error) => reportError(error)
+ * });
+ * 
+ * @example
+ * // Prefetch when the link scrolls into view
+ * const ref = useRef<HTMLAnchorElement>(null);
+ * usePrefetch('/pricing', {
+ *   prefetch: { strategy: 'viewport', rootMargin: '200px' },
+ *   elementRef: ref
+ * });
  */
 export function usePrefetch(
     to: string,
@@ -34,80 +89,238 @@ export function usePrefetch(
         redirection?: boolean;
         disabled?: boolean;
         routerContext?: any;
-    } = {}
+        elementRef?: RefObject<Element>;
+        metadata?: NavLinkMetadata;
+    } & PrefetchCallbacks = {}
 ) {
     const {
-        prefetch = false,
+        prefetchDefaults,
+        prefetchCache = sharedPrefetchCache,
+        prefetchQueue = sharedPrefetchQueue,
+        prefetchCallbacks,
+        eventBus = sharedNavEvents
+    } = useNavLinkContext();
+
+    const {
+        prefetch,
         isExternal = false,
         redirection = true,
         disabled = false,
-        routerContext
+        routerContext,
+        elementRef,
+        metadata,
+        onPrefetchStart,
+        onPrefetchSuccess,
+        onPrefetchError
     } = options;
 
-    // Track if the resource has already been prefetched
-    const [isPrefetched, setIsPrefetched] = useState(false);
+    // Track the prefetch of the resource, by this or any other link
+    const [state, setState] = useState<{ status: PrefetchStatus; error?: unknown }>(() => ({
+        status: statusFromCache(prefetchCache.get(to))
+    }));
+
+    useEffect(() => {
+        const status = statusFromCache(prefetchCache.get(to));
+        setState((previous) => (previous.status === status ? previous : { status }));
+
+        // Every change of the cache notifies, so only re-render when the status of this URL changed.
+        // Failed prefetches leave the cache, so keep showing the error until the next attempt
+        return prefetchCache.subscribe(() => {
+            const nextStatus = statusFromCache(prefetchCache.get(to));
+            setState((previous) => (
+                previous.status === nextStatus || (nextStatus === 'idle' && previous.status === 'error')
+                    ? previous
+                    : { status: nextStatus }
+            ));
+        });
+    }, [prefetchCache, to]);
+
+    // Latest lifecycle callbacks, the link's before the provider's
+    const callbacksRef = useRef<PrefetchCallbacks[]>([]);
+    callbacksRef.current = [{ onPrefetchStart, onPrefetchSuccess, onPrefetchError }, prefetchCallbacks || {}];
+
+    // Latest event fields, read when a prefetch event is emitted
+    const eventFieldsRef = useRef<Omit<NavEvent, 'type' | 'to' | 'timestamp'>>({});
+    eventFieldsRef.current = { ...metadata, from: routerContext?.location };
+
+    // Keep the prefetch of the URL running while this link points to it;
+    // the cache aborts it when no link to the URL is left
+    useEffect(() => prefetchCache.retain(to), [prefetchCache, to]);
 
     // Ref for prefetch timeout
     const prefetchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+    // Removes the hover or focus prefetch from the queue if it has not started
+    const cancelQueuedRef = useRef<(() => void) | null>(null);
+
     // Normalize prefetch options
-    const prefetchOptions = normalizePrefetchOptions(prefetch);
+    const prefetchOptions = normalizePrefetchOptions(prefetch, prefetchDefaults);
+    const strategies = resolvePrefetchStrategies(prefetchOptions.strategy);
+    const canPrefetch = Boolean(prefetchOptions.enabled) && !isExternal && redirection && !disabled;
 
-    // Clean up timeout when unmounting
+    // Clean up timeout and queued prefetch when unmounting
     useEffect(() => {
         return () => {
             if (prefetchTimeoutRef.current) {
                 clearTimeout(prefetchTimeoutRef.current);
             }
+            if (cancelQueuedRef.current) {
+                cancelQueuedRef.current();
+            }
         };
     }, []);
 
     /**
-     * Handle prefetching of the link's target
+     * Prefetch the link's target now
+     */
+    const { routerType = 'react-router', customPrefetch, retry, retryDelay } = prefetchOptions;
+    const runPrefetch = useCallback((trigger: PrefetchStrategy) => {
+        const emit = (event: { type: 'prefetch:start' | 'prefetch:success' } | { type: 'prefetch:error'; error: unknown }) => (
+            eventBus.emit({ ...eventFieldsRef.current, ...event, to, trigger, timestamp: Date.now() })
+        );
+
+        // The cache skips URLs with a fresh or in-flight prefetch and updates the status
+        return prefetchCache.prefetch(
+            to,
+            (signal) => {
+                callbacksRef.current.forEach((callbacks) => callbacks.onPrefetchStart?.(to));
+                emit({ type: 'prefetch:start' });
+
+                return retryPrefetch(
+                    () => executePrefetch(to, routerType, isExternal, routerContext, customPrefetch, signal),
+                    { retry, retryDelay, signal }
+                ).then((success) => {
+                    if (success) {
+                        callbacksRef.current.forEach((callbacks) => callbacks.onPrefetchSuccess?.(to));
+                        emit({ type: 'prefetch:success' });
+                    }
+                    return success;
+                }, (error) => {
+                    // An aborted prefetch is not a failure; it can simply run again
+                    if (signal?.aborted) return false;
+
+                    if (process.env.NODE_ENV !== 'production') {
+                        console.error(`Error prefetching ${to}:`, error);
+                    }
+                    callbacksRef.current.forEach((callbacks) => callbacks.onPrefetchError?.(error, to));
+                    emit({ type: 'prefetch:error', error });
+                    throw error;
+                });
+            },
+            () => removePrefetchLinks(to)
+        ).catch((error) => {
+            // Every link sharing the failed prefetch shows the error
+            setState({ status: 'error', error });
+            return false;
+        });
+    }, [routerType, customPrefetch, retry, retryDelay, to, isExternal, routerContext, prefetchCache, eventBus]);
+
+    // Keep the latest runPrefetch for the strategies that run from effects,
+    // so they don't restart on every render
+    const runPrefetchRef = useRef(runPrefetch);
+    runPrefetchRef.current = runPrefetch;
+
+    const prefetchOnRender = canPrefetch && strategies.indexOf('render') !== -1;
+    const prefetchOnIdle = canPrefetch && strategies.indexOf('idle') !== -1;
+    const prefetchInViewport = canPrefetch && strategies.indexOf('viewport') !== -1;
+    const { threshold = 0, rootMargin = '0px', idleTimeout = 2000 } = prefetchOptions;
+
+    // 'render': prefetch as soon as the link mounts
+    useEffect(() => {
+        if (!prefetchOnRender) return;
+        return prefetchQueue.schedule(() => runPrefetchRef.current('render'), 'render');
+    }, [prefetchOnRender, prefetchQueue, to]);
+
+    // 'idle': prefetch once the browser is idle
+    useEffect(() => {
+        if (!prefetchOnIdle) return;
+
+        let cancelQueued: (() => void) | undefined;
+        const queue = () => {
+            cancelQueued = prefetchQueue.schedule(() => runPrefetchRef.current('idle'), 'idle');
+        };
+
+        if (typeof window.requestIdleCallback === 'function') {
+            const handle = window.requestIdleCallback(queue, { timeout: idleTimeout });
+            return () => {
+                window.cancelIdleCallback(handle);
+                if (cancelQueued) cancelQueued();
+            };
+        }
+
+        // Safari has no requestIdleCallback
+        const timeout = setTimeout(queue, 1);
+        return () => {
+            clearTimeout(timeout);
+            if (cancelQueued) cancelQueued();
+        };
+    }, [prefetchOnIdle, idleTimeout, prefetchQueue, to]);
+
+    // 'viewport': prefetch once the link becomes visible
+    useEffect(() => {
+        const element = elementRef?.current;
+        if (!prefetchInViewport || !element) return;
+
+        if (typeof IntersectionObserver === 'undefined') {
+            return prefetchQueue.schedule(() => runPrefetchRef.current('viewport'), 'viewport');
+        }
+
+        let cancelQueued: (() => void) | undefined;
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some((entry) => entry.isIntersecting)) {
+                observer.disconnect();
+                cancelQueued = prefetchQueue.schedule(() => runPrefetchRef.current('viewport'), 'viewport');
+            }
+        }, { threshold, rootMargin });
+
+        observer.observe(element);
+        return () => {
+            observer.disconnect();
+            if (cancelQueued) cancelQueued();
+        };
+    }, [prefetchInViewport, threshold, rootMargin, elementRef, prefetchQueue, to]);
+
+    /**
+     * Handle prefetching of the link's target after the configured delay.
+     * With a trigger, only prefetches if that strategy is enabled
+     * @param {'hover' | 'focus'} [trigger] - The interaction that triggered the prefetch
      */
-    const handlePrefetch = useCallback(() => {
-        if (!prefetchOptions.enabled || isExternal || !redirection || disabled || isPrefetched) return;
+    const handlePrefetch = useCallback((trigger?: 'hover' | 'focus') => {
+        if (!canPrefetch) return;
+        if (trigger && strategies.indexOf(trigger) === -1) return;
 
         // Clear any existing prefetch timeout
         if (prefetchTimeoutRef.current) {
             clearTimeout(prefetchTimeoutRef.current);
         }
 
-        // Set a new prefetch timeout
+        // Set a new prefetch timeout, then wait for a free slot in the queue
         prefetchTimeoutRef.current = setTimeout(() => {
-            const success = executePrefetch(
-                to,
-                prefetchOptions.routerType || 'react-router',
-                isExternal,
-                routerContext,
-                prefetchOptions.customPrefetch
-            );
-
-            if (success) {
-                setIsPrefetched(true);
+            if (cancelQueuedRef.current) {
+                cancelQueuedRef.current();
             }
+            const strategy = trigger || 'hover';
+            cancelQueuedRef.current = prefetchQueue.schedule(() => runPrefetch(strategy), strategy);
         }, prefetchOptions.delay || 200);
-    }, [
-        prefetchOptions,
-        to,
-        isExternal,
-        redirection,
-        disabled,
-        isPrefetched,
-        routerContext
-    ]);
+    }, [canPrefetch, strategies, runPrefetch, prefetchQueue, prefetchOptions.delay]);
 
     /**
-     * Cancel prefetching (e.g., on mouse leave)
+     * Cancel prefetching (e.g., on mouse leave), including a prefetch waiting in the queue
      */
     const cancelPrefetch = useCallback(() => {
         if (prefetchTimeoutRef.current) {
             clearTimeout(prefetchTimeoutRef.current);
         }
+        if (cancelQueuedRef.current) {
+            cancelQueuedRef.current();
+            cancelQueuedRef.current = null;
+        }
     }, []);
 
     return {
-        isPrefetched,
+        status: state.status,
+        error: state.error,
+        isPrefetched: state.status === 'success',
         handlePrefetch,
         cancelPrefetch
     };
@@ -4,25 +4,204 @@
  */
 
 export { NavPlus, RouterNavLink } from './NavPlus';
-export { NavLinkProvider, useNavLinkContext } from './context/NavContext';
+export { NavGroup } from './NavGroup';
+export { NavMenu } from './NavMenu';
+export { Breadcrumbs } from './Breadcrumbs';
+export { NavRovingGroup } from './NavRovingGroup';
+export { NavIndicator } from './NavIndicator';
+export { defineRoutes } from './defineRoutes';
+export { NavLinkProvider, useNavLinkContext, useNavLocation, usePrefetchCache } from './context/NavContext';
+export { useNavGroup, useReportToNavGroup } from './context/NavGroupContext';
+export { useNavRovingGroup, useNavRovingItem } from './context/NavRovingGroupContext';
 
-export { useIsActive } from './hooks/useIsActive';
+export { createReactRouterAdapter } from './adapters/reactRouter';
+export { createTanStackRouterAdapter } from './adapters/tanstackRouter';
+export { createWouterAdapter } from './adapters/wouter';
+export { historyAdapter, createHistoryAdapter, createHistorySource } from './adapters/history';
+
+export { useIsActive, useActiveMatch } from './hooks/useIsActive';
 export { usePrefetch } from './hooks/usePrefetch';
+export { useNavigationBlocker } from './hooks/useNavigationBlocker';
+export { useNavEvents } from './hooks/useNavEvents';
+export { useNavTree } from './hooks/useNavTree';
+export { useBreadcrumbs } from './hooks/useBreadcrumbs';
+export { useNavIndicator } from './hooks/useNavIndicator';
 
-export { matchers, cleanUrl, isActive, isActiveWithCustomFn } from './utils/matchers';
+export {
+    matchers,
+    cleanUrl,
+    defaultMatchOptions,
+    createMatchers,
+    isActive,
+    isActiveWithCustomFn,
+    compileRoutePattern,
+    matchRoute,
+    interpolateRoute,
+    parsePath,
+    buildHref,
+    matchLocation,
+    matchSearch,
+    matchHash
+} from './utils/matchers';
+export {
+    prefetchCache,
+    createPrefetchCache,
+    defaultPrefetchCacheOptions,
+    getPrefetchKey
+} from './utils/prefetchCache';
+export {
+    prefetchQueue,
+    createPrefetchQueue,
+    defaultPrefetchQueueOptions,
+    prefetchPriorities
+} from './utils/prefetchQueue';
+export { navigationGuards, createNavigationGuardRegistry, runNavigationGuards } from './utils/navigationGuards';
+export { navEvents, createNavEventBus } from './utils/navEvents';
+export { shouldHandleLinkClick, isModifiedClick } from './utils/linkClick';
+export {
+    defaultOutboundLinkPolicy,
+    isExternalUrl,
+    isSpecialSchemeUrl,
+    isOutboundLinkAllowed,
+    matchesHost,
+    stripCurrentOrigin
+} from './utils/external';
+export { resolveBreadcrumbs, getBreadcrumbPaths, formatBreadcrumbSegment } from './utils/breadcrumbs';
+export { filterNavTree, resolveNavTree, isNavTreeNodeVisible } from './utils/navTree';
+export { buildRouteHref, getRoutePattern, stringifyRouteParams } from './utils/routes';
+export { getRovingTargetIndex, getTypeaheadIndex } from './utils/rovingFocus';
+export { resolveAriaCurrent, defaultAriaCurrent } from './utils/ariaCurrent';
+export { defaultPostNavigationOptions } from './utils/postNavigation';
+export {
+    resolveViewTransition,
+    startNavigationTransition,
+    supportsViewTransitions,
+    getViewTransitionTypes
+} from './utils/viewTransition';
+export { getIndicatorRect, getIndicatorStyle, getIndicatorVariables } from './utils/navIndicator';
+export { prefetchRouteData, withPrefetchCache, clearPrefetchCache } from './utils/routeData';
 export {
     defaultPrefetchOptions,
     normalizePrefetchOptions,
-    executePrefetch
+    defaultPrefetchStrategies,
+    resolvePrefetchStrategies,
+    executePrefetch,
+    retryPrefetch,
+    defaultRetryDelay,
+    removePrefetchLinks
 } from './utils/prefetch';
 
 export type {
     MatchMode,
+    BuiltInMatchMode,
+    MatchModeRegistry,
+    RouteParams,
+    ActiveMatch,
+    LocationMatchOptions,
+    NavLocation,
+    SearchMatchMode,
+    SearchParamValue,
+    SearchParamsInit,
+    PreserveSearch,
+    HrefOptions,
+    PathNormalizeOptions,
+    MatchOptions,
+    Matcher,
     NavLinkChildren,
     RouterType,
+    PrefetchStrategy,
+    PrefetchFunction,
+    PrefetchFunctionOptions,
+    PrefetchStatus,
+    PrefetchCallbacks,
     PrefetchOptions,
+    PrefetchCacheOptions,
+    PrefetchCacheStatus,
+    PrefetchCacheEntry,
+    PrefetchCache,
+    PrefetchQueueOptions,
+    PrefetchQueue,
     TanStackRouterGlobal,
+    NavigateOptions,
+    NavigateFunction,
+    NavigationAttempt,
+    NavigationGuardResult,
+    NavigationGuard,
+    NavigationGuardRegistry,
+    NavEventType,
+    NavEventTrigger,
+    NavEventBase,
+    NavEvent,
+    NavEventBus,
+    NavLinkMetadata,
+    OutboundLinkPolicy,
+    RouteParamValue,
+    RouteParamsOf,
+    RouteSearchParams,
+    RouteDefinition,
+    RouteDefinitions,
+    RoutePatternOf,
+    RouteSearchOf,
+    RouteLocation,
+    RouteHrefArgs,
+    RouteLinkProps,
+    RouteRegistry,
+    RouterLinkProps,
+    RouterAdapter,
     RouterContext,
     NavLinkContextValue,
-    NavPlusProps
-} from './types';
\ No newline at end of file
+    NavPlusProps,
+    NavGroupState,
+    NavGroupContextValue,
+    NavGroupProps,
+    NavTreeNode,
+    NavTreeItem,
+    NavTreeFilterOptions,
+    NavTreeOptions,
+    NavMenuProps,
+    BreadcrumbSegment,
+    BreadcrumbLabelResult,
+    BreadcrumbLabel,
+    BreadcrumbRoute,
+    BreadcrumbStatus,
+    BreadcrumbItem,
+    BreadcrumbsOptions,
+    BreadcrumbsProps,
+    RovingOrientation,
+    NavRovingPreset,
+    NavRovingItemState,
+    NavRovingGroupContextValue,
+    NavRovingGroupProps,
+    AriaCurrentValue,
+    AriaCurrentOptions,
+    NavigationAnnouncerOptions,
+    NavigationScrollBehavior,
+    PostNavigationOptions,
+    AfterNavigateOptions,
+    ViewTransitionDirection,
+    ViewTransitionOptions,
+    NavIndicatorRect,
+    NavIndicatorState,
+    NavIndicatorMode,
+    NavIndicatorOptions,
+    NavIndicatorProps
+} from './types';
+export type { RouteTarget } from './utils/routes';
+export type { PendingBreadcrumbItem, ResolveBreadcrumbsOptions } from './utils/breadcrumbs';
+export type { RovingMoveOptions } from './utils/rovingFocus';
+export type { NavIndicatorAnimation } from './utils/navIndicator';
+export type { LinkClickEvent } from './utils/linkClick';
+export type { NavigationBlockerOptions } from './hooks/useNavigationBlocker';
+export type { ReactRouterModule, ReactRouterAdapterOptions } from './adapters/reactRouter';
+export type {
+    LoaderArgsLike,
+    LoaderLike,
+    DataRouteLike,
+    DataRouteMatchLike,
+    DataRouterLike,
+    MatchRoutesLike,
+    RouteDataPrefetchOptions
+} from './utils/routeData';
+export type { TanStackRouterModule, TanStackRouterLike, TanStackLocationLike } from './adapters/tanstackRouter';
+export type { WouterModule } from './adapters/wouter';
+export type { HistorySource, HistorySourceOptions } from './adapters/history';
\ No newline at end of file
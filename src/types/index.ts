@@ -1,254 +1,2118 @@
 import React from 'react';
-import { LinkProps } from 'react-router-dom';
 
 /**
- * Defines how the active state of the link is determined based on URL matching
- * @typedef {'exact' | 'startsWith' | 'includes' | 'pattern'} MatchMode
+ * Built-in ways of determining the active state of the link based on URL matching
+ * @typedef {'exact' | 'startsWith' | 'includes' | 'pattern' | 'route'} BuiltInMatchMode
  * @property {string} exact - The pathname must exactly match the link's 'to' prop
  * @property {string} startsWith - The pathname must start with the link's 'to' prop
  * @property {string} includes - The pathname must include the link's 'to' prop
  * @property {string} pattern - Uses a custom regex pattern provided in matchPattern prop
+ * @property {string} route - Treats the link's 'to' prop as a route pattern such as '/users/:id/*'
  */
-export type MatchMode = 'exact' | 'startsWith' | 'includes' | 'pattern';
+export type BuiltInMatchMode = 'exact' | 'startsWith' | 'includes' | 'pattern' | 'route';
 
 /**
- * Function or React node as children
- * @typedef {React.ReactNode | ((isActive: boolean) => React.ReactNode)} NavLinkChildren
+ * Registry of custom match modes. Augment it with the names of the matchers passed to
+ * NavLinkProvider's activeMatchers to use them as type-safe matchMode values
+ *
+ * @example
+ * declare module 'react-navplus' {
+ *   interface MatchModeRegistry {
+ *     locale: true;
+ *   }
+ * }
+ *
+ * <NavLinkProvider activeMatchers={new Map([['locale', localeMatcher]])}>
+ *   <NavPlus to="/pricing" matchMode="locale">Pricing</NavPlus>
+ * </NavLinkProvider>
  */
-export type NavLinkChildren = React.ReactNode | ((isActive: boolean) => React.ReactNode);
+// Declaration merging needs an interface, and the registry is empty until apps augment it;
+// an empty type alias could not be augmented
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface MatchModeRegistry {}
 
 /**
- * Supported router libraries for prefetching
- * @typedef {'react-router' | 'tanstack-router' | 'wouter' | 'custom'} RouterType
+ * Defines how the active state of the link is determined: one of the built-in
+ * modes or a custom mode declared in MatchModeRegistry
+ * @typedef {BuiltInMatchMode | keyof MatchModeRegistry} MatchMode
  */
-export type RouterType = 'react-router' | 'tanstack-router' | 'wouter' | 'custom';
+export type MatchMode = BuiltInMatchMode | Extract<keyof MatchModeRegistry, string>;
 
 /**
- * Prefetch options for controlling prefetching behavior
- * @interface PrefetchOptions
+ * Params extracted from the pathname when matching in 'route' mode.
+ * A trailing '*' wildcard is exposed under the '*' key.
+ * @typedef {Record<string, string>} RouteParams
  */
-export interface PrefetchOptions {
+export type RouteParams = Record<string, string>;
+
+/**
+ * A value of a search param
+ * @typedef {string | number | boolean} SearchParamValue
+ */
+export type SearchParamValue = string | number | boolean;
+
+/**
+ * Search params of a link: a query string, URLSearchParams or an object. In an object,
+ * arrays repeat the key, and null and undefined values leave it out
+ * @typedef {string | URLSearchParams | Record<string, SearchParamValue | SearchParamValue[] | null | undefined>} SearchParamsInit
+ */
+export type SearchParamsInit =
+    | string
+    | URLSearchParams
+    | Record<string, SearchParamValue | SearchParamValue[] | null | undefined>;
+
+/**
+ * Which search params of the current location a link keeps:
+ * - `false`: none
+ * - `true`: all of them, merged with the link's own
+ * - `string[]`: only the listed keys, merged with the link's own
+ * @typedef {boolean | string[]} PreserveSearch
+ */
+export type PreserveSearch = boolean | string[];
+
+/**
+ * Options for building the URL of a link
+ * @interface HrefOptions
+ */
+export interface HrefOptions {
     /**
-     * Whether to enable prefetching
-     * @default false
+     * Values of the params of a route pattern such as '/users/:id', URI-encoded into the path
      */
-    enabled?: boolean;
+    params?: Record<string, string | number | undefined>;
 
     /**
-     * Delay before prefetching on hover (ms)
-     * @default 200
+     * Search params, replacing those with the same keys in the URL and the preserved ones
      */
-    delay?: number;
+    search?: SearchParamsInit;
 
     /**
-     * Which router library to use for prefetching
-     * @default 'react-router'
+     * The fragment, with or without the leading '#', replacing the URL's. An empty string removes it
      */
-    routerType?: RouterType;
+    hash?: string;
+
+    /**
+     * Which search params of the current location to keep
+     * @default false
+     */
+    preserveSearch?: PreserveSearch;
 
     /**
-     * Custom prefetch function to use when routerType is 'custom'
-     * @param {string} to - The URL to prefetch
-     * @returns {void}
+     * The query string of the current location, used by preserveSearch
      */
-    customPrefetch?: (to: string) => void;
+    currentSearch?: string;
 }
 
 /**
- * Interface for TanStack Router global type
+ * The parts of a location used to determine the active state.
+ * Compatible with React Router's location and `window.location`
+ * @interface NavLocation
  */
-export interface TanStackRouterGlobal {
-    router?: {
-        prefetch?: (url: string) => void;
-    };
+export interface NavLocation {
+    /**
+     * The path, e.g. '/reports'
+     */
+    pathname: string;
+
+    /**
+     * The query string, with or without the leading '?', e.g. '?tab=weekly'
+     */
+    search?: string;
+
+    /**
+     * The fragment, with or without the leading '#', e.g. '#install'
+     */
+    hash?: string;
 }
 
 /**
- * Extend Window interface to include TanStackRouter
+ * How the query string of the link is compared to the current location
+ * @typedef {'ignore' | 'subset' | 'exact' | string[]} SearchMatchMode
+ * @property {string} ignore - The query string is not compared
+ * @property {string} subset - Every param of the link must be present in the location, which may have others
+ * @property {string} exact - The location must have exactly the link's params
+ * @property {string[]} keys - Only the listed params of the link must be present in the location
  */
-declare global {
-    interface Window {
-        TanStackRouter?: TanStackRouterGlobal;
-    }
-}
+export type SearchMatchMode = 'ignore' | 'subset' | 'exact' | string[];
 
 /**
- * Router context interface
+ * Options for normalizing paths before they are compared
+ * @interface PathNormalizeOptions
  */
-export interface RouterContext {
-    navigate?: (to: string, options?: { replace?: boolean }) => void;
-    location?: {
-        pathname: string;
-    };
+export interface PathNormalizeOptions {
+    /**
+     * How trailing slashes are handled. 'ignore' strips them so '/about/' equals '/about',
+     * 'strict' keeps them as significant
+     * @default 'ignore'
+     */
+    trailingSlash?: 'ignore' | 'strict';
+
+    /**
+     * Whether percent-encoded characters are decoded, so '/caf%C3%A9' equals '/café'
+     * @default true
+     */
+    decode?: boolean;
+
+    /**
+     * Router basename stripped from the start of the path, e.g. '/app'
+     */
+    basename?: string;
 }
 
 /**
- * NavLink context value interface
+ * Options controlling how paths are compared when determining the active state
+ * @interface MatchOptions
  */
-export interface NavLinkContextValue {
-    activeMatchers?: Map<MatchMode, (pathname: string, url: string, pattern?: RegExp) => boolean>;
-    prefetchDefaults?: PrefetchOptions;
-    routerContext?: RouterContext;
+export interface MatchOptions extends PathNormalizeOptions {
+    /**
+     * Whether the comparison is case-sensitive
+     * @default true
+     */
+    caseSensitive?: boolean;
+
+    /**
+     * Whether 'startsWith' and 'includes' only match whole path segments,
+     * so '/app' does not match '/application'
+     * @default true
+     */
+    segmentBoundaries?: boolean;
+
+    /**
+     * How the link's query string is compared to the location's.
+     * With the default, a link without a query string ignores the location's
+     * @default 'subset'
+     */
+    search?: SearchMatchMode;
+
+    /**
+     * Whether the location's hash must equal the link's hash
+     * @default 'ignore'
+     */
+    hash?: 'ignore' | 'exact';
 }
 
 /**
- * Props for the NavPlus component
- * @interface NavPlusProps
+ * A function that determines if a link is active
+ * @param {string} pathname - The normalized current pathname
+ * @param {string} url - The normalized URL to match against
+ * @param {RegExp} [pattern] - Optional regex pattern, used by the 'pattern' mode
+ * @param {MatchOptions} [options] - Options controlling the comparison
+ * @returns {boolean} - Whether the link is active
  */
-export interface NavPlusProps extends Omit<Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href' | 'onClick' | 'className'>, 'children'> {
+export type Matcher = (pathname: string, url: string, pattern?: RegExp, options?: MatchOptions) => boolean;
+
+/**
+ * Result of matching a link against the current location
+ * @interface ActiveMatch
+ */
+export interface ActiveMatch {
     /**
-     * The target URL for the link
+     * Whether the link is active
      */
-    to: string;
+    isActive: boolean;
 
     /**
-     * Content to render inside the link
-     * Can be a React node or a function that returns a React node based on active state
+     * Whether the location is the link's own page rather than a page below it. Route, pattern
+     * and custom function matches count as exact
      */
-    children: NavLinkChildren;
+    isExact: boolean;
 
     /**
-     * Current location object - used to determine if link is active
-     * Can be passed from React Router's useLocation or manually
+     * Params extracted from the pathname, empty unless matchMode is 'route'
      */
-    location?: Pick<Location, 'pathname'>;
+    params: RouteParams;
+}
+
+/**
+ * Value of the aria-current attribute of an active link: 'page' for the current page, 'step' in
+ * a step wizard, 'location' for in-page sections, 'date' or 'time' in a calendar, or true
+ * @typedef {'page' | 'step' | 'location' | 'date' | 'time' | 'true' | true} AriaCurrentValue
+ */
+export type AriaCurrentValue = 'page' | 'step' | 'location' | 'date' | 'time' | 'true' | true;
 
+/**
+ * aria-current values of a link that matches the location exactly, and of a link that is
+ * active because the location is below it, e.g. a section link; false leaves the attribute out
+ * @interface AriaCurrentOptions
+ */
+export interface AriaCurrentOptions {
     /**
-     * Navigation function - used for programmatic navigation
-     * Can be passed from React Router's useNavigate or manually
+     * Value when the link is the current page
+     * @default 'page'
      */
-    navigate?: (to: string, options?: { replace?: boolean }) => void;
+    exact?: AriaCurrentValue | false;
 
     /**
-     * If true, clicking the link will navigate to the target URL
-     * If false, the link will be rendered as a span with no navigation
+     * Value when the link is an ancestor of the current page
      * @default true
      */
-    redirection?: boolean;
+    partial?: AriaCurrentValue | false;
+}
 
+/**
+ * Options for matching a link against a location
+ * @interface LocationMatchOptions
+ */
+export interface LocationMatchOptions {
     /**
-     * ID attribute for the link element
+     * How to match the pathname
+     * @default 'includes'
      */
-    id?: string;
+    matchMode?: MatchMode;
 
     /**
-     * Class name to apply when the link is not active
-     * @default ''
+     * Custom regex pattern, used by the 'pattern' mode
      */
-    inActiveClassName?: string;
+    matchPattern?: RegExp;
 
     /**
-     * Base class name to apply to the link regardless of active state
-     * @default ''
+     * Options controlling the comparison
      */
-    className?: string;
+    matchOptions?: MatchOptions;
 
     /**
-     * Class name to apply when the link is active
-     * @default 'active'
+     * Matchers to look the match mode up in
      */
-    activeClassName?: string;
+    activeMatchers?: Map<MatchMode, Matcher>;
 
     /**
-     * Function to call when the link is clicked
+     * URL to match instead of the link's
      */
-    onClick?: (e: React.MouseEvent<HTMLElement>) => void;
+    customActiveUrl?: string;
 
     /**
-     * How to match the current URL to determine if the link is active
-     * @default 'includes'
+     * Params the location must match when matchMode is 'route'
      */
-    matchMode?: MatchMode;
+    routeParams?: RouteParams;
 
     /**
-     * Custom regex pattern to use for matching when matchMode is 'pattern'
+     * Custom active detection function, overriding the default detection
      */
-    matchPattern?: RegExp;
+    isActiveFunc?: (pathname: string, url: string, params: RouteParams) => boolean;
+}
+
+/**
+ * Function or React node as children
+ * @typedef {React.ReactNode | ((isActive: boolean, params: RouteParams) => React.ReactNode)} NavLinkChildren
+ */
+export type NavLinkChildren = React.ReactNode | ((isActive: boolean, params: RouteParams) => React.ReactNode);
+
+/**
+ * Supported router libraries for prefetching
+ * @typedef {'react-router' | 'tanstack-router' | 'wouter' | 'custom'} RouterType
+ */
+export type RouterType = 'react-router' | 'tanstack-router' | 'wouter' | 'custom';
+
+/**
+ * When a link prefetches its target:
+ * - `hover`: when the pointer enters the link, after `delay`
+ * - `focus`: when the link receives focus, after `delay`
+ * - `viewport`: when the link scrolls into view
+ * - `idle`: when the browser is idle after the link renders
+ * - `render`: as soon as the link renders
+ * @typedef {'hover' | 'focus' | 'viewport' | 'idle' | 'render'} PrefetchStrategy
+ */
+export type PrefetchStrategy = 'hover' | 'focus' | 'viewport' | 'idle' | 'render';
 
+/**
+ * Options passed to a prefetch function
+ * @interface PrefetchFunctionOptions
+ */
+export interface PrefetchFunctionOptions {
     /**
-     * If true, clicking the link will replace the current history entry instead of adding a new one
-     * @default false
+     * Aborted when the prefetch is no longer wanted, e.g. when every link to the URL unmounts
      */
-    replace?: boolean;
+    signal?: AbortSignal;
+}
+
+/**
+ * Function that prefetches a URL. Returning a Promise makes the prefetch
+ * pending until it settles; a rejection marks the prefetch as failed
+ * @param {string} to - The URL to prefetch
+ * @param {PrefetchFunctionOptions} [options] - The abort signal of the prefetch
+ */
+export type PrefetchFunction = (to: string, options?: PrefetchFunctionOptions) => void | Promise<unknown>;
+
+/**
+ * Status of a link's prefetch
+ * @typedef {'idle' | 'pending' | 'success' | 'error'} PrefetchStatus
+ */
+export type PrefetchStatus = 'idle' | 'pending' | 'success' | 'error';
 
+/**
+ * Callbacks for the prefetch lifecycle. They run once per prefetch, for the link that started it
+ * @interface PrefetchCallbacks
+ */
+export interface PrefetchCallbacks {
     /**
-     * If true, the link will be rendered as an external link with target="_blank" and rel="noopener noreferrer"
-     * @default false
+     * Called when a prefetch starts
      */
-    isExternal?: boolean;
+    onPrefetchStart?: (to: string) => void;
 
     /**
-     * ARIA attributes for accessibility
-     * @default {}
+     * Called when a prefetch succeeds
      */
-    aria?: React.AriaAttributes;
+    onPrefetchSuccess?: (to: string) => void;
 
     /**
-     * Data-testid attribute for testing
+     * Called when a prefetch fails after its last retry
      */
-    testId?: string;
+    onPrefetchError?: (error: unknown, to: string) => void;
+}
 
+/**
+ * Prefetch options for controlling prefetching behavior
+ * @interface PrefetchOptions
+ */
+export interface PrefetchOptions {
     /**
-     * If true, the link will be disabled and clicking it will have no effect
+     * Whether to enable prefetching
      * @default false
      */
-    disabled?: boolean;
+    enabled?: boolean;
 
     /**
-     * Styles to apply when the link is active
+     * Delay before prefetching on hover or focus (ms)
+     * @default 200
      */
-    activeStyle?: React.CSSProperties;
+    delay?: number;
 
     /**
-     * Styles to apply when the link is not active
+     * When to prefetch; strategies can be combined
+     * @default ['hover', 'focus']
      */
-    inactiveStyle?: React.CSSProperties;
+    strategy?: PrefetchStrategy | PrefetchStrategy[];
 
     /**
-     * Custom URL to use for active state detection instead of the 'to' prop
+     * Share of the link that must be visible to prefetch with the 'viewport' strategy, from 0 to 1
+     * @default 0
      */
-    customActiveUrl?: string;
+    threshold?: number;
 
     /**
-     * Additional props to pass to the Link component when using React Router
+     * Margin around the viewport for the 'viewport' strategy, in CSS margin syntax
+     * @default '0px'
      */
-    linkProps?: Omit<LinkProps, 'to' | 'replace'>;
+    rootMargin?: string;
 
     /**
-     * Function to determine if the link is active
-     * If provided, this will override the default active state detection
+     * Longest wait for the browser to become idle with the 'idle' strategy (ms)
+     * @default 2000
      */
-    isActiveFunc?: (pathname: string, to: string) => boolean;
+    idleTimeout?: number;
 
     /**
-     * Delay in milliseconds before navigating to the target URL
-     * Useful for allowing animations to complete before navigation
+     * Which router library to use for prefetching
+     * @default 'react-router'
      */
-    navigationDelay?: number;
+    routerType?: RouterType;
 
     /**
-     * Event to trigger navigation - 'click' or 'hover'
-     * @default 'click'
+     * Custom prefetch function to use when routerType is 'custom'.
+     * It may return a Promise and receives the prefetch's AbortSignal
      */
-    triggerEvent?: 'click' | 'hover';
+    customPrefetch?: PrefetchFunction;
 
     /**
-     * Prefetch configuration for the link
-     * Can be a boolean or an object with detailed options
-     * If true, will use default prefetch settings
-     * @default false
+     * Number of times a failed prefetch is retried
+     * @default 0
      */
-    prefetch?: boolean | PrefetchOptions;
+    retry?: number;
 
     /**
-     * Custom element tag to use for rendering the link
-     * @default undefined - will use Link or 'a' or 'span' based on other props
+     * Delay before a retry (ms), or a function of the number of failed attempts so far
+     * @default failures => Math.min(1000 * 2 ** (failures - 1), 30000)
      */
-    as?: React.ElementType;
+    retryDelay?: number | ((failures: number) => number);
+}
+
+/**
+ * Options for a prefetch cache
+ * @interface PrefetchCacheOptions
+ */
+export interface PrefetchCacheOptions {
+    /**
+     * How long a completed prefetch is kept before it is evicted (ms)
+     * @default 300000
+     */
+    ttl?: number;
 
     /**
-     * Router context if available - can be passed from router context providers
-     * This allows the component to access router features without explicit props
+     * How long a completed prefetch is fresh (ms). Prefetching a stale URL runs the prefetch again
+     * @default 30000
      */
-    routerContext?: any;
-}
\ No newline at end of file
+    staleTime?: number;
+
+    /**
+     * Maximum number of entries; the least recently used entries are evicted first
+     * @default 100
+     */
+    maxEntries?: number;
+}
+
+/**
+ * Status of a prefetch cache entry
+ * @typedef {'pending' | 'success' | 'error'} PrefetchCacheStatus
+ */
+export type PrefetchCacheStatus = 'pending' | 'success' | 'error';
+
+/**
+ * A snapshot of a prefetch cache entry
+ * @interface PrefetchCacheEntry
+ */
+export interface PrefetchCacheEntry {
+    /**
+     * The normalized URL the entry is keyed by
+     */
+    key: string;
+
+    /**
+     * Whether the prefetch is in flight, completed or failed
+     */
+    status: PrefetchCacheStatus;
+
+    /**
+     * When the prefetch started (ms since epoch)
+     */
+    createdAt: number;
+
+    /**
+     * When the prefetch completed (ms since epoch), undefined while pending
+     */
+    completedAt?: number;
+
+    /**
+     * Whether the entry is older than the staleTime
+     */
+    isStale: boolean;
+}
+
+/**
+ * Shared registry of prefetches, deduplicating in-flight and completed prefetches by URL
+ * @interface PrefetchCache
+ */
+export interface PrefetchCache {
+    /**
+     * Runs a prefetch for a URL unless a fresh or in-flight prefetch for it exists
+     * @param {string} url - The URL being prefetched
+     * @param {(signal?: AbortSignal) => boolean | Promise<boolean>} task - Performs the prefetch, resolving to whether it succeeded.
+     * The signal aborts once every link retaining the URL has released it
+     * @param {() => void} [cleanup] - Called when the entry is evicted or invalidated
+     * @returns {Promise<boolean>} - Whether the prefetch succeeded
+     */
+    prefetch: (
+        url: string,
+        task: (signal?: AbortSignal) => boolean | Promise<boolean>,
+        cleanup?: () => void
+    ) => Promise<boolean>;
+
+    /**
+     * Returns a snapshot of the entry for a URL, undefined if there is none or it expired.
+     * Does not change the cache, so it is safe to call during render
+     */
+    get: (url: string) => PrefetchCacheEntry | undefined;
+
+    /**
+     * Returns snapshots of all entries, least recently used first
+     */
+    entries: () => PrefetchCacheEntry[];
+
+    /**
+     * Removes the entries for a URL, or the entries matching a predicate
+     */
+    invalidate: (urlOrPredicate: string | ((entry: PrefetchCacheEntry) => boolean)) => void;
+
+    /**
+     * Removes all entries
+     */
+    clear: () => void;
+
+    /**
+     * Marks a URL as needed, e.g. by a mounted link. Links to the same URL share its prefetch,
+     * which is aborted only when the last of them releases it while it is in flight
+     * @returns {() => void} - Function that releases the URL
+     */
+    retain: (url: string) => () => void;
+
+    /**
+     * Subscribes to changes of the cache
+     * @returns {() => void} - Function that removes the subscription
+     */
+    subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Options for a prefetch queue
+ * @interface PrefetchQueueOptions
+ */
+export interface PrefetchQueueOptions {
+    /**
+     * Maximum number of prefetches running at once
+     * @default 4
+     */
+    concurrency?: number;
+
+    /**
+     * Whether to skip prefetching when the user turned on data saving (navigator.connection.saveData)
+     * @default true
+     */
+    respectSaveData?: boolean;
+
+    /**
+     * Connection types (navigator.connection.effectiveType) on which only hover and focus prefetches run
+     * @default ['slow-2g', '2g']
+     */
+    slowConnectionTypes?: string[];
+
+    /**
+     * Maximum number of prefetches running at once on a slow connection
+     * @default 1
+     */
+    slowConnectionConcurrency?: number;
+}
+
+/**
+ * Global queue limiting how many prefetches run at once. Waiting prefetches start by priority:
+ * hover and focus first, then render, viewport and idle
+ * @interface PrefetchQueue
+ */
+export interface PrefetchQueue {
+    /**
+     * Queues a prefetch, unless the connection does not allow prefetches with this strategy
+     * @param {() => unknown} task - Performs the prefetch; its slot is freed when the returned promise settles
+     * @param {PrefetchStrategy} strategy - The strategy that triggered the prefetch, which sets its priority
+     * @returns {() => void} - Function that removes the prefetch from the queue if it has not started
+     */
+    schedule: (task: () => unknown, strategy: PrefetchStrategy) => () => void;
+
+    /**
+     * Whether a prefetch with this strategy may run on the current connection
+     */
+    isAllowed: (strategy: PrefetchStrategy) => boolean;
+
+    /**
+     * Number of running and waiting prefetches
+     */
+    getState: () => { running: number; queued: number };
+}
+
+/**
+ * Interface for TanStack Router global type
+ */
+export interface TanStackRouterGlobal {
+    router?: {
+        prefetch?: (url: string) => unknown;
+    };
+}
+
+/**
+ * Extend Window interface to include TanStackRouter
+ */
+declare global {
+    interface Window {
+        TanStackRouter?: TanStackRouterGlobal;
+    }
+}
+
+/**
+ * Options passed to a navigate function
+ * @interface NavigateOptions
+ */
+export interface NavigateOptions {
+    /**
+     * Replace the current history entry instead of adding a new one
+     */
+    replace?: boolean;
+}
+
+/**
+ * Function used for programmatic navigation
+ * @param {string} to - The URL to navigate to
+ * @param {NavigateOptions} [options] - Navigation options
+ */
+export type NavigateFunction = (to: string, options?: NavigateOptions) => void;
+
+/**
+ * A navigation about to happen, as seen by navigation guards
+ * @interface NavigationAttempt
+ */
+export interface NavigationAttempt {
+    /**
+     * The current location, undefined when it is unknown
+     */
+    from?: NavLocation;
+
+    /**
+     * The URL being navigated to
+     */
+    to: string;
+
+    /**
+     * Whether the navigation replaces the current history entry
+     */
+    replace: boolean;
+}
+
+/**
+ * What a navigation guard decides: `true` or nothing allows the navigation, `false` cancels it,
+ * and a URL or `{ to, replace }` redirects it
+ */
+export type NavigationGuardResult = boolean | void | string | { to: string; replace?: boolean };
+
+/**
+ * Function run before a navigation started by NavPlus
+ * @param {NavigationAttempt} navigation - The navigation about to happen
+ * @returns {NavigationGuardResult | Promise<NavigationGuardResult>} - Whether to allow, cancel or redirect it
+ */
+export type NavigationGuard = (navigation: NavigationAttempt) => NavigationGuardResult | Promise<NavigationGuardResult>;
+
+/**
+ * Registry of the navigation guards of a NavLinkProvider
+ * @interface NavigationGuardRegistry
+ */
+export interface NavigationGuardRegistry {
+    /**
+     * Adds a guard, run after the guards registered before it
+     * @returns {() => void} - Function that removes the guard
+     */
+    register: (guard: NavigationGuard) => () => void;
+
+    /**
+     * Returns the guards in the order they run
+     */
+    getGuards: () => NavigationGuard[];
+}
+
+/**
+ * Types of navigation lifecycle events
+ * @typedef {string} NavEventType
+ */
+export type NavEventType =
+    | 'navigate:start'
+    | 'navigate:end'
+    | 'navigate:cancel'
+    | 'prefetch:start'
+    | 'prefetch:success'
+    | 'prefetch:error'
+    | 'link:impression';
+
+/**
+ * What triggered a navigation or prefetch: a click, hover navigation or a prefetch strategy.
+ * 'browser' marks links the browser follows itself: external links and clicks opening a new
+ * tab or window, whose navigate:end only means the link was followed
+ * @typedef {'click' | 'browser' | PrefetchStrategy} NavEventTrigger
+ */
+export type NavEventTrigger = 'click' | 'browser' | PrefetchStrategy;
+
+/**
+ * Fields shared by every navigation lifecycle event
+ * @interface NavEventBase
+ */
+export interface NavEventBase {
+    /**
+     * The link's target URL; for navigate:end, the URL navigated to after redirects
+     */
+    to: string;
+
+    /**
+     * The location when the event happened
+     */
+    from?: NavLocation;
+
+    /**
+     * What triggered the navigation or prefetch, undefined for impressions
+     */
+    trigger?: NavEventTrigger;
+
+    /**
+     * The link's id prop
+     */
+    id?: string;
+
+    /**
+     * The link's testId prop
+     */
+    testId?: string;
+
+    /**
+     * The link's trackingData prop
+     */
+    trackingData?: Record<string, unknown>;
+
+    /**
+     * When the event happened (ms since epoch)
+     */
+    timestamp: number;
+}
+
+/**
+ * A navigation lifecycle event, emitted on the event bus of the nearest NavLinkProvider
+ * @typedef {object} NavEvent
+ */
+export type NavEvent =
+    | (NavEventBase & { type: Exclude<NavEventType, 'prefetch:error'> })
+    | (NavEventBase & { type: 'prefetch:error'; error: unknown });
+
+/**
+ * Distributes navigation lifecycle events to subscribers
+ * @interface NavEventBus
+ */
+export interface NavEventBus {
+    /**
+     * Sends an event to the subscribers of its type
+     */
+    emit: (event: NavEvent) => void;
+
+    /**
+     * Subscribes to events, optionally only to some types
+     * @returns {() => void} - Function that removes the subscription
+     */
+    subscribe: (listener: (event: NavEvent) => void, types?: NavEventType[]) => () => void;
+}
+
+/**
+ * Link metadata included in navigation lifecycle events
+ * @interface NavLinkMetadata
+ */
+export interface NavLinkMetadata {
+    id?: string;
+    testId?: string;
+    trackingData?: Record<string, unknown>;
+}
+
+/**
+ * How links to other sites are detected and rendered
+ * @interface OutboundLinkPolicy
+ */
+export interface OutboundLinkPolicy {
+    /**
+     * Hosts besides the current one that belong to the app, so links to them stay internal.
+     * `*.example.com` matches the domain and its subdomains
+     */
+    internalHosts?: string[];
+
+    /**
+     * Target of outbound web links
+     * @default '_blank'
+     */
+    target?: string;
+
+    /**
+     * Rel of outbound web links, e.g. 'noopener noreferrer nofollow ugc' for user content
+     * @default 'noopener noreferrer'
+     */
+    rel?: string;
+
+    /**
+     * Icon rendered after the content of outbound links, hidden from screen readers
+     */
+    icon?: React.ReactNode;
+
+    /**
+     * Visually hidden text appended to links opening in a new tab, e.g. '(opens in a new tab)'
+     */
+    newTabLabel?: string;
+
+    /**
+     * Only hosts matching these patterns may be linked to
+     */
+    allowedHosts?: string[];
+
+    /**
+     * Hosts matching these patterns may not be linked to
+     */
+    blockedHosts?: string[];
+
+    /**
+     * Decides last whether an outbound URL may be linked to. Blocked links render as disabled
+     */
+    isAllowed?: (url: string) => boolean;
+}
+
+/**
+ * A value interpolated into a route pattern
+ * @typedef {string | number} RouteParamValue
+ */
+export type RouteParamValue = string | number;
+
+/**
+ * Splits a route pattern into the union of its segments
+ */
+type RouteSegments<Pattern extends string> = Pattern extends `${infer Head}/${infer Rest}`
+    ? Head | RouteSegments<Rest>
+    : Pattern;
+
+/**
+ * Name of a required param segment: `:id` or `:path+`
+ */
+type RequiredRouteParam<Segment extends string> = Segment extends `:${string}?` | `:${string}*`
+    ? never
+    : Segment extends `:${infer Name}+`
+        ? Name
+        : Segment extends `:${infer Name}`
+            ? Name
+            : never;
+
+/**
+ * Name of an optional param segment: `:id?`, `:path*` or the trailing `*` wildcard
+ */
+type OptionalRouteParam<Segment extends string> = Segment extends '*'
+    ? '*'
+    : Segment extends `:${infer Name}?` | `:${infer Name}*`
+        ? Name
+        : never;
+
+/**
+ * The params of a route pattern, e.g. `{ id: RouteParamValue }` for '/users/:id'
+ * @typedef {object} RouteParamsOf
+ *
+ * @example
+ * type Params = RouteParamsOf<'/teams/:teamId/files/:path*'>;
+ * // { teamId: RouteParamValue; path?: RouteParamValue }
+ */
+export type RouteParamsOf<Pattern extends string> =
+    { [Name in RequiredRouteParam<RouteSegments<Pattern>>]: RouteParamValue }
+    & { [Name in OptionalRouteParam<RouteSegments<Pattern>>]?: RouteParamValue };
+
+/**
+ * Search params of a route, serialized into the query string. Undefined values are left out
+ * @typedef {Record<string, RouteParamValue | boolean | undefined>} RouteSearchParams
+ */
+export type RouteSearchParams = Record<string, RouteParamValue | boolean | undefined>;
+
+/**
+ * A route of a route table: a pattern, or a pattern with the type of its search params.
+ * The `search` value only declares the type, e.g. `{} as { q: string; page?: number }`
+ * @typedef {string | { path: string; search?: RouteSearchParams }} RouteDefinition
+ */
+export type RouteDefinition = string | { path: string; search?: RouteSearchParams };
+
+/**
+ * A route table, keyed by route name
+ * @typedef {Record<string, RouteDefinition>} RouteDefinitions
+ */
+export type RouteDefinitions = Record<string, RouteDefinition>;
+
+/**
+ * The pattern of a route definition
+ */
+export type RoutePatternOf<Definition extends RouteDefinition> = Definition extends { path: infer Pattern }
+    ? Pattern extends string ? Pattern : never
+    : Definition extends string ? Definition : never;
+
+/**
+ * The search params of a route definition, any search params when it declares none
+ */
+export type RouteSearchOf<Definition extends RouteDefinition> = Definition extends { path: string; search?: infer Search }
+    ? unknown extends Search ? RouteSearchParams : NonNullable<Search>
+    : RouteSearchParams;
+
+/**
+ * Where to link within a route: its params and search params, required when the pattern or
+ * search type has required keys, and the hash
+ */
+export type RouteLocation<Definition extends RouteDefinition> =
+    ({} extends RouteParamsOf<RoutePatternOf<Definition>>
+        ? { params?: RouteParamsOf<RoutePatternOf<Definition>> }
+        : { params: RouteParamsOf<RoutePatternOf<Definition>> })
+    & ({} extends RouteSearchOf<Definition>
+        ? { search?: RouteSearchOf<Definition> }
+        : { search: RouteSearchOf<Definition> })
+    & { hash?: string };
+
+/**
+ * Arguments of a route registry's href after the route name; the location may be left out
+ * when the route has no required params or search params
+ */
+export type RouteHrefArgs<Definition extends RouteDefinition> = {} extends RouteLocation<Definition>
+    ? [location?: RouteLocation<Definition>]
+    : [location: RouteLocation<Definition>];
+
+/**
+ * Props of the Link of a route registry: NavPlus props where `to` is a route name and
+ * params and search params are checked against the route
+ * @typedef {object} RouteLinkProps
+ */
+export type RouteLinkProps<Routes extends RouteDefinitions> =
+    Omit<NavPlusProps, 'to' | 'params' | 'search' | 'hash' | 'customActiveUrl' | 'matchMode' | 'matchPattern' | 'routeParams'>
+    & {
+        [Name in keyof Routes & string]: { to: Name } & RouteLocation<Routes[Name]>
+    }[keyof Routes & string]
+    & {
+        /**
+         * Whether the link is only active when the params of the current location match its params.
+         * If false, it is active on any location matching the route's pattern
+         * @default true
+         */
+        matchParams?: boolean;
+    };
+
+/**
+ * A typed route table created with defineRoutes
+ * @interface RouteRegistry
+ */
+export interface RouteRegistry<Routes extends RouteDefinitions> {
+    /**
+     * The route definitions
+     */
+    routes: Routes;
+
+    /**
+     * Builds the URL of a route, interpolating its params and appending its search params and hash
+     */
+    href: <Name extends keyof Routes & string>(to: Name, ...args: RouteHrefArgs<Routes[Name]>) => string;
+
+    /**
+     * NavPlus variant linking to a route by name, active when the current location matches the route
+     */
+    Link: (props: RouteLinkProps<Routes>) => React.ReactElement | null;
+}
+
+/**
+ * Props received by the Link component of a router adapter
+ * @interface RouterLinkProps
+ */
+export interface RouterLinkProps extends Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+    /**
+     * The target URL for the link
+     */
+    to: string;
+
+    /**
+     * Replace the current history entry instead of adding a new one
+     */
+    replace?: boolean;
+
+    /**
+     * Ref to the rendered anchor element
+     */
+    ref?: React.Ref<HTMLAnchorElement>;
+}
+
+/**
+ * Connects NavPlus to a router library. The hooks are called on every render of
+ * NavLinkProvider, so an adapter must be created once and never swapped for another
+ * @interface RouterAdapter
+ *
+ * @example
+ * import { Link, useLocation, useNavigate } from 'react-router-dom';
+ *
+ * const adapter = createReactRouterAdapter({ Link, useLocation, useNavigate });
+ *
+ * <NavLinkProvider adapter={adapter}>
+ *   <App />
+ * </NavLinkProvider>
+ */
+export interface RouterAdapter {
+    /**
+     * Name of the adapter, used in warnings
+     */
+    name: string;
+
+    /**
+     * Component used to render internal links, receiving RouterLinkProps. If omitted,
+     * NavPlus renders an anchor and navigates with the adapter's navigate function
+     */
+    Link?: React.ElementType;
+
+    /**
+     * Hook returning the current location
+     */
+    useLocation: () => NavLocation | undefined;
+
+    /**
+     * Hook returning the function used for programmatic navigation
+     */
+    useNavigate: () => NavigateFunction | undefined;
+
+    /**
+     * Hook returning a function that prefetches a URL with the router.
+     * If omitted, prefetching falls back to the routerType of the prefetch options
+     */
+    usePrefetch?: () => PrefetchFunction | undefined;
+}
+
+/**
+ * Router context interface
+ */
+export interface RouterContext {
+    navigate?: NavigateFunction;
+    location?: NavLocation;
+    prefetch?: PrefetchFunction;
+}
+
+/**
+ * Options of the live region in which NavLinkProvider announces pages reached through links
+ * @interface NavigationAnnouncerOptions
+ */
+export interface NavigationAnnouncerOptions {
+    /**
+     * Time in milliseconds to wait after a navigation, so the new page can set its title
+     * @default 250
+     */
+    delay?: number;
+
+    /**
+     * Builds the announcement from the page title. Return null to announce nothing.
+     * Defaults to the title, or the first heading of a page without a title
+     */
+    getMessage?: (title: string, event: NavEvent) => string | null | undefined;
+
+    /**
+     * Class name of the live region, replacing its visually hidden inline style
+     */
+    className?: string;
+}
+
+/**
+ * How the page scrolls after a navigation. 'instant' jumps even when the page sets a smooth
+ * scroll-behavior in CSS
+ * @typedef {'auto' | 'smooth' | 'instant'} NavigationScrollBehavior
+ */
+export type NavigationScrollBehavior = 'auto' | 'smooth' | 'instant';
+
+/**
+ * What NavLinkProvider does after links navigate: move focus into the new page, scroll to its
+ * top or to the element of the URL's hash, and restore scroll positions on back and forward
+ * @interface PostNavigationOptions
+ */
+export interface PostNavigationOptions {
+    /**
+     * Selector of the element receiving focus after a navigation, made focusable if needed.
+     * false leaves focus on the link
+     * @default 'main, [role="main"]'
+     */
+    focusTarget?: string | false;
+
+    /**
+     * Whether to scroll to the element of the URL's hash, or to the top of the page without one
+     * @default true
+     */
+    scroll?: boolean;
+
+    /**
+     * How the page scrolls
+     * @default 'auto'
+     */
+    scrollBehavior?: NavigationScrollBehavior;
+
+    /**
+     * Whether to restore the scroll position of a page when going back or forward to it
+     * @default true
+     */
+    restoreScroll?: boolean;
+}
+
+/**
+ * Options a link passes along when it has navigated
+ * @interface AfterNavigateOptions
+ */
+export interface AfterNavigateOptions {
+    /**
+     * Whether to keep the scroll position and focus
+     */
+    preserveScroll?: boolean;
+
+    /**
+     * The location the link navigated from; the post-navigation waits until another one renders
+     */
+    from?: NavLocation;
+}
+
+/**
+ * Direction of a navigation, added to the types of its view transition so CSS can animate
+ * forward and back navigations differently
+ * @typedef {'forward' | 'back'} ViewTransitionDirection
+ */
+export type ViewTransitionDirection = 'forward' | 'back';
+
+/**
+ * How navigations run in a view transition, with `document.startViewTransition`
+ * @interface ViewTransitionOptions
+ */
+export interface ViewTransitionOptions {
+    /**
+     * Whether navigations run in a view transition
+     * @default true
+     */
+    enabled?: boolean;
+
+    /**
+     * view-transition-name of the clicked link in the old page, so it can morph into the
+     * element of the new page with the same name
+     */
+    name?: string;
+
+    /**
+     * Types of the transition, matched in CSS with `:active-view-transition-type()`, and
+     * with `html[data-view-transition~="type"]` in browsers without transition types
+     */
+    types?: string[];
+
+    /**
+     * Direction of the navigation, added to the types
+     */
+    direction?: ViewTransitionDirection;
+
+    /**
+     * view-transition-name of the exactly active link, so an active indicator can morph from the
+     * previously active link. Names must be unique on the page: set it for one group of links
+     */
+    activeName?: string;
+}
+
+/**
+ * NavLink context value interface
+ */
+export interface NavLinkContextValue {
+    activeMatchers?: Map<MatchMode, Matcher>;
+    matchOptions?: MatchOptions;
+    prefetchDefaults?: PrefetchOptions;
+    prefetchCache?: PrefetchCache;
+    prefetchQueue?: PrefetchQueue;
+    prefetchCallbacks?: PrefetchCallbacks;
+    navigationGuards?: NavigationGuardRegistry;
+    eventBus?: NavEventBus;
+    trackImpressions?: boolean;
+    outboundLinkPolicy?: OutboundLinkPolicy;
+    afterNavigate?: (to: string, options: AfterNavigateOptions) => void;
+    viewTransition?: boolean | ViewTransitionOptions;
+    adapter?: RouterAdapter;
+    routerContext?: RouterContext;
+}
+
+/**
+ * Props for the NavPlus component
+ * @interface NavPlusProps
+ */
+export interface NavPlusProps extends Omit<Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href' | 'onClick' | 'className'>, 'children'>, PrefetchCallbacks {
+    /**
+     * The target URL for the link, or a route pattern such as '/users/:id' filled in with `params`
+     */
+    to: string;
+
+    /**
+     * Values of the params of the `to` pattern, URI-encoded into the path
+     */
+    params?: HrefOptions['params'];
+
+    /**
+     * Search params appended to the URL, replacing those of `to` with the same keys
+     */
+    search?: SearchParamsInit;
+
+    /**
+     * Fragment of the URL, replacing the hash of `to`
+     */
+    hash?: string;
+
+    /**
+     * Which search params of the current location to keep, e.g. the active filters of a list.
+     * `true` keeps all of them, an array only the listed keys; the link's own params win
+     * @default false
+     */
+    preserveSearch?: PreserveSearch;
+
+    /**
+     * Whether to keep the scroll position after navigating, e.g. for tabs or filters within a page.
+     * Such links update part of the page rather than leave it, so focus stays on them too
+     * @default false
+     */
+    preserveScroll?: boolean;
+
+    /**
+     * Content to render inside the link
+     * Can be a React node or a function that returns a React node based on active state
+     */
+    children: NavLinkChildren;
+
+    /**
+     * Current location object - used to determine if link is active
+     * Can be passed from React Router's useLocation or manually
+     */
+    location?: NavLocation;
+
+    /**
+     * Navigation function - used for programmatic navigation
+     * Can be passed from React Router's useNavigate or manually
+     */
+    navigate?: NavigateFunction;
+
+    /**
+     * If true, clicking the link will navigate to the target URL
+     * If false, the link will be rendered as a span with no navigation
+     * @default true
+     */
+    redirection?: boolean;
+
+    /**
+     * ID attribute for the link element
+     */
+    id?: string;
+
+    /**
+     * Class name to apply when the link is not active
+     * @default ''
+     */
+    inActiveClassName?: string;
+
+    /**
+     * Base class name to apply to the link regardless of active state
+     * @default ''
+     */
+    className?: string;
+
+    /**
+     * Class name to apply when the link is active
+     * @default 'active'
+     */
+    activeClassName?: string;
+
+    /**
+     * Function to call when the link is clicked
+     */
+    onClick?: (e: React.MouseEvent<HTMLElement>) => void;
+
+    /**
+     * How to match the current URL to determine if the link is active
+     * @default 'includes'
+     */
+    matchMode?: MatchMode;
+
+    /**
+     * Custom regex pattern to use for matching when matchMode is 'pattern'
+     */
+    matchPattern?: RegExp;
+
+    /**
+     * Options controlling how the current path is compared to the link,
+     * merged over the matchOptions of the NavLinkProvider
+     */
+    matchOptions?: MatchOptions;
+
+    /**
+     * If true, clicking the link will replace the current history entry instead of adding a new one
+     * @default false
+     */
+    replace?: boolean;
+
+    /**
+     * If true, the link will be rendered as an external link with the target and rel of the outbound link policy.
+     * Detected from the URL when omitted: other hosts and schemes such as mailto: and tel: are external
+     * @default undefined
+     */
+    isExternal?: boolean;
+
+    /**
+     * ARIA attributes for accessibility
+     * @default {}
+     */
+    aria?: React.AriaAttributes;
+
+    /**
+     * aria-current value of the link while active. A single value applies when the link is the
+     * current page; links that are active because the location is below them get
+     * aria-current="true", unless set otherwise with `{ exact, partial }`. false leaves it out
+     * @default { exact: 'page', partial: true }
+     */
+    ariaCurrent?: AriaCurrentValue | false | AriaCurrentOptions;
+
+    /**
+     * Data-testid attribute for testing
+     */
+    testId?: string;
+
+    /**
+     * Data attached to the navigation lifecycle events of this link, e.g. for analytics
+     */
+    trackingData?: Record<string, unknown>;
+
+    /**
+     * If true, the link will be disabled and clicking it will have no effect
+     * @default false
+     */
+    disabled?: boolean;
+
+    /**
+     * Styles to apply when the link is active
+     */
+    activeStyle?: React.CSSProperties;
+
+    /**
+     * Styles to apply when the link is not active
+     */
+    inactiveStyle?: React.CSSProperties;
+
+    /**
+     * Custom URL to use for active state detection instead of the 'to' prop
+     */
+    customActiveUrl?: string;
+
+    /**
+     * Params the current location must match when matchMode is 'route', e.g. `{ id: '42' }`
+     * for the pattern '/users/:id'. Params that are left out may have any value
+     */
+    routeParams?: RouteParams;
+
+    /**
+     * Additional props to pass to the Link component of the router adapter
+     */
+    linkProps?: Record<string, unknown>;
+
+    /**
+     * Function to determine if the link is active
+     * If provided, this will override the default active state detection.
+     * When matchMode is 'route', the params matched from the pathname are passed as the third argument
+     */
+    isActiveFunc?: (pathname: string, to: string, params: RouteParams) => boolean;
+
+    /**
+     * Delay in milliseconds before navigating to the target URL
+     * Useful for allowing animations to complete before navigation
+     */
+    navigationDelay?: number;
+
+    /**
+     * Whether to run the navigation in a view transition where the browser supports them,
+     * merged over the NavLinkProvider's viewTransition. Other browsers navigate right away
+     */
+    viewTransition?: boolean | ViewTransitionOptions;
+
+    /**
+     * Guard run before this link navigates, ahead of the NavLinkProvider's guards.
+     * It can allow, cancel or redirect the navigation
+     */
+    onBeforeNavigate?: NavigationGuard;
+
+    /**
+     * Navigate client-side on every click, including Ctrl/Cmd/Shift/Alt-clicks, non-primary
+     * buttons and links with a target other than _self, which are otherwise left to the browser
+     * @default false
+     */
+    interceptAllClicks?: boolean;
+
+    /**
+     * Event to trigger navigation - 'click' or 'hover'
+     * @default 'click'
+     */
+    triggerEvent?: 'click' | 'hover';
+
+    /**
+     * Prefetch configuration for the link
+     * Can be a boolean or an object with detailed options
+     * If true, will use default prefetch settings
+     * @default false
+     */
+    prefetch?: boolean | PrefetchOptions;
+
+    /**
+     * Custom element tag to use for rendering the link
+     * @default undefined - will use Link or 'a' or 'span' based on other props
+     */
+    as?: React.ElementType;
+
+    /**
+     * Router context if available - can be passed from router context providers
+     * This allows the component to access router features without explicit props
+     */
+    routerContext?: any;
+}
+/**
+ * State of a NavGroup, passed to its render prop
+ * @interface NavGroupState
+ */
+export interface NavGroupState {
+    /**
+     * Whether a NavPlus anywhere below the group, including in nested groups, is active
+     */
+    isAnyChildActive: boolean;
+
+    /**
+     * Whether the group is expanded
+     */
+    isExpanded: boolean;
+
+    /**
+     * Expands or collapses the group
+     */
+    setExpanded: (expanded: boolean) => void;
+
+    /**
+     * Toggles the group
+     */
+    toggle: () => void;
+
+    /**
+     * Props for the element toggling the group, e.g. a button
+     */
+    toggleProps: {
+        'aria-expanded': boolean;
+        'aria-controls': string;
+        onClick: () => void;
+    };
+
+    /**
+     * Props for the element containing the links of the group. It is hidden rather than
+     * unmounted while collapsed, so the links keep reporting their active state
+     */
+    contentProps: {
+        id: string;
+        hidden: boolean;
+    };
+
+    /**
+     * Nesting depth of the group, 0 for a top-level group
+     */
+    depth: number;
+}
+
+/**
+ * Value of the context through which links report their active state to the nearest NavGroup
+ * @interface NavGroupContextValue
+ */
+export interface NavGroupContextValue {
+    /**
+     * Records whether a descendant link or nested group is active
+     * @param {object} child - A stable key identifying the descendant
+     * @param {boolean} isActive - Whether it is active
+     */
+    setChildActive: (child: object, isActive: boolean) => void;
+
+    /**
+     * Whether a descendant is active
+     */
+    isAnyChildActive: boolean;
+
+    /**
+     * Whether the group is expanded
+     */
+    isExpanded: boolean;
+
+    /**
+     * Nesting depth of the group, 0 for a top-level group
+     */
+    depth: number;
+}
+
+/**
+ * Props for the NavGroup component
+ * @interface NavGroupProps
+ */
+export interface NavGroupProps extends Omit<React.HTMLAttributes<HTMLElement>, 'children'> {
+    /**
+     * The links of the group, or a function rendering them from the group's state
+     */
+    children: React.ReactNode | ((state: NavGroupState) => React.ReactNode);
+
+    /**
+     * Content of the toggle button rendered before the links. Only used when children is not a function
+     */
+    label?: React.ReactNode;
+
+    /**
+     * Whether the group is expanded, for a controlled group
+     */
+    expanded?: boolean;
+
+    /**
+     * Whether the group starts expanded, for an uncontrolled group
+     * @default false
+     */
+    defaultExpanded?: boolean;
+
+    /**
+     * Called when the group is expanded or collapsed
+     */
+    onExpandedChange?: (expanded: boolean) => void;
+
+    /**
+     * Whether the group expands when one of its links becomes active
+     * @default true
+     */
+    autoExpand?: boolean;
+
+    /**
+     * Class name to apply when a link of the group is active
+     * @default 'active'
+     */
+    activeClassName?: string;
+
+    /**
+     * Element or component wrapping the group
+     * @default 'div'
+     */
+    as?: React.ElementType;
+}
+
+/**
+ * A node of a navigation tree, e.g. loaded from a JSON config
+ * @interface NavTreeNode
+ */
+export interface NavTreeNode {
+    /**
+     * Stable key of the node. Defaults to its position in the tree
+     */
+    id?: string;
+
+    /**
+     * Content of the link or section header
+     */
+    label: React.ReactNode;
+
+    /**
+     * Target URL or route pattern. Nodes without one render as section headers
+     */
+    to?: string;
+
+    /**
+     * Accessible name of the button expanding the node's children. Defaults to the label when it
+     * is a string; otherwise the button of a node with a `to` is labelled by the node's link
+     */
+    toggleLabel?: string;
+
+    /**
+     * Icon rendered before the label
+     */
+    icon?: React.ReactNode;
+
+    /**
+     * Badge rendered after the label, e.g. a count of unread items
+     */
+    badge?: React.ReactNode;
+
+    /**
+     * Nested nodes, rendered as a collapsible NavGroup
+     */
+    children?: NavTreeNode[];
+
+    /**
+     * Permissions the user needs, all of them, for the node to be shown
+     */
+    permissions?: string[];
+
+    /**
+     * Feature flag that must be enabled for the node to be shown
+     */
+    featureFlag?: string;
+
+    /**
+     * Hides the node
+     * @default false
+     */
+    hidden?: boolean;
+
+    /**
+     * Props passed to the NavPlus of the node, e.g. matchMode, params or prefetch
+     */
+    linkProps?: Partial<Omit<NavPlusProps, 'to' | 'children'>>;
+
+    /**
+     * App-specific data, e.g. for custom rendering
+     */
+    meta?: Record<string, unknown>;
+}
+
+/**
+ * A node of a navigation tree after filtering, with its URL and active state
+ * @interface NavTreeItem
+ */
+export interface NavTreeItem<Node extends NavTreeNode = NavTreeNode> {
+    /**
+     * Key of the node: its id, or its position in the tree
+     */
+    key: string;
+
+    /**
+     * The node
+     */
+    node: Node;
+
+    /**
+     * Nesting depth, 0 for top-level nodes
+     */
+    depth: number;
+
+    /**
+     * URL built from the node's `to` and link props, undefined for section headers
+     */
+    href?: string;
+
+    /**
+     * Whether the node's own link is active
+     */
+    isActive: boolean;
+
+    /**
+     * Whether a link below the node is active
+     */
+    isAnyChildActive: boolean;
+
+    /**
+     * The visible child nodes
+     */
+    children: NavTreeItem<Node>[];
+}
+
+/**
+ * Callbacks deciding which nodes of a navigation tree are shown
+ * @interface NavTreeFilterOptions
+ */
+export interface NavTreeFilterOptions<Node extends NavTreeNode = NavTreeNode> {
+    /**
+     * Checks a permission listed in a node's `permissions`. Without it, permissions are not checked
+     */
+    hasPermission?: (permission: string, node: Node) => boolean;
+
+    /**
+     * Checks the `featureFlag` of a node. Without it, feature flags are not checked
+     */
+    isFeatureEnabled?: (flag: string, node: Node) => boolean;
+
+    /**
+     * Decides last whether a node is shown
+     */
+    filter?: (node: Node, ancestors: Node[]) => boolean;
+}
+
+/**
+ * Options for resolving a navigation tree against the current location
+ * @interface NavTreeOptions
+ */
+export interface NavTreeOptions<Node extends NavTreeNode = NavTreeNode> extends NavTreeFilterOptions<Node> {
+    /**
+     * Current location. Defaults to the location of the NavLinkProvider's router adapter
+     */
+    location?: NavLocation;
+
+    /**
+     * Match mode of nodes whose linkProps don't set one
+     * @default 'includes'
+     */
+    matchMode?: MatchMode;
+
+    /**
+     * Options controlling how paths are compared, merged over the NavLinkProvider's matchOptions
+     */
+    matchOptions?: MatchOptions;
+}
+
+/**
+ * Props for the NavMenu component
+ * @interface NavMenuProps
+ */
+export interface NavMenuProps<Node extends NavTreeNode = NavTreeNode>
+    extends NavTreeOptions<Node>, Omit<React.HTMLAttributes<HTMLElement>, 'children'> {
+    /**
+     * The navigation tree
+     */
+    items: Node[];
+
+    /**
+     * Renders a node instead of the default `<li>`. Call renderDefault to render it as usual
+     */
+    renderItem?: (item: NavTreeItem<Node>, renderDefault: () => React.ReactNode) => React.ReactNode;
+
+    /**
+     * Renders the content of a link or section header. Defaults to the icon, label and badge
+     */
+    renderLabel?: (item: NavTreeItem<Node>) => React.ReactNode;
+
+    /**
+     * Props passed to every NavPlus, before the linkProps of each node
+     */
+    linkProps?: Partial<Omit<NavPlusProps, 'to' | 'children'>>;
+
+    /**
+     * Content of the button toggling a section that is also a link
+     * @default '▾'
+     */
+    toggleIcon?: React.ReactNode;
+
+    /**
+     * Class name of the `<ul>` elements
+     */
+    listClassName?: string;
+
+    /**
+     * Class name of the `<li>` elements
+     */
+    itemClassName?: string;
+
+    /**
+     * Element or component wrapping the menu
+     * @default 'nav'
+     */
+    as?: React.ElementType;
+}
+
+/**
+ * A crumb being labelled: one segment of the current pathname
+ * @interface BreadcrumbSegment
+ */
+export interface BreadcrumbSegment {
+    /**
+     * The pathname up to and including the segment, e.g. '/users/42'
+     */
+    pathname: string;
+
+    /**
+     * The decoded segment, e.g. '42'. Empty for the home crumb
+     */
+    segment: string;
+
+    /**
+     * Position of the crumb, 0 for the first one
+     */
+    index: number;
+
+    /**
+     * Params matched by the route of the crumb, e.g. `{ id: '42' }` for '/users/:id'
+     */
+    params: RouteParams;
+}
+
+/**
+ * Label of a crumb, or a promise of it, e.g. to fetch the name of an entity
+ * @typedef {React.ReactNode | Promise<React.ReactNode>} BreadcrumbLabelResult
+ */
+export type BreadcrumbLabelResult = React.ReactNode | Promise<React.ReactNode>;
+
+/**
+ * Label of a breadcrumb route: a node, or a function of the crumb's params
+ * @typedef {React.ReactNode | ((params: RouteParams, crumb: BreadcrumbSegment) => BreadcrumbLabelResult)} BreadcrumbLabel
+ */
+export type BreadcrumbLabel =
+    | React.ReactNode
+    | ((params: RouteParams, crumb: BreadcrumbSegment) => BreadcrumbLabelResult);
+
+/**
+ * A route labelling the crumbs whose pathname matches its pattern
+ * @interface BreadcrumbRoute
+ */
+export interface BreadcrumbRoute {
+    /**
+     * Route pattern, e.g. '/users/:id'
+     */
+    path: string;
+
+    /**
+     * Label of the crumb
+     */
+    label: BreadcrumbLabel;
+
+    /**
+     * Leaves the crumb out, e.g. for a path without a page of its own
+     * @default false
+     */
+    hidden?: boolean;
+}
+
+/**
+ * Status of a crumb's label
+ * @typedef {'loading' | 'ready' | 'error'} BreadcrumbStatus
+ */
+export type BreadcrumbStatus = 'loading' | 'ready' | 'error';
+
+/**
+ * A crumb of the current location
+ * @interface BreadcrumbItem
+ */
+export interface BreadcrumbItem extends BreadcrumbSegment {
+    /**
+     * Key of the crumb
+     */
+    key: string;
+
+    /**
+     * Label of the crumb. While an async label loads, and if it fails, the formatted segment
+     */
+    label: React.ReactNode;
+
+    /**
+     * Status of the label
+     */
+    status: BreadcrumbStatus;
+
+    /**
+     * Whether the crumb is the current page, i.e. the last one
+     */
+    isCurrent: boolean;
+}
+
+/**
+ * Options for deriving breadcrumbs from the current location
+ * @interface BreadcrumbsOptions
+ */
+export interface BreadcrumbsOptions {
+    /**
+     * Current location. Defaults to the location of the NavLinkProvider's router adapter
+     */
+    location?: NavLocation;
+
+    /**
+     * Routes labelling the crumbs, as a list or as labels keyed by route pattern.
+     * The first route matching the pathname of a crumb labels it
+     */
+    routes?: BreadcrumbRoute[] | Record<string, BreadcrumbLabel>;
+
+    /**
+     * Labels crumbs that no route labels. Returning undefined falls back to the formatted segment
+     */
+    label?: (crumb: BreadcrumbSegment) => BreadcrumbLabelResult | undefined;
+
+    /**
+     * Whether the first crumb links to '/'
+     * @default true
+     */
+    includeHome?: boolean;
+
+    /**
+     * Label of the home crumb, unless a route labels '/'
+     * @default 'Home'
+     */
+    homeLabel?: React.ReactNode;
+
+    /**
+     * Options for comparing paths, merged over the NavLinkProvider's matchOptions.
+     * The basename is stripped from the pathname before it is split
+     */
+    matchOptions?: MatchOptions;
+}
+
+/**
+ * Props for the Breadcrumbs component
+ * @interface BreadcrumbsProps
+ */
+export interface BreadcrumbsProps extends BreadcrumbsOptions, Omit<React.HTMLAttributes<HTMLElement>, 'children'> {
+    /**
+     * Separator rendered between crumbs, hidden from screen readers
+     * @default '/'
+     */
+    separator?: React.ReactNode;
+
+    /**
+     * Renders the content of a crumb instead of the default link or current page
+     */
+    renderItem?: (item: BreadcrumbItem, renderDefault: () => React.ReactNode) => React.ReactNode;
+
+    /**
+     * Props passed to the NavPlus of every crumb but the current one
+     */
+    linkProps?: Partial<Omit<NavPlusProps, 'to' | 'children'>>;
+
+    /**
+     * Class name of the `<ol>` element
+     */
+    listClassName?: string;
+
+    /**
+     * Class name of the `<li>` elements
+     */
+    itemClassName?: string;
+
+    /**
+     * Element or component wrapping the breadcrumbs
+     * @default 'nav'
+     */
+    as?: React.ElementType;
+}
+
+/**
+ * Arrow keys moving focus in a NavRovingGroup: left/right, up/down, or both in a grid
+ * @typedef {'horizontal' | 'vertical' | 'grid'} RovingOrientation
+ */
+export type RovingOrientation = 'horizontal' | 'vertical' | 'grid';
+
+/**
+ * Roles of a NavRovingGroup and its links:
+ * - `navigation`: a `<nav>` of plain links
+ * - `menubar`: role="menubar" with role="menuitem" links
+ * - `tablist`: role="tablist" with role="tab" links, selected when active
+ * @typedef {'navigation' | 'menubar' | 'tablist'} NavRovingPreset
+ */
+export type NavRovingPreset = 'navigation' | 'menubar' | 'tablist';
+
+/**
+ * State a link reports to its NavRovingGroup
+ * @interface NavRovingItemState
+ */
+export interface NavRovingItemState {
+    /**
+     * Disabled links are skipped and never get the tab stop
+     */
+    disabled: boolean;
+
+    /**
+     * The active link gets the tab stop until another link is focused
+     */
+    isActive: boolean;
+}
+
+/**
+ * Value of the context through which links join the nearest NavRovingGroup
+ * @interface NavRovingGroupContextValue
+ */
+export interface NavRovingGroupContextValue {
+    /**
+     * Registers the element of a link, or updates its state
+     * @returns {() => void} - Unregisters the element
+     */
+    registerItem: (element: HTMLElement, state: NavRovingItemState) => () => void;
+
+    /**
+     * Role of the links, e.g. 'menuitem' or 'tab'
+     */
+    itemRole?: string;
+
+    /**
+     * The role preset of the group
+     */
+    preset: NavRovingPreset;
+}
+
+/**
+ * Props for the NavRovingGroup component
+ * @interface NavRovingGroupProps
+ */
+export interface NavRovingGroupProps extends React.HTMLAttributes<HTMLElement> {
+    /**
+     * Roles of the group and its links
+     * @default 'navigation'
+     */
+    preset?: NavRovingPreset;
+
+    /**
+     * Which arrow keys move focus. Defaults to 'horizontal' for menubar and tablist, 'vertical' otherwise
+     */
+    orientation?: RovingOrientation;
+
+    /**
+     * Number of links per row in a grid. Detected from the layout when omitted
+     */
+    columns?: number;
+
+    /**
+     * Whether focus wraps from the last link to the first and back
+     * @default true
+     */
+    loop?: boolean;
+
+    /**
+     * Whether typing characters moves focus to the next link whose text starts with them
+     * @default true
+     */
+    typeahead?: boolean;
+
+    /**
+     * Element or component wrapping the group. Defaults to 'nav' for the navigation preset, 'div' otherwise
+     */
+    as?: React.ElementType;
+}
+
+/**
+ * Position and size of the active link, relative to the padding box of the indicator's container
+ * @interface NavIndicatorRect
+ */
+export interface NavIndicatorRect {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * State of a NavIndicator
+ * @interface NavIndicatorState
+ */
+export interface NavIndicatorState {
+    /**
+     * Position and size of the active link, or of the last active link once none is active;
+     * null until a link has been active
+     */
+    rect: NavIndicatorRect | null;
+
+    /**
+     * The element of the active link
+     */
+    activeElement: HTMLElement | null;
+
+    /**
+     * Whether a link is active
+     */
+    isVisible: boolean;
+
+    /**
+     * Whether to animate to the rect: false when placed the first time and with reduced motion
+     */
+    shouldAnimate: boolean;
+
+    /**
+     * Whether the user prefers reduced motion
+     */
+    reducedMotion: boolean;
+}
+
+/**
+ * How a NavIndicator is positioned:
+ * - `style`: with inline styles on the indicator
+ * - `variables`: with CSS variables on the container, for your own CSS
+ * @typedef {'style' | 'variables'} NavIndicatorMode
+ */
+export type NavIndicatorMode = 'style' | 'variables';
+
+/**
+ * Options for useNavIndicator
+ * @interface NavIndicatorOptions
+ */
+export interface NavIndicatorOptions {
+    /**
+     * Selector of the active link within the container. By default, the exactly active NavPlus,
+     * or else the active NavPlus with the longest href
+     */
+    selector?: string;
+}
+
+/**
+ * Props for the NavIndicator component
+ * @interface NavIndicatorProps
+ */
+export interface NavIndicatorProps extends NavIndicatorOptions, Omit<React.HTMLAttributes<HTMLElement>, 'children'> {
+    /**
+     * Content of the indicator, or a function rendering it from the indicator's state
+     */
+    children?: React.ReactNode | ((state: NavIndicatorState) => React.ReactNode);
+
+    /**
+     * How the indicator is positioned
+     * @default 'style'
+     */
+    mode?: NavIndicatorMode;
+
+    /**
+     * Element containing the links. Defaults to the indicator's parent element
+     */
+    containerRef?: React.RefObject<HTMLElement>;
+
+    /**
+     * Duration of the animation in milliseconds
+     * @default 200
+     */
+    duration?: number;
+
+    /**
+     * Timing function of the animation
+     * @default 'ease'
+     */
+    easing?: string;
+
+    /**
+     * Prefix of the CSS variables set in the 'variables' mode
+     * @default '--nav-indicator'
+     */
+    variablePrefix?: string;
+
+    /**
+     * Element or component rendering the indicator
+     * @default 'span'
+     */
+    as?: React.ElementType;
+}
@@ -0,0 +1,34 @@
+import { ActiveMatch, AriaCurrentOptions, AriaCurrentValue } from '../types';
+
+/**
+ * Default aria-current values: the current page claims 'page', its ancestors true
+ */
+export const defaultAriaCurrent: Required<AriaCurrentOptions> = {
+    exact: 'page',
+    partial: true
+};
+
+/**
+ * Resolves the aria-current value of a link from how it matches the location
+ * @param {Pick<ActiveMatch, 'isActive' | 'isExact'>} match - Whether the link is active, and exactly
+ * @param {AriaCurrentValue | false | AriaCurrentOptions} [ariaCurrent] - The link's ariaCurrent prop
+ * @returns {AriaCurrentValue | undefined} - The value, or undefined to leave the attribute out
+ *
+ * @example
+ * resolveAriaCurrent({ isActive: true, isExact: true }, 'step'); // 'step'
+ * resolveAriaCurrent({ isActive: true, isExact: false }); // true
+ * resolveAriaCurrent({ isActive: true, isExact: false }, { partial: false }); // undefined
+ */
+export const resolveAriaCurrent = (
+    match: Pick<ActiveMatch, 'isActive' | 'isExact'>,
+    ariaCurrent?: AriaCurrentValue | false | AriaCurrentOptions
+): AriaCurrentValue | undefined => {
+    if (!match.isActive || ariaCurrent === false) return undefined;
+
+    const options: AriaCurrentOptions = typeof ariaCurrent === 'object'
+        ? { ...defaultAriaCurrent, ...ariaCurrent }
+        : { ...defaultAriaCurrent, exact: ariaCurrent ?? defaultAriaCurrent.exact };
+
+    const value = match.isExact ? options.exact : options.partial;
+    return value === false ? undefined : value;
+};
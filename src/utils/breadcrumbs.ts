@@ -0,0 +1,147 @@
+import React from 'react';
+import { BreadcrumbItem, BreadcrumbRoute, BreadcrumbSegment, BreadcrumbsOptions } from '../types';
+import { matchRoute } from './matchers';
+
+/**
+ * A crumb whose label may still be loading
+ * @interface PendingBreadcrumbItem
+ */
+export interface PendingBreadcrumbItem extends BreadcrumbItem {
+    /**
+     * The async label, while it loads
+     */
+    pending?: Promise<React.ReactNode>;
+}
+
+/**
+ * Options for resolving breadcrumbs
+ * @interface ResolveBreadcrumbsOptions
+ */
+export interface ResolveBreadcrumbsOptions extends Omit<BreadcrumbsOptions, 'location' | 'matchOptions'> {
+    /**
+     * Whether route patterns are matched case-sensitively. Defaults to
+     * `defaultMatchOptions.caseSensitive`, as matchRoute does
+     * @default true
+     */
+    caseSensitive?: boolean;
+}
+
+/**
+ * Safely decodes a path segment, returning the raw value when it is malformed
+ * @param {string} segment - The segment to decode
+ * @returns {string} - The decoded segment
+ */
+const safeDecodeSegment = (segment: string): string => {
+    try {
+        return decodeURIComponent(segment);
+    } catch (error) {
+        return segment;
+    }
+};
+
+/**
+ * Lists the pathnames of the crumbs of a pathname, from '/' to the pathname itself
+ * @param {string} pathname - The current pathname
+ * @returns {string[]} - The pathnames of the crumbs
+ *
+ * @example
+ * getBreadcrumbPaths('/users/42/settings'); // ['/', '/users', '/users/42', '/users/42/settings']
+ */
+export const getBreadcrumbPaths = (pathname: string): string[] => {
+    const segments = pathname.split('/').filter(Boolean);
+    return ['/'].concat(segments.map((segment, index) => `/${segments.slice(0, index + 1).join('/')}`));
+};
+
+/**
+ * Turns a path segment into a readable label
+ * @param {string} segment - The decoded segment
+ * @returns {string} - The label
+ *
+ * @example
+ * formatBreadcrumbSegment('billing-history'); // 'Billing history'
+ */
+export const formatBreadcrumbSegment = (segment: string): string => {
+    const words = segment.replace(/[-_]+/g, ' ').trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Checks if a label is a promise
+ * @param {unknown} label - The label
+ * @returns {boolean} - Whether the label is a promise
+ */
+const isPromiseLike = (label: unknown): label is Promise<React.ReactNode> => {
+    return !!label && typeof (label as Promise<React.ReactNode>).then === 'function';
+};
+
+/**
+ * Normalizes breadcrumb routes given as labels keyed by route pattern into a list
+ * @param {BreadcrumbsOptions['routes']} [routes] - The routes
+ * @returns {BreadcrumbRoute[]} - The routes as a list
+ */
+const toBreadcrumbRoutes = (routes: BreadcrumbsOptions['routes'] = []): BreadcrumbRoute[] => {
+    if (Array.isArray(routes)) return routes;
+    return Object.keys(routes).map((path) => ({ path, label: routes[path] }));
+};
+
+/**
+ * Splits a pathname into crumbs and labels them: from the first route matching the crumb's
+ * pathname, then the label function, then the formatted segment. Async labels are returned
+ * as `pending`, with the formatted segment as label and a 'loading' status
+ * @param {string} pathname - The current pathname, without the basename
+ * @param {ResolveBreadcrumbsOptions} [options] - Routes, label function and home crumb options
+ * @returns {PendingBreadcrumbItem[]} - The crumbs
+ *
+ * @example
+ * resolveBreadcrumbs('/users/42', { routes: { '/users': 'People', '/users/:id': ({ id }) => `User ${id}` } });
+ * // labels: 'Home', 'People', 'User 42'
+ */
+export const resolveBreadcrumbs = (
+    pathname: string,
+    options: ResolveBreadcrumbsOptions = {}
+): PendingBreadcrumbItem[] => {
+    const { label, includeHome = true, homeLabel = 'Home', caseSensitive } = options;
+    const routes = toBreadcrumbRoutes(options.routes);
+    const paths = getBreadcrumbPaths(pathname);
+    const currentPath = paths[paths.length - 1];
+
+    return paths.reduce<PendingBreadcrumbItem[]>((items, path, position) => {
+        const isHome = position === 0;
+        if (isHome && !includeHome) return items;
+
+        let route: BreadcrumbRoute | undefined;
+        let params = {};
+        routes.some((candidate) => {
+            const matched = matchRoute(candidate.path, path, { caseSensitive });
+            if (matched) {
+                route = candidate;
+                params = matched;
+            }
+            return !!matched;
+        });
+        if (route?.hidden) return items;
+
+        const segment = isHome ? '' : safeDecodeSegment(path.slice(path.lastIndexOf('/') + 1));
+        const crumb: BreadcrumbSegment = { pathname: path, segment, index: items.length, params };
+        const fallback = isHome ? homeLabel : formatBreadcrumbSegment(segment);
+
+        let result: React.ReactNode | Promise<React.ReactNode> = undefined;
+        if (route) {
+            result = typeof route.label === 'function' ? route.label(params, crumb) : route.label;
+        } else if (label) {
+            result = label(crumb);
+        }
+        if (result === undefined) result = fallback;
+
+        const pending = isPromiseLike(result) ? result : undefined;
+
+        return items.concat({
+            ...crumb,
+            key: path,
+            label: pending ? fallback : result as React.ReactNode,
+            status: pending ? 'loading' : 'ready',
+            isCurrent: path === currentPath,
+            pending
+        });
+    }, []);
+};
@@ -0,0 +1,138 @@
+import { OutboundLinkPolicy } from '../types';
+
+/**
+ * Default policy for outbound links: open in a new tab without leaking the opener or referrer
+ */
+export const defaultOutboundLinkPolicy: OutboundLinkPolicy = {
+    target: '_blank',
+    rel: 'noopener noreferrer'
+};
+
+const schemePattern = /^([a-z][a-z\d+\-.]*):/i;
+
+/**
+ * Checks if a URL uses a scheme other than http(s), such as mailto:, tel: or sms:
+ * @param {string} url - The URL to check
+ * @returns {boolean} - Whether the URL has a non-web scheme
+ *
+ * @example
+ * isSpecialSchemeUrl('mailto:hi@example.com'); // true
+ * isSpecialSchemeUrl('https://example.com'); // false
+ */
+export const isSpecialSchemeUrl = (url: string): boolean => {
+    const match = url.trim().match(schemePattern);
+    return !!match && !/^https?$/i.test(match[1]);
+};
+
+/**
+ * Checks if a host matches one of a list of host patterns. A pattern starting
+ * with `*.` matches the domain and all of its subdomains
+ * @param {string} host - The host, e.g. 'docs.example.com'
+ * @param {string[]} patterns - Host patterns, e.g. ['example.com', '*.example.org']
+ * @returns {boolean} - Whether the host matches a pattern
+ */
+export const matchesHost = (host: string, patterns: string[]): boolean => {
+    const normalizedHost = host.toLowerCase();
+    return patterns.some((pattern) => {
+        const normalizedPattern = pattern.toLowerCase();
+        if (normalizedPattern.indexOf('*.') === 0) {
+            const domain = normalizedPattern.slice(2);
+            return normalizedHost === domain
+                || normalizedHost.slice(-(domain.length + 1)) === `.${domain}`;
+        }
+        return normalizedHost === normalizedPattern;
+    });
+};
+
+const webUrlPattern = /^(https?:)?\/\/([^/?#]+)/i;
+
+/**
+ * Reads the host of an absolute or protocol-relative http(s) URL
+ * @param {string} url - The URL
+ * @returns {string | null} - The host, or null for relative and non-web URLs
+ */
+const getWebHost = (url: string): string | null => {
+    const match = url.trim().match(webUrlPattern);
+    return match ? match[2].replace(/^[^@]*@/, '') : null;
+};
+
+/**
+ * Reads the origin of an absolute or protocol-relative http(s) URL, as window.location.origin
+ * would: lowercase, without default ports, and with the current scheme when there is none
+ * @param {string} url - The URL
+ * @returns {string | null} - The origin, or null for relative and non-web URLs
+ */
+const getWebOrigin = (url: string): string | null => {
+    const match = url.trim().match(webUrlPattern);
+    if (!match) return null;
+
+    const protocol = (match[1] || (typeof window !== 'undefined' ? window.location.protocol : 'https:')).toLowerCase();
+    const host = match[2].replace(/^[^@]*@/, '').toLowerCase();
+    const defaultPort = protocol === 'https:' ? ':443' : ':80';
+    return `${protocol}//${host.slice(-defaultPort.length) === defaultPort ? host.slice(0, -defaultPort.length) : host}`;
+};
+
+/**
+ * Checks if a URL has the origin of the current page
+ * @param {string} url - The URL
+ * @returns {boolean} - Whether the URL is an absolute URL of the current origin
+ */
+const isCurrentOrigin = (url: string): boolean => (
+    typeof window !== 'undefined' && getWebOrigin(url) === window.location.origin.toLowerCase()
+);
+
+/**
+ * Checks if a URL leaves the app: non-web schemes, and web URLs whose origin isn't the
+ * current one and whose host isn't one of the internal hosts. An http URL of the current
+ * host is external on an https page, as following it reloads the app
+ * @param {string} url - The URL to check
+ * @param {string[]} [internalHosts] - Other hosts served by the app
+ * @returns {boolean} - Whether the URL is external
+ *
+ * @example
+ * isExternalUrl('/pricing'); // false
+ * isExternalUrl('tel:+15551234567'); // true
+ * isExternalUrl('https://docs.example.com/api', ['*.example.com']); // false
+ */
+export const isExternalUrl = (url: string, internalHosts: string[] = []): boolean => {
+    if (isSpecialSchemeUrl(url)) return true;
+
+    const host = getWebHost(url);
+    if (!host || isCurrentOrigin(url)) return false;
+
+    return !matchesHost(host, internalHosts);
+};
+
+/**
+ * Turns an absolute URL of the current origin into a path the router can navigate to
+ * and match; other URLs are returned as they are
+ * @param {string} url - The URL
+ * @returns {string} - The path, search and hash of the URL, or the URL itself
+ *
+ * @example
+ * // On https://example.com
+ * stripCurrentOrigin('https://example.com/pricing?plan=pro'); // '/pricing?plan=pro'
+ * stripCurrentOrigin('https://docs.example.com/api'); // 'https://docs.example.com/api'
+ */
+export const stripCurrentOrigin = (url: string): string => {
+    if (!isCurrentOrigin(url)) return url;
+
+    const path = url.trim().replace(webUrlPattern, '');
+    return path.charAt(0) === '/' ? path : `/${path}`;
+};
+
+/**
+ * Checks if the outbound link policy allows linking to a URL: its host must not be in
+ * blockedHosts and, when allowedHosts is set, must be in allowedHosts; isAllowed decides last
+ * @param {string} url - The external URL
+ * @param {OutboundLinkPolicy} policy - The outbound link policy
+ * @returns {boolean} - Whether the link is allowed
+ */
+export const isOutboundLinkAllowed = (url: string, policy: OutboundLinkPolicy): boolean => {
+    const host = getWebHost(url);
+    if (host) {
+        if (policy.blockedHosts && matchesHost(host, policy.blockedHosts)) return false;
+        if (policy.allowedHosts && !matchesHost(host, policy.allowedHosts)) return false;
+    }
+    return policy.isAllowed ? policy.isAllowed(url) : true;
+};
@@ -0,0 +1,39 @@
+/**
+ * The parts of a mouse event that decide how a link click is handled
+ * @interface LinkClickEvent
+ */
+export interface LinkClickEvent {
+    button: number;
+    metaKey: boolean;
+    altKey: boolean;
+    ctrlKey: boolean;
+    shiftKey: boolean;
+}
+
+/**
+ * Checks if a click has a modifier key pressed, which browsers use to open
+ * links in a new tab or window (Ctrl/Cmd, Shift) or to download them (Alt)
+ * @param {LinkClickEvent} event - The click event
+ * @returns {boolean} - Whether a modifier key is pressed
+ */
+export const isModifiedClick = (event: LinkClickEvent): boolean => (
+    event.metaKey || event.altKey || event.ctrlKey || event.shiftKey
+);
+
+/**
+ * Checks if a link click should be handled by client-side navigation, following standard
+ * link semantics: only plain primary-button clicks on links opening in the same browsing context.
+ * Anything else is left to the browser
+ * @param {LinkClickEvent} event - The click event
+ * @param {string} [target] - The link's target attribute
+ * @returns {boolean} - Whether to navigate client-side
+ *
+ * @example
+ * shouldHandleLinkClick(event); // false for Ctrl/Cmd-click and middle-click
+ * shouldHandleLinkClick(event, '_blank'); // false
+ */
+export const shouldHandleLinkClick = (event: LinkClickEvent, target?: string): boolean => (
+    event.button === 0
+    && (!target || target === '_self')
+    && !isModifiedClick(event)
+);
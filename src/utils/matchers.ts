@@ -1,24 +1,530 @@
-import { MatchMode } from '../types';
+import {
+    ActiveMatch,
+    HrefOptions,
+    LocationMatchOptions,
+    MatchMode,
+    MatchOptions,
+    Matcher,
+    NavLocation,
+    PathNormalizeOptions,
+    RouteParams,
+    SearchMatchMode,
+    SearchParamsInit
+} from '../types';
+
+/**
+ * A compiled route pattern
+ * @interface CompiledRoute
+ */
+interface CompiledRoute {
+    regexp: RegExp;
+    keys: string[];
+}
+
+/**
+ * Default options used when comparing paths
+ */
+export const defaultMatchOptions: Required<Omit<MatchOptions, 'basename'>> = {
+    trailingSlash: 'ignore',
+    decode: true,
+    caseSensitive: true,
+    segmentBoundaries: true,
+    search: 'subset',
+    hash: 'ignore'
+};
+
+/**
+ * Cache of compiled route patterns, keyed by the pattern string and case sensitivity
+ */
+const compiledRoutes = new Map<string, CompiledRoute>();
+
+/**
+ * Escapes characters that have a special meaning in regular expressions
+ * @param {string} value - The string to escape
+ * @returns {string} - The escaped string
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.+*?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Safely decodes a URI component, returning the raw value when it is malformed
+ * @param {string} value - The value to decode
+ * @returns {string} - The decoded value
+ */
+const safeDecode = (value: string): string => {
+    try {
+        return decodeURIComponent(value);
+    } catch (error) {
+        return value;
+    }
+};
+
+/**
+ * Compiles a route pattern into a regular expression and the list of param names.
+ *
+ * Supported segment syntax:
+ * - `:id` - a required dynamic segment
+ * - `:id?` - an optional dynamic segment
+ * - `:path*` - zero or more segments, captured as a single param
+ * - `:path+` - one or more segments, captured as a single param
+ * - `*` - a trailing wildcard, captured under the `'*'` key
+ * - `segment?` - an optional static segment
+ *
+ * @param {string} pattern - The route pattern, e.g. '/users/:id/*'
+ * @param {boolean} [caseSensitive=true] - Whether static segments are matched case-sensitively
+ * @returns {CompiledRoute} - The compiled route
+ */
+export const compileRoutePattern = (
+    pattern: string,
+    caseSensitive: boolean = defaultMatchOptions.caseSensitive
+): CompiledRoute => {
+    const cacheKey = `${caseSensitive ? 's' : 'i'}:${pattern}`;
+    const cached = compiledRoutes.get(cacheKey);
+    if (cached) return cached;
+
+    const keys: string[] = [];
+    const segments = pattern.split('/').filter(Boolean);
+
+    const source = segments.map((segment, index) => {
+        const isLast = index === segments.length - 1;
+
+        if (segment === '*') {
+            if (!isLast && process.env.NODE_ENV !== 'production') {
+                console.warn(`Route pattern "${pattern}": "*" is only supported as the last segment`);
+            }
+            keys.push('*');
+            return '(?:/(.*))?';
+        }
+
+        const param = /^:(\w+)([?*+])?$/.exec(segment);
+        if (param) {
+            const [, name, modifier] = param;
+            keys.push(name);
+            switch (modifier) {
+                case '?':
+                    return '(?:/([^/]+))?';
+                case '*':
+                    return '(?:/(.*))?';
+                case '+':
+                    return '/(.+)';
+                default:
+                    return '/([^/]+)';
+            }
+        }
+
+        if (segment.length > 1 && segment.charAt(segment.length - 1) === '?') {
+            return `(?:/${escapeRegExp(segment.slice(0, -1))})?`;
+        }
+
+        return `/${escapeRegExp(segment)}`;
+    }).join('');
+
+    const compiled: CompiledRoute = {
+        regexp: new RegExp(`^${source}/?$`, caseSensitive ? '' : 'i'),
+        keys
+    };
+    compiledRoutes.set(cacheKey, compiled);
+    return compiled;
+};
+
+/**
+ * Matches a pathname against a route pattern and extracts its params
+ * @param {string} pattern - The route pattern, e.g. '/projects/:projectId'
+ * @param {string} pathname - The pathname to match
+ * @param {MatchOptions} [options] - Options controlling the comparison
+ * @returns {RouteParams | null} - The extracted params, or null if the pathname does not match
+ *
+ * @example
+ * matchRoute('/users/:id/*', '/users/42/settings'); // { id: '42', '*': 'settings' }
+ * matchRoute('/users/:id', '/user'); // null
+ */
+export const matchRoute = (pattern: string, pathname: string, options: MatchOptions = {}): RouteParams | null => {
+    const { regexp, keys } = compileRoutePattern(pattern, options.caseSensitive);
+    const match = regexp.exec(pathname);
+    if (!match) return null;
+
+    const params: RouteParams = {};
+    keys.forEach((key, index) => {
+        const value = match[index + 1];
+        if (value !== undefined) {
+            params[key] = safeDecode(value);
+        }
+    });
+    return params;
+};
+
+/**
+ * Interpolates params into a route pattern, the reverse of matchRoute. Values are URI-encoded,
+ * except the slashes of splat params (`:path*`, `:path+` and `*`). Optional segments without
+ * a value are left out
+ * @param {string} pattern - The route pattern, e.g. '/users/:id'
+ * @param {Record<string, string | number | undefined>} [params] - The values of the params
+ * @returns {string} - The interpolated pathname
+ *
+ * @example
+ * interpolateRoute('/users/:id/:tab?', { id: 42 }); // '/users/42'
+ * interpolateRoute('/files/*', { '*': 'docs/read me.md' }); // '/files/docs/read%20me.md'
+ */
+export const interpolateRoute = (
+    pattern: string,
+    params: Record<string, string | number | undefined> = {}
+): string => {
+    const segments = pattern.split('/').filter(Boolean).map((segment) => {
+        const param = segment === '*' ? ['*', '*', '*'] : /^:(\w+)([?*+])?$/.exec(segment);
+        if (!param) {
+            // Optional static segments are kept, as they are part of the canonical URL
+            return segment.length > 1 && segment.charAt(segment.length - 1) === '?'
+                ? segment.slice(0, -1)
+                : segment;
+        }
+
+        const [, name, modifier] = param;
+        const value = params[name];
+        if (value === undefined || value === '') {
+            if (modifier !== '?' && modifier !== '*' && process.env.NODE_ENV !== 'production') {
+                console.warn(`Route pattern "${pattern}": missing a value for the "${name}" param`);
+            }
+            return '';
+        }
+
+        const isSplat = modifier === '*' || modifier === '+';
+        return isSplat
+            ? String(value).split('/').map(encodeURIComponent).join('/')
+            : encodeURIComponent(String(value));
+    }).filter(Boolean);
+
+    return `/${segments.join('/')}`;
+};
+
+/**
+ * Lower-cases a path unless the comparison is case-sensitive
+ * @param {string} path - The path to fold
+ * @param {MatchOptions} [options] - Options controlling the comparison
+ * @returns {string} - The folded path
+ */
+const foldCase = (path: string, options: MatchOptions = {}): string => {
+    const caseSensitive = options.caseSensitive ?? defaultMatchOptions.caseSensitive;
+    return caseSensitive ? path : path.toLowerCase();
+};
+
+/**
+ * Appends a trailing slash so prefix checks stop at a segment boundary
+ * @param {string} path - The path to terminate
+ * @returns {string} - The path ending with a single slash
+ */
+const withTrailingSlash = (path: string): string => (path.endsWith('/') ? path : `${path}/`);
 
 /**
  * A map of matcher functions that determine if a link is active based on the current URL
- * @type {Map<MatchMode, (pathname: string, url: string, pattern?: RegExp) => boolean>}
+ * @type {Map<MatchMode, Matcher>}
  */
-export const matchers = new Map<MatchMode, (pathname: string, url: string, pattern?: RegExp) => boolean>([
-    ['exact', (pathname, url) => pathname === url],
-    ['startsWith', (pathname, url) => pathname.startsWith(url)],
-    ['includes', (pathname, url) => pathname.includes(url)],
-    ['pattern', (pathname, url, pattern) => pattern ? pattern.test(pathname) : false]
+export const matchers = new Map<MatchMode, Matcher>([
+    ['exact', (pathname, url, pattern, options) => foldCase(pathname, options) === foldCase(url, options)],
+    ['startsWith', (pathname, url, pattern, options = {}) => {
+        const path = foldCase(pathname, options);
+        const target = foldCase(url, options);
+        if (!(options.segmentBoundaries ?? defaultMatchOptions.segmentBoundaries)) {
+            return path.startsWith(target);
+        }
+        return path === target || withTrailingSlash(path).startsWith(withTrailingSlash(target));
+    }],
+    ['includes', (pathname, url, pattern, options = {}) => {
+        const path = foldCase(pathname, options);
+        const target = foldCase(url, options);
+        if (!(options.segmentBoundaries ?? defaultMatchOptions.segmentBoundaries)) {
+            return path.includes(target);
+        }
+        return withTrailingSlash(path).includes(withTrailingSlash(cleanUrl(target, { decode: false, trailingSlash: 'strict' })));
+    }],
+    ['pattern', (pathname, url, pattern) => pattern ? pattern.test(pathname) : false],
+    ['route', (pathname, url, pattern, options) => matchRoute(url, pathname, options) !== null]
 ]);
 
 /**
- * Cleans up a URL by ensuring it starts with a forward slash
+ * Safely decodes a URI, leaving reserved characters such as '%2F' encoded.
+ * Returns the raw value when it is malformed
+ * @param {string} value - The value to decode
+ * @returns {string} - The decoded value
+ */
+const safeDecodeURI = (value: string): string => {
+    try {
+        return decodeURI(value);
+    } catch (error) {
+        return value;
+    }
+};
+
+/**
+ * Strips a router basename from the start of a path, on a segment boundary.
+ * The comparison is case-insensitive, like React Router's basename handling
+ * @param {string} path - The path, starting with a slash
+ * @param {string} basename - The basename to strip
+ * @returns {string} - The path without the basename
+ */
+const stripBasename = (path: string, basename: string): string => {
+    const base = cleanUrl(basename, { decode: false });
+    if (base === '/') return path;
+
+    const lowerPath = path.toLowerCase();
+    const lowerBase = base.toLowerCase();
+    if (lowerPath !== lowerBase && !lowerPath.startsWith(`${lowerBase}/`)) {
+        return path;
+    }
+    return path.slice(base.length) || '/';
+};
+
+/**
+ * Normalizes a URL into a path that can be compared with other paths:
+ * drops the query string and hash, ensures a single leading slash, collapses
+ * duplicate slashes, and optionally decodes it, strips a basename and removes
+ * trailing slashes
  * @param {string} url - The URL to clean
+ * @param {PathNormalizeOptions} [options] - Normalization options
  * @returns {string} - The cleaned URL
+ *
+ * @example
+ * cleanUrl('settings/'); // '/settings'
+ * cleanUrl('/app/users?page=2', { basename: '/app' }); // '/users'
  */
-export const cleanUrl = (url: string): string => {
+export const cleanUrl = (url: string, options: PathNormalizeOptions = {}): string => {
     if (!url) return '/';
-    return url.startsWith('/') ? url : `/${url}`;
+
+    const {
+        trailingSlash = defaultMatchOptions.trailingSlash,
+        decode = defaultMatchOptions.decode,
+        basename
+    } = options;
+
+    let path = url.split(/[?#]/)[0];
+    if (decode) {
+        path = safeDecodeURI(path);
+    }
+
+    path = `/${path}`.replace(/\/{2,}/g, '/');
+
+    if (basename) {
+        path = stripBasename(path, basename);
+    }
+
+    if (trailingSlash === 'ignore' && path.length > 1) {
+        path = path.replace(/\/+$/, '') || '/';
+    }
+
+    return path;
+};
+
+/**
+ * Splits a URL into its pathname, search and hash
+ * @param {string} url - The URL to split, e.g. '/reports?tab=weekly#top'
+ * @returns {Required<NavLocation>} - The parts of the URL, search and hash keep their prefix
+ *
+ * @example
+ * parsePath('/docs?v=2#install'); // { pathname: '/docs', search: '?v=2', hash: '#install' }
+ */
+export const parsePath = (url: string): Required<NavLocation> => {
+    const result = { pathname: url || '', search: '', hash: '' };
+
+    const hashIndex = result.pathname.indexOf('#');
+    if (hashIndex >= 0) {
+        result.hash = result.pathname.slice(hashIndex);
+        result.pathname = result.pathname.slice(0, hashIndex);
+    }
+
+    const searchIndex = result.pathname.indexOf('?');
+    if (searchIndex >= 0) {
+        result.search = result.pathname.slice(searchIndex);
+        result.pathname = result.pathname.slice(0, searchIndex);
+    }
+
+    return result;
+};
+
+/**
+ * Splits a route pattern into its pathname, search and hash. Unlike parsePath, a '?' followed
+ * by '/', '?' or the end marks an optional segment and stays in the pathname
+ * @param {string} pattern - The route pattern, e.g. '/users/:tab??sort=asc'
+ * @returns {Required<NavLocation>} - The parts of the pattern, search and hash keep their prefix
+ *
+ * @example
+ * parseRoutePattern('/users/:tab?#top'); // { pathname: '/users/:tab?', search: '', hash: '#top' }
+ */
+const parseRoutePattern = (pattern: string): Required<NavLocation> => {
+    const target = parsePath(pattern);
+    const path = `${target.pathname}${target.search}`;
+    const searchIndex = path.search(/\?(?![/?]|$)/);
+
+    return {
+        pathname: searchIndex >= 0 ? path.slice(0, searchIndex) : path,
+        search: searchIndex >= 0 ? path.slice(searchIndex) : '',
+        hash: target.hash
+    };
+};
+
+/**
+ * Lists the params of a query string, URLSearchParams or search params object as [key, value] pairs
+ * @param {SearchParamsInit} search - The search params
+ * @returns {Array<[string, string]>} - The params, in order
+ */
+const toSearchEntries = (search: SearchParamsInit): Array<[string, string]> => {
+    const entries: Array<[string, string]> = [];
+
+    if (typeof search === 'string' || search instanceof URLSearchParams) {
+        new URLSearchParams(search).forEach((value, key) => {
+            entries.push([key, value]);
+        });
+        return entries;
+    }
+
+    Object.keys(search).forEach((key) => {
+        const value = search[key];
+        const values = Array.isArray(value) ? value : [value];
+        values.forEach((item) => {
+            if (item !== undefined && item !== null) entries.push([key, String(item)]);
+        });
+    });
+    return entries;
+};
+
+/**
+ * Replaces the params of `entries` whose keys appear in `search` with the values from `search`.
+ * Keys of a search params object set to null or undefined are removed
+ * @param {Array<[string, string]>} entries - The params so far
+ * @param {SearchParamsInit} search - The search params taking precedence
+ * @returns {Array<[string, string]>} - The merged params
+ */
+const mergeSearchEntries = (entries: Array<[string, string]>, search: SearchParamsInit): Array<[string, string]> => {
+    const overrides = toSearchEntries(search);
+    const keys = typeof search === 'string' || search instanceof URLSearchParams
+        ? overrides.map(([key]) => key)
+        : Object.keys(search);
+    return entries.filter(([key]) => keys.indexOf(key) === -1).concat(overrides);
+};
+
+/**
+ * Builds the URL of a link from a target URL or route pattern, params, search params and a hash.
+ * Returns `to` unchanged when no option is given
+ * @param {string} to - The target URL, or a route pattern such as '/users/:id'
+ * @param {HrefOptions} [options] - Params, search params, hash and which current search params to keep
+ * @returns {string} - The URL
+ *
+ * @example
+ * buildHref('/users/:id', { params: { id: 42 }, search: { tab: 'posts' } }); // '/users/42?tab=posts'
+ * buildHref('/products?page=2', { search: { page: undefined, sort: 'price' } }); // '/products?sort=price'
+ * buildHref('/products', { preserveSearch: ['color'], currentSearch: '?color=red&page=3' }); // '/products?color=red'
+ */
+export const buildHref = (to: string, options: HrefOptions = {}): string => {
+    const { params, search, hash, preserveSearch = false, currentSearch = '' } = options;
+    if (!params && !search && hash === undefined && !preserveSearch) return to;
+
+    // Keep the scheme and host of absolute URLs out of the path
+    const origin = (/^(?:[a-z][a-z\d+\-.]*:)?\/\/[^/?#]*/i.exec(to) || [''])[0];
+    // With params, `to` is a route pattern that may have optional segments
+    const target = params ? parseRoutePattern(to.slice(origin.length)) : parsePath(to.slice(origin.length));
+
+    const pathname = params ? interpolateRoute(target.pathname, params) : target.pathname;
+
+    let query = target.search;
+    if (search || preserveSearch) {
+        let entries: Array<[string, string]> = [];
+        if (preserveSearch) {
+            entries = toSearchEntries(currentSearch).filter(([key]) => {
+                return !Array.isArray(preserveSearch) || preserveSearch.indexOf(key) !== -1;
+            });
+        }
+        entries = mergeSearchEntries(entries, target.search);
+        if (search) entries = mergeSearchEntries(entries, search);
+
+        query = entries.length > 0
+            ? `?${entries.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join('&')}`
+            : '';
+    }
+
+    const fragment = hash === undefined
+        ? target.hash
+        : hash && `#${hash.replace(/^#/, '')}`;
+
+    return `${origin}${pathname}${query}${fragment}`;
+};
+
+/**
+ * Collects the values of every param in a query string, sorted so they can be compared
+ * @param {string} search - The query string, with or without the leading '?'
+ * @returns {Record<string, string[]>} - The sorted values of each param
+ */
+const collectSearchParams = (search: string): Record<string, string[]> => {
+    const params: Record<string, string[]> = {};
+    new URLSearchParams(search).forEach((value, key) => {
+        (params[key] = params[key] || []).push(value);
+    });
+    Object.keys(params).forEach((key) => params[key].sort());
+    return params;
+};
+
+/**
+ * Checks whether every value in `expected` is present in `actual`
+ * @param {string[]} expected - Values the link requires
+ * @param {string[]} actual - Values present in the location
+ * @returns {boolean} - Whether all expected values are present
+ */
+const containsValues = (expected: string[], actual: string[] = []): boolean => {
+    const remaining = actual.slice();
+    return expected.every((value) => {
+        const index = remaining.indexOf(value);
+        if (index < 0) return false;
+        remaining.splice(index, 1);
+        return true;
+    });
+};
+
+/**
+ * Determine if the location's query string satisfies the link's query string
+ * @param {string} locationSearch - The current query string
+ * @param {string} linkSearch - The query string of the link
+ * @param {SearchMatchMode} [mode='subset'] - How the query strings are compared
+ * @returns {boolean} - Whether the query strings match
+ *
+ * @example
+ * matchSearch('?tab=weekly&page=2', '?tab=weekly', 'subset'); // true
+ * matchSearch('?tab=weekly&page=2', '?tab=weekly', 'exact'); // false
+ * matchSearch('?tab=weekly&page=2', '?tab=weekly&page=1', ['tab']); // true
+ */
+export const matchSearch = (
+    locationSearch: string,
+    linkSearch: string,
+    mode: SearchMatchMode = defaultMatchOptions.search
+): boolean => {
+    if (mode === 'ignore') return true;
+
+    const current = collectSearchParams(locationSearch);
+    const expected = collectSearchParams(linkSearch);
+
+    if (Array.isArray(mode)) {
+        return mode.every((key) => containsValues(expected[key] || [], current[key]));
+    }
+
+    const expectedKeys = Object.keys(expected);
+    const subset = expectedKeys.every((key) => containsValues(expected[key], current[key]));
+    if (mode === 'subset') return subset;
+
+    return subset
+        && Object.keys(current).length === expectedKeys.length
+        && expectedKeys.every((key) => current[key].length === expected[key].length);
+};
+
+/**
+ * Determine if the location's hash satisfies the link's hash
+ * @param {string} locationHash - The current hash
+ * @param {string} linkHash - The hash of the link
+ * @param {'ignore' | 'exact'} [mode='ignore'] - How the hashes are compared
+ * @returns {boolean} - Whether the hashes match
+ */
+export const matchHash = (
+    locationHash: string,
+    linkHash: string,
+    mode: 'ignore' | 'exact' = defaultMatchOptions.hash
+): boolean => {
+    if (mode === 'ignore') return true;
+    const normalize = (hash: string) => safeDecode(hash.replace(/^#/, ''));
+    return normalize(locationHash) === normalize(linkHash);
 };
 
 /**
@@ -27,29 +533,136 @@ export const cleanUrl = (url: string): string => {
  * @param {string} url - URL to match against
  * @param {MatchMode} matchMode - How to match the URL
  * @param {RegExp} [matchPattern] - Optional regex pattern for matching
+ * @param {MatchOptions} [matchOptions] - Options controlling the comparison
+ * @param {Map<MatchMode, Matcher>} [activeMatchers] - Matchers to look the match mode up in, e.g. from NavLinkProvider
  * @returns {boolean} - Whether the link is active
  */
 export const isActive = (
     pathname: string,
     url: string,
     matchMode: MatchMode = 'includes',
-    matchPattern?: RegExp
+    matchPattern?: RegExp,
+    matchOptions?: MatchOptions,
+    activeMatchers: Map<MatchMode, Matcher> = matchers
 ): boolean => {
-    const matchFn = matchers.get(matchMode) || matchers.get('includes');
-    return matchFn!(pathname, url, matchPattern);
+    const matchFn = activeMatchers.get(matchMode)
+        || matchers.get(matchMode)
+        || activeMatchers.get('includes')
+        || matchers.get('includes');
+    return matchFn!(pathname, url, matchPattern, matchOptions);
+};
+
+/**
+ * Creates a matcher map with the built-in matchers, overridden and extended by custom ones
+ * @param {Map<MatchMode, Matcher>} [overrides] - Custom matchers keyed by match mode
+ * @returns {Map<MatchMode, Matcher>} - The combined matcher map
+ *
+ * @example
+ * const activeMatchers = createMatchers(new Map([
+ *   ['locale', (pathname, url) => pathname.replace(/^\/(en|fr)(?=\/|$)/, '') === url]
+ * ]));
+ */
+export const createMatchers = (overrides?: Map<MatchMode, Matcher>): Map<MatchMode, Matcher> => {
+    const combined = new Map<MatchMode, Matcher>();
+    matchers.forEach((matcher, mode) => combined.set(mode, matcher));
+    if (overrides) {
+        overrides.forEach((matcher, mode) => combined.set(mode, matcher));
+    }
+    return combined;
 };
 
 /**
  * Determine if a link is active with a custom function
  * @param {string} pathname - Current pathname
  * @param {string} url - URL to match against
- * @param {(pathname: string, url: string) => boolean} isActiveFunc - Custom active detection function
+ * @param {(pathname: string, url: string, params: RouteParams) => boolean} isActiveFunc - Custom active detection function
+ * @param {RouteParams} [params] - Params matched from the pathname in 'route' mode
  * @returns {boolean} - Whether the link is active
  */
 export const isActiveWithCustomFn = (
     pathname: string,
     url: string,
-    isActiveFunc: (pathname: string, url: string) => boolean
+    isActiveFunc: (pathname: string, url: string, params: RouteParams) => boolean,
+    params: RouteParams = {}
 ): boolean => {
-    return isActiveFunc(pathname, url);
-};
\ No newline at end of file
+    return isActiveFunc(pathname, url, params);
+};
+
+/**
+ * Checks if the params matched from the pathname have the expected values
+ * @param {RouteParams} params - The matched params
+ * @param {RouteParams} expected - The expected values; params that are left out may have any value
+ * @param {boolean} caseSensitive - Whether values are compared case-sensitively
+ * @returns {boolean} - Whether every expected param matches
+ */
+const matchRouteParams = (params: RouteParams, expected: RouteParams, caseSensitive: boolean): boolean => {
+    return Object.keys(expected).every((key) => {
+        const value = params[key];
+        if (value === undefined) return false;
+        return caseSensitive ? value === expected[key] : value.toLowerCase() === expected[key].toLowerCase();
+    });
+};
+
+/**
+ * Matches a link against a location: its path with the match mode, then its query string
+ * and hash. This is the logic of `useActiveMatch`, for matching many links at once
+ * @param {string} to - The URL of the link
+ * @param {NavLocation | undefined} location - The current location
+ * @param {LocationMatchOptions} [options] - Match mode, match options and custom matching
+ * @returns {ActiveMatch} - Whether the link is active and the matched params
+ *
+ * @example
+ * matchLocation('/users/:id', { pathname: '/users/42' }, { matchMode: 'route' });
+ * // { isActive: true, isExact: true, params: { id: '42' } }
+ */
+export const matchLocation = (
+    to: string,
+    location: NavLocation | undefined,
+    options: LocationMatchOptions = {}
+): ActiveMatch => {
+    if (!location?.pathname) return { isActive: false, isExact: false, params: {} };
+
+    const {
+        matchMode = 'includes',
+        matchPattern,
+        matchOptions = {},
+        activeMatchers,
+        customActiveUrl,
+        routeParams,
+        isActiveFunc
+    } = options;
+
+    // Route patterns are matched as written, so cleaning them must not drop optional segments
+    const isRouteMode = matchMode === 'route';
+    const target = isRouteMode ? parseRoutePattern(customActiveUrl || to) : parsePath(customActiveUrl || to);
+
+    // The basename only applies to the location; link targets are relative to it.
+    // matchRoute decodes the params, so route mode matches the pathname as it is encoded
+    const pathname = cleanUrl(location.pathname, isRouteMode ? { ...matchOptions, decode: false } : matchOptions);
+    const urlToMatch = isRouteMode ? target.pathname : cleanUrl(target.pathname, { ...matchOptions, basename: undefined });
+
+    const pathMatches = isActive(pathname, urlToMatch, matchMode, matchPattern, matchOptions, activeMatchers);
+    const params: RouteParams = isRouteMode
+        ? matchRoute(urlToMatch, pathname, matchOptions) || {}
+        : {};
+    const paramsMatch = !isRouteMode
+        || !routeParams
+        || matchRouteParams(params, routeParams, matchOptions.caseSensitive ?? defaultMatchOptions.caseSensitive);
+
+    // A custom function fully overrides the default detection
+    if (isActiveFunc) {
+        const customActive = isActiveWithCustomFn(pathname, urlToMatch, isActiveFunc, params);
+        return { isActive: customActive, isExact: customActive, params };
+    }
+
+    const active = pathMatches
+        && paramsMatch
+        && matchSearch(location.search || '', target.search, matchOptions.search)
+        && matchHash(location.hash || '', target.hash, matchOptions.hash);
+
+    // Prefix matches are exact only on the link's own path; the other modes match whole paths
+    const isPrefixMode = matchMode === 'startsWith' || matchMode === 'includes';
+    const exact = active && (!isPrefixMode || foldCase(pathname, matchOptions) === foldCase(urlToMatch, matchOptions));
+
+    return { isActive: active, isExact: exact, params };
+};
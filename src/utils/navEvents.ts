@@ -0,0 +1,57 @@
+import { NavEvent, NavEventBus, NavEventType } from '../types';
+
+/**
+ * A subscriber of an event bus
+ * @interface Subscription
+ */
+interface Subscription {
+    listener: (event: NavEvent) => void;
+    types?: NavEventType[];
+}
+
+/**
+ * Creates an event bus for navigation lifecycle events
+ *
+ * @returns {NavEventBus} - The event bus
+ *
+ * @example
+ * const eventBus = createNavEventBus();
+ * eventBus.subscribe((event) => analytics.track(event.type, event), ['navigate:end']);
+ *
+ * <NavLinkProvider eventBus={eventBus}>
+ *   <App />
+ * </NavLinkProvider>
+ */
+export const createNavEventBus = (): NavEventBus => {
+    const subscriptions = new Set<Subscription>();
+
+    const emit: NavEventBus['emit'] = (event) => {
+        subscriptions.forEach(({ listener, types }) => {
+            if (types && types.indexOf(event.type) === -1) return;
+
+            // A failing subscriber must not break navigation or the other subscribers
+            try {
+                listener(event);
+            } catch (error) {
+                if (process.env.NODE_ENV !== 'production') {
+                    console.error(`Error in a ${event.type} event listener:`, error);
+                }
+            }
+        });
+    };
+
+    const subscribe: NavEventBus['subscribe'] = (listener, types) => {
+        const subscription: Subscription = { listener, types };
+        subscriptions.add(subscription);
+        return () => {
+            subscriptions.delete(subscription);
+        };
+    };
+
+    return { emit, subscribe };
+};
+
+/**
+ * The event bus used by links outside a NavLinkProvider
+ */
+export const navEvents: NavEventBus = createNavEventBus();
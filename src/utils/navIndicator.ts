@@ -0,0 +1,126 @@
+import React from 'react';
+import { NavIndicatorRect, NavIndicatorState } from '../types';
+
+/**
+ * Options of the indicator's animation
+ * @interface NavIndicatorAnimation
+ */
+export interface NavIndicatorAnimation {
+    duration: number;
+    easing: string;
+}
+
+/**
+ * Finds the link the indicator is placed over. Without a selector, this is the NavPlus whose
+ * `data-nav-active` is 'exact', or else the partially active NavPlus with the longest href,
+ * so a '/' link that is active everywhere loses to the link of the current section
+ * @param {ParentNode} container - The element containing the links
+ * @param {string} [selector] - Selector of the active link, replacing the default lookup
+ * @returns {HTMLElement | null} - The active link, null if there is none
+ */
+export const findActiveLink = (container: ParentNode, selector?: string): HTMLElement | null => {
+    if (selector) return container.querySelector<HTMLElement>(selector);
+
+    const exact = container.querySelector<HTMLElement>('[data-nav-active="exact"]');
+    if (exact) return exact;
+
+    let activeLink: HTMLElement | null = null;
+    const hrefLength = (element: HTMLElement) => (element.getAttribute('href') || '').length;
+    const partialMatches = container.querySelectorAll<HTMLElement>('[data-nav-active="partial"]');
+    for (let index = 0; index < partialMatches.length; index++) {
+        const element = partialMatches[index];
+        if (!activeLink || hrefLength(element) > hrefLength(activeLink)) {
+            activeLink = element;
+        }
+    }
+    return activeLink;
+};
+
+/**
+ * Computes the position of the active link relative to the padding box of the container,
+ * taking the container's border and scroll position into account
+ * @param {Pick<DOMRect, 'left' | 'top' | 'width' | 'height'>} elementRect - Bounding rect of the active link
+ * @param {Pick<DOMRect, 'left' | 'top'>} containerRect - Bounding rect of the container
+ * @param {Pick<HTMLElement, 'scrollLeft' | 'scrollTop' | 'clientLeft' | 'clientTop'>} container - The container
+ * @returns {NavIndicatorRect} - The position and size of the indicator
+ */
+export const getIndicatorRect = (
+    elementRect: Pick<DOMRect, 'left' | 'top' | 'width' | 'height'>,
+    containerRect: Pick<DOMRect, 'left' | 'top'>,
+    container: Pick<HTMLElement, 'scrollLeft' | 'scrollTop' | 'clientLeft' | 'clientTop'>
+): NavIndicatorRect => ({
+    left: elementRect.left - containerRect.left - container.clientLeft + container.scrollLeft,
+    top: elementRect.top - containerRect.top - container.clientTop + container.scrollTop,
+    width: elementRect.width,
+    height: elementRect.height
+});
+
+/**
+ * Checks if two indicator rects are the same
+ * @param {NavIndicatorRect | null} a - A rect
+ * @param {NavIndicatorRect | null} b - Another rect
+ * @returns {boolean} - Whether both are null or have the same position and size
+ */
+export const isSameIndicatorRect = (a: NavIndicatorRect | null, b: NavIndicatorRect | null): boolean => {
+    if (!a || !b) return a === b;
+    return a.left === b.left && a.top === b.top && a.width === b.width && a.height === b.height;
+};
+
+/**
+ * Computes the inline style positioning the indicator over the active link
+ * @param {NavIndicatorState} state - The indicator's state
+ * @param {NavIndicatorAnimation} animation - Duration and timing function of the animation
+ * @returns {React.CSSProperties} - The style
+ *
+ * @example
+ * getIndicatorStyle(state, { duration: 200, easing: 'ease' });
+ * // { position: 'absolute', left: 0, top: 0, width: 80, height: 32, transform: 'translate(96px, 0px)', ... }
+ */
+export const getIndicatorStyle = (state: NavIndicatorState, animation: NavIndicatorAnimation): React.CSSProperties => {
+    const { rect, isVisible, shouldAnimate } = state;
+    const transition = shouldAnimate
+        ? ['transform', 'width', 'height', 'opacity']
+            .map((property) => `${property} ${animation.duration}ms ${animation.easing}`)
+            .join(', ')
+        : 'none';
+
+    return {
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        width: rect ? rect.width : 0,
+        height: rect ? rect.height : 0,
+        transform: rect ? `translate(${rect.left}px, ${rect.top}px)` : undefined,
+        opacity: isVisible ? 1 : 0,
+        transition,
+        pointerEvents: 'none'
+    };
+};
+
+/**
+ * Computes the CSS variables describing the indicator: its position, size and opacity, and the
+ * duration of the animation, 0ms when it shouldn't animate
+ * @param {NavIndicatorState} state - The indicator's state
+ * @param {number} duration - Duration of the animation in milliseconds
+ * @param {string} prefix - Prefix of the variables
+ * @returns {Record<string, string>} - The variables
+ *
+ * @example
+ * getIndicatorVariables(state, 200, '--nav-indicator');
+ * // { '--nav-indicator-x': '96px', '--nav-indicator-y': '0px', '--nav-indicator-width': '80px', ... }
+ */
+export const getIndicatorVariables = (
+    state: NavIndicatorState,
+    duration: number,
+    prefix: string
+): Record<string, string> => {
+    const { rect, isVisible, shouldAnimate } = state;
+    return {
+        [`${prefix}-x`]: `${rect ? rect.left : 0}px`,
+        [`${prefix}-y`]: `${rect ? rect.top : 0}px`,
+        [`${prefix}-width`]: `${rect ? rect.width : 0}px`,
+        [`${prefix}-height`]: `${rect ? rect.height : 0}px`,
+        [`${prefix}-opacity`]: isVisible ? '1' : '0',
+        [`${prefix}-duration`]: shouldAnimate ? `${duration}ms` : '0ms'
+    };
+};
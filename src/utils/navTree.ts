@@ -0,0 +1,114 @@
+import { LocationMatchOptions, NavLocation, NavTreeFilterOptions, NavTreeItem, NavTreeNode } from '../types';
+import { buildHref, matchLocation } from './matchers';
+
+/**
+ * Checks if a node of a navigation tree is shown: it must not be hidden, the user must have
+ * all of its permissions, its feature flag must be enabled and the filter must accept it
+ * @param {NavTreeNode} node - The node
+ * @param {NavTreeNode[]} ancestors - The ancestors of the node, top-level first
+ * @param {NavTreeFilterOptions} [options] - Permission, feature flag and custom checks
+ * @returns {boolean} - Whether the node is shown
+ */
+export const isNavTreeNodeVisible = <Node extends NavTreeNode>(
+    node: Node,
+    ancestors: Node[],
+    options: NavTreeFilterOptions<Node> = {}
+): boolean => {
+    const { hasPermission, isFeatureEnabled, filter } = options;
+
+    if (node.hidden) return false;
+    if (node.permissions && hasPermission && !node.permissions.every((permission) => hasPermission(permission, node))) {
+        return false;
+    }
+    if (node.featureFlag && isFeatureEnabled && !isFeatureEnabled(node.featureFlag, node)) return false;
+    return filter ? filter(node, ancestors) : true;
+};
+
+/**
+ * Removes the nodes of a navigation tree that are not shown, with their children.
+ * Sections without a link of their own are removed when none of their children is shown
+ * @param {NavTreeNode[]} nodes - The navigation tree
+ * @param {NavTreeFilterOptions} [options] - Permission, feature flag and custom checks
+ * @param {NavTreeNode[]} [ancestors] - The ancestors of the nodes, used when recursing
+ * @returns {NavTreeNode[]} - The visible nodes
+ *
+ * @example
+ * const visible = filterNavTree(tree, {
+ *   hasPermission: (permission) => user.permissions.includes(permission),
+ *   isFeatureEnabled: (flag) => flags[flag] === true
+ * });
+ */
+export const filterNavTree = <Node extends NavTreeNode>(
+    nodes: Node[],
+    options: NavTreeFilterOptions<Node> = {},
+    ancestors: Node[] = []
+): Node[] => {
+    return nodes.reduce<Node[]>((visible, node) => {
+        if (!isNavTreeNodeVisible(node, ancestors, options)) return visible;
+        if (!node.children) return visible.concat(node);
+
+        const children = filterNavTree(node.children as Node[], options, ancestors.concat(node));
+        if (children.length === 0 && !node.to) return visible;
+
+        return visible.concat({ ...node, children });
+    }, []);
+};
+
+/**
+ * Resolves the URL and active state of every node of a navigation tree against a location
+ * @param {NavTreeNode[]} nodes - The navigation tree
+ * @param {NavLocation | undefined} location - The current location
+ * @param {LocationMatchOptions} [options] - Default match mode and options; each node's linkProps override them
+ * @param {string} [parentKey] - Key of the parent node, used when recursing
+ * @param {number} [depth] - Depth of the nodes, used when recursing
+ * @returns {NavTreeItem[]} - The resolved nodes
+ *
+ * @example
+ * const items = resolveNavTree(tree, { pathname: '/settings/billing' }, { matchMode: 'startsWith' });
+ * // items[1].isAnyChildActive === true for the Settings section
+ */
+export const resolveNavTree = <Node extends NavTreeNode>(
+    nodes: Node[],
+    location: NavLocation | undefined,
+    options: LocationMatchOptions = {},
+    parentKey = '',
+    depth = 0
+): NavTreeItem<Node>[] => {
+    return nodes.map((node, index) => {
+        const key = node.id ?? (parentKey ? `${parentKey}.${index}` : String(index));
+        const children = node.children
+            ? resolveNavTree(node.children as Node[], location, options, key, depth + 1)
+            : [];
+
+        const linkProps = node.linkProps || {};
+        const href = node.to
+            ? buildHref(node.to, {
+                params: linkProps.params,
+                search: linkProps.search,
+                hash: linkProps.hash,
+                preserveSearch: linkProps.preserveSearch,
+                currentSearch: location?.search
+            })
+            : undefined;
+
+        const isActive = !!href && matchLocation(href, location, {
+            matchMode: linkProps.matchMode ?? options.matchMode,
+            matchPattern: linkProps.matchPattern,
+            matchOptions: { ...options.matchOptions, ...linkProps.matchOptions },
+            activeMatchers: options.activeMatchers,
+            customActiveUrl: linkProps.customActiveUrl,
+            routeParams: linkProps.routeParams,
+            isActiveFunc: linkProps.isActiveFunc
+        }).isActive;
+
+        return {
+            key,
+            node,
+            depth,
+            href,
+            isActive,
+            isAnyChildActive: children.some((child) => child.isActive || child.isAnyChildActive),
+            children
+        };
+    });
+};
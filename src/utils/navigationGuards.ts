@@ -0,0 +1,71 @@
+import { NavigationAttempt, NavigationGuard, NavigationGuardRegistry } from '../types';
+
+/**
+ * Creates a registry of navigation guards
+ *
+ * @param {() => NavigationGuard[]} [getBaseGuards] - Returns guards that run before the registered ones,
+ * e.g. the beforeNavigate guards of a NavLinkProvider
+ * @returns {NavigationGuardRegistry} - The guard registry
+ *
+ * @example
+ * const registry = createNavigationGuardRegistry();
+ * const unregister = registry.register(({ to }) => to !== '/admin');
+ */
+export const createNavigationGuardRegistry = (
+    getBaseGuards: () => NavigationGuard[] = () => []
+): NavigationGuardRegistry => {
+    const guards: NavigationGuard[] = [];
+
+    const register: NavigationGuardRegistry['register'] = (guard) => {
+        guards.push(guard);
+        return () => {
+            const index = guards.indexOf(guard);
+            if (index !== -1) guards.splice(index, 1);
+        };
+    };
+
+    const getGuards: NavigationGuardRegistry['getGuards'] = () => getBaseGuards().concat(guards);
+
+    return { register, getGuards };
+};
+
+/**
+ * The guard registry used by components outside a NavLinkProvider
+ */
+export const navigationGuards: NavigationGuardRegistry = createNavigationGuardRegistry();
+
+/**
+ * Runs navigation guards one after another. A guard returning `false` cancels the navigation;
+ * a guard returning a URL or `{ to, replace }` redirects it, and the remaining guards see the redirect.
+ * A guard that throws cancels the navigation
+ *
+ * @param {NavigationGuard[]} guards - The guards to run, in order
+ * @param {NavigationAttempt} navigation - The navigation about to happen
+ * @returns {Promise<NavigationAttempt | null>} - The navigation to perform, or null if it was cancelled
+ *
+ * @example
+ * const navigation = await runNavigationGuards(guards, { from: location, to: '/settings', replace: false });
+ * if (navigation) navigate(navigation.to, { replace: navigation.replace });
+ */
+export const runNavigationGuards = (
+    guards: NavigationGuard[],
+    navigation: NavigationAttempt
+): Promise<NavigationAttempt | null> => {
+    return guards.reduce<Promise<NavigationAttempt | null>>((previous, guard) => previous.then((current) => {
+        if (!current) return null;
+
+        return Promise.resolve(guard(current)).then((result) => {
+            if (result === false) return null;
+            if (typeof result === 'string') return { ...current, to: result };
+            if (result && typeof result === 'object') {
+                return { ...current, to: result.to, replace: result.replace ?? current.replace };
+            }
+            return current;
+        });
+    }), Promise.resolve(navigation)).catch((error) => {
+        if (process.env.NODE_ENV !== 'production') {
+            console.error(`Navigation guard failed, cancelling the navigation to ${navigation.to}:`, error);
+        }
+        return null;
+    });
+};
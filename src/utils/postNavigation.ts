@@ -0,0 +1,69 @@
+import { NavigationScrollBehavior, PostNavigationOptions } from '../types';
+import { parsePath } from './matchers';
+
+/**
+ * Default post-navigation behavior: focus the main landmark, scroll to the top or the hash
+ * target, and restore scroll positions on back and forward
+ */
+export const defaultPostNavigationOptions: Required<PostNavigationOptions> = {
+    focusTarget: 'main, [role="main"]',
+    scroll: true,
+    scrollBehavior: 'auto',
+    restoreScroll: true
+};
+
+/**
+ * Finds the element the hash of a URL points to: the element with that id, or the anchor with that name
+ * @param {string} url - The URL
+ * @returns {HTMLElement | null} - The element, or null when the URL has no hash or nothing matches
+ *
+ * @example
+ * getHashTarget('/docs#install'); // <h2 id="install">
+ */
+export const getHashTarget = (url: string): HTMLElement | null => {
+    const { hash } = parsePath(url);
+    if (hash.length <= 1) return null;
+
+    let id = hash.slice(1);
+    try {
+        id = decodeURIComponent(id);
+    } catch (error) {
+        // Keep malformed fragments as they are
+    }
+
+    return document.getElementById(id) || (document.getElementsByName(id)[0] as HTMLElement | undefined) || null;
+};
+
+/**
+ * Moves focus to an element without scrolling to it. Elements that can't take focus, such as
+ * `<main>`, get tabindex="-1", so they can be focused without joining the tab order
+ * @param {HTMLElement} element - The element to focus
+ */
+export const focusElement = (element: HTMLElement): void => {
+    if (element.tabIndex < 0 && !element.hasAttribute('tabindex')) {
+        element.setAttribute('tabindex', '-1');
+    }
+    element.focus({ preventScroll: true });
+};
+
+/**
+ * Scrolls the window to a position
+ * @param {number} left - The horizontal position
+ * @param {number} top - The vertical position
+ * @param {NavigationScrollBehavior} behavior - How to scroll
+ */
+export const scrollWindowTo = (left: number, top: number, behavior: NavigationScrollBehavior): void => {
+    // 'instant' is missing from older DOM typings
+    window.scrollTo({ left, top, behavior: behavior as ScrollBehavior });
+};
+
+/**
+ * Reads the key identifying the current history entry: the key routers such as React Router and
+ * TanStack Router store in history.state, or the URL for entries without one
+ * @returns {string} - The key
+ */
+export const getHistoryEntryKey = (): string => {
+    const state = window.history.state;
+    const key = state && typeof state === 'object' ? state.key || state.__TSR_key : undefined;
+    return typeof key === 'string' ? `key:${key}` : `url:${window.location.href}`;
+};
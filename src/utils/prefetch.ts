@@ -1,4 +1,4 @@
-import { PrefetchOptions, RouterType } from '../types';
+import { PrefetchFunction, PrefetchOptions, PrefetchStrategy, RouterType } from '../types';
 
 /**
  * Default prefetch options
@@ -9,61 +9,134 @@ export const defaultPrefetchOptions: PrefetchOptions = {
     routerType: 'react-router'
 };
 
+/**
+ * Prefetch strategies used when PrefetchOptions has no strategy
+ */
+export const defaultPrefetchStrategies: PrefetchStrategy[] = ['hover', 'focus'];
+
+/**
+ * Resolves the strategy option of PrefetchOptions into a list of strategies
+ * @param {PrefetchStrategy | PrefetchStrategy[] | undefined} strategy - The strategy option
+ * @returns {PrefetchStrategy[]} - The prefetch strategies
+ *
+ * @example
+ * resolvePrefetchStrategies('viewport'); // ['viewport']
+ * resolvePrefetchStrategies(undefined); // ['hover', 'focus']
+ */
+export const resolvePrefetchStrategies = (
+    strategy: PrefetchStrategy | PrefetchStrategy[] | undefined
+): PrefetchStrategy[] => {
+    if (strategy === undefined) return defaultPrefetchStrategies;
+    return Array.isArray(strategy) ? strategy : [strategy];
+};
+
 /**
  * Normalized prefetch options from prop
  * @param {boolean | PrefetchOptions | undefined} prefetch - The prefetch prop value
+ * @param {PrefetchOptions} [defaults] - Defaults to merge under the prop, e.g. NavLinkProvider's prefetchDefaults
  * @returns {PrefetchOptions} - Normalized prefetch options
  */
-export const normalizePrefetchOptions = (prefetch: boolean | PrefetchOptions | undefined): PrefetchOptions => {
+export const normalizePrefetchOptions = (
+    prefetch: boolean | PrefetchOptions | undefined,
+    defaults: PrefetchOptions = defaultPrefetchOptions
+): PrefetchOptions => {
     if (typeof prefetch === 'boolean') {
-        return { ...defaultPrefetchOptions, enabled: prefetch };
+        return { ...defaultPrefetchOptions, ...defaults, enabled: prefetch };
+    }
+    if (prefetch === undefined) {
+        return { ...defaultPrefetchOptions, ...defaults };
+    }
+    // Passing an options object turns prefetching on unless it says otherwise
+    return { ...defaultPrefetchOptions, ...defaults, enabled: true, ...prefetch };
+};
+
+/**
+ * Link elements appended by prefetching, keyed by rel and href,
+ * so each URL gets a single prefetch tag and each origin a single preconnect
+ */
+const appendedLinks = new Map<string, HTMLLinkElement>();
+
+/**
+ * Appends a link element to the document head unless an identical one was already appended
+ * @param {string} rel - The link relation, e.g. 'prefetch'
+ * @param {string} href - The link target
+ * @param {string} [as] - The type of content being prefetched
+ */
+const appendLinkOnce = (rel: string, href: string, as?: string): void => {
+    const key = `${rel} ${href}`;
+    if (appendedLinks.has(key)) return;
+
+    const link = document.createElement('link');
+    link.rel = rel;
+    link.href = href;
+    if (as) link.as = as;
+    document.head.appendChild(link);
+    appendedLinks.set(key, link);
+};
+
+/**
+ * Removes the prefetch link element appended for a URL, e.g. when its prefetch cache entry is evicted
+ * @param {string} url - The prefetched URL
+ */
+export const removePrefetchLinks = (url: string): void => {
+    const key = `prefetch ${url}`;
+    const link = appendedLinks.get(key);
+    if (!link) return;
+
+    if (link.parentNode) {
+        link.parentNode.removeChild(link);
     }
-    return { ...defaultPrefetchOptions, ...prefetch };
+    appendedLinks.delete(key);
 };
 
 /**
- * Implementation of prefetch logic for different router libraries
+ * Implementation of prefetch logic for different router libraries.
+ * Custom and router prefetch functions may return a Promise, which the result waits for
  * @param {string} url - The URL to prefetch
  * @param {RouterType} routerType - The router library to use
  * @param {boolean} isExternal - Whether the URL is external
- * @param {any} routerContext - Router context for accessing router instance
- * @param {(to: string) => void} [customPrefetch] - Custom prefetch function
- * @returns {boolean} - Whether the prefetch was successful
+ * @param {any} routerContext - Router context for accessing the router instance or the adapter's prefetch function
+ * @param {PrefetchFunction} [customPrefetch] - Custom prefetch function
+ * @param {AbortSignal} [signal] - Signal passed to the prefetch function to abort the prefetch
+ * @returns {Promise<boolean>} - Resolves to whether the prefetch was successful; rejects if the prefetch function fails
  */
 export const executePrefetch = (
     url: string,
     routerType: RouterType,
     isExternal: boolean,
     routerContext?: any,
-    customPrefetch?: (to: string) => void
-): boolean => {
+    customPrefetch?: PrefetchFunction,
+    signal?: AbortSignal
+): Promise<boolean> => {
     // For external URLs, we can't prefetch
-    if (isExternal) return false;
+    if (isExternal || signal?.aborted) return Promise.resolve(false);
+
+    // Settle once a prefetch function returning a Promise does; sync errors reject as well
+    const settle = (prefetch: () => unknown) => new Promise((resolve) => resolve(prefetch())).then(() => true);
 
     if (routerType === 'custom' && customPrefetch) {
         // Use custom prefetch function if provided
-        customPrefetch(url);
-        return true;
+        return settle(() => customPrefetch(url, { signal }));
     }
 
+    if (routerContext?.prefetch) {
+        // Use the prefetch function supplied by the router adapter
+        return settle(() => routerContext.prefetch(url, { signal }));
+    }
+
+    let result: unknown;
+
     try {
         switch (routerType) {
             case 'react-router': {
-                // React Router v6 prefetching
-                // This is a simple implementation - React Router doesn't have official prefetching
-                // but we can preload the component by requesting the URL in the background
+                // Fallback for routers without a data router. With createReactRouterAdapter and a
+                // data router, the adapter's prefetch loads the route's lazy() module and loader
+                // data instead; this only requests the document in the background
                 const prefetchReactRouter = () => {
-                    const link = document.createElement('link');
-                    link.rel = 'prefetch';
-                    link.href = url;
-                    link.as = 'document';
-                    document.head.appendChild(link);
+                    appendLinkOnce('prefetch', url, 'document');
 
                     // Also try preconnect
-                    const preconnect = document.createElement('link');
-                    preconnect.rel = 'preconnect';
-                    preconnect.href = new URL(url, window.location.origin).origin;
-                    document.head.appendChild(preconnect);
+                    appendLinkOnce('preconnect', new URL(url, window.location.origin).origin);
                 };
 
                 prefetchReactRouter();
@@ -74,13 +147,13 @@ export const executePrefetch = (
                 // TanStack Router has built-in prefetching via the router instance
                 // Here we're assuming the router instance is available in the routerContext
                 if (routerContext?.router?.prefetch) {
-                    routerContext.router.prefetch(url);
+                    result = routerContext.router.prefetch(url);
                 } else if (window.TanStackRouter?.router?.prefetch) {
                     // Try to access it from global scope as fallback
-                    window.TanStackRouter.router.prefetch(url);
+                    result = window.TanStackRouter.router.prefetch(url);
                 } else {
                     console.warn('TanStack Router prefetch: router instance not found');
-                    return false;
+                    return Promise.resolve(false);
                 }
                 break;
             }
@@ -88,11 +161,7 @@ export const executePrefetch = (
             case 'wouter': {
                 // Wouter doesn't have built-in prefetching, so we implement similar to React Router
                 const prefetchWouter = () => {
-                    const link = document.createElement('link');
-                    link.rel = 'prefetch';
-                    link.href = url;
-                    link.as = 'document';
-                    document.head.appendChild(link);
+                    appendLinkOnce('prefetch', url, 'document');
                 };
 
                 prefetchWouter();
@@ -101,23 +170,67 @@ export const executePrefetch = (
 
             default:
                 // Fall back to basic prefetching for unknown router types
-                const link = document.createElement('link');
-                link.rel = 'prefetch';
-                link.href = url;
-                link.as = 'document';
-                document.head.appendChild(link);
+                appendLinkOnce('prefetch', url, 'document');
                 break;
         }
-
-        if (process.env.NODE_ENV !== 'production') {
-            console.log(`Prefetched: ${url} using ${routerType}`);
-        }
-
-        return true;
     } catch (error) {
         if (process.env.NODE_ENV !== 'production') {
             console.error(`Error prefetching ${url}:`, error);
         }
-        return false;
+        return Promise.resolve(false);
     }
-};
\ No newline at end of file
+
+    return settle(() => result).then(() => {
+        if (process.env.NODE_ENV !== 'production') {
+            console.log(`Prefetched: ${url} using ${routerType}`);
+        }
+        return true;
+    });
+};
+
+/**
+ * Default delay before retrying a failed prefetch: 1s, 2s, 4s... up to 30s
+ * @param {number} failures - The number of failed attempts so far
+ * @returns {number} - The delay (ms)
+ */
+export const defaultRetryDelay = (failures: number): number => Math.min(1000 * Math.pow(2, failures - 1), 30000);
+
+/**
+ * Runs a prefetch, retrying it with a backoff when it fails
+ * @param {() => Promise<T>} prefetch - Runs one attempt of the prefetch
+ * @param {object} [options] - Retry options
+ * @param {number} [options.retry=0] - Number of retries after the first attempt
+ * @param {number | ((failures: number) => number)} [options.retryDelay] - Delay before each retry (ms)
+ * @param {AbortSignal} [options.signal] - Stops retrying when aborted
+ * @returns {Promise<T>} - The result of the first successful attempt, or the last error
+ *
+ * @example
+ * retryPrefetch(() => fetch('/api/products'), { retry: 2, retryDelay: 500 });
+ */
+export const retryPrefetch = <T>(
+    prefetch: () => Promise<T>,
+    {
+        retry = 0,
+        retryDelay = defaultRetryDelay,
+        signal
+    }: Pick<PrefetchOptions, 'retry' | 'retryDelay'> & { signal?: AbortSignal } = {}
+): Promise<T> => {
+    const attempt = (failures: number): Promise<T> => prefetch().catch((error) => {
+        if (failures >= retry || signal?.aborted) throw error;
+
+        const delay = typeof retryDelay === 'function' ? retryDelay(failures + 1) : retryDelay;
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => {
+                clearTimeout(timeout);
+                reject(error);
+            };
+            const timeout = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(attempt(failures + 1));
+            }, delay);
+            signal?.addEventListener('abort', onAbort);
+        });
+    });
+
+    return attempt(0);
+};
@@ -0,0 +1,229 @@
+import { PrefetchCache, PrefetchCacheEntry, PrefetchCacheOptions, PrefetchCacheStatus } from '../types';
+import { cleanUrl, parsePath } from './matchers';
+
+/**
+ * Default prefetch cache options
+ */
+export const defaultPrefetchCacheOptions: Required<PrefetchCacheOptions> = {
+    ttl: 5 * 60 * 1000,
+    staleTime: 30 * 1000,
+    maxEntries: 100
+};
+
+/**
+ * An entry stored in a prefetch cache
+ * @interface StoredEntry
+ */
+interface StoredEntry {
+    status: PrefetchCacheStatus;
+    promise: Promise<boolean>;
+    createdAt: number;
+    completedAt?: number;
+    cleanup?: () => void;
+    controller?: AbortController;
+}
+
+/**
+ * Normalizes a URL into a prefetch cache key: the hash is dropped, the path is
+ * normalized and query params are sorted, so equivalent URLs share an entry
+ * @param {string} url - The URL to normalize
+ * @returns {string} - The cache key
+ *
+ * @example
+ * getPrefetchKey('/products/?b=2&a=1#reviews'); // '/products?a=1&b=2'
+ */
+export const getPrefetchKey = (url: string): string => {
+    const { pathname, search } = parsePath(url);
+    const params = new URLSearchParams(search);
+    const pairs: string[] = [];
+    params.forEach((value, key) => {
+        pairs.push(`${encodeURIComponent(key)}=${encodeURIComponent(value)}`);
+    });
+    pairs.sort();
+    return `${cleanUrl(pathname)}${pairs.length ? `?${pairs.join('&')}` : ''}`;
+};
+
+/**
+ * Creates a prefetch cache that deduplicates in-flight and completed prefetches by URL,
+ * with a time-to-live, a staleness window and a maximum entry count.
+ * An in-flight prefetch is aborted once every link that retained its URL has released it,
+ * and when it is evicted, invalidated or cleared
+ *
+ * @param {PrefetchCacheOptions} [options] - TTL, staleness and size options
+ * @returns {PrefetchCache} - The prefetch cache
+ *
+ * @example
+ * const cache = createPrefetchCache({ staleTime: 10000, maxEntries: 50 });
+ *
+ * <NavLinkProvider prefetchCache={cache}>
+ *   <App />
+ * </NavLinkProvider>
+ */
+export const createPrefetchCache = (options: PrefetchCacheOptions = {}): PrefetchCache => {
+    const { ttl, staleTime, maxEntries } = { ...defaultPrefetchCacheOptions, ...options };
+
+    // Map iteration order doubles as the least-recently-used order
+    const store = new Map<string, StoredEntry>();
+    const listeners = new Set<() => void>();
+
+    // Number of links retaining each key, kept apart from the entries so links can retain URLs not prefetched yet
+    const retainCounts = new Map<string, number>();
+
+    const notify = () => listeners.forEach((listener) => listener());
+
+    const snapshot = (key: string, entry: StoredEntry): PrefetchCacheEntry => ({
+        key,
+        status: entry.status,
+        createdAt: entry.createdAt,
+        completedAt: entry.completedAt,
+        isStale: entry.status !== 'pending' && Date.now() - (entry.completedAt || entry.createdAt) >= staleTime
+    });
+
+    const remove = (key: string) => {
+        const entry = store.get(key);
+        if (!entry) return false;
+        store.delete(key);
+        // An in-flight prefetch dropped by eviction, invalidate or clear must not keep running
+        if (entry.status === 'pending' && entry.controller) entry.controller.abort();
+        if (entry.cleanup) entry.cleanup();
+        return true;
+    };
+
+    const isExpired = (entry: StoredEntry) => (
+        entry.status !== 'pending' && Date.now() - (entry.completedAt || entry.createdAt) >= ttl
+    );
+
+    const pruneExpired = () => {
+        let changed = false;
+        store.forEach((entry, key) => {
+            if (isExpired(entry)) changed = remove(key) || changed;
+        });
+        return changed;
+    };
+
+    const prefetch: PrefetchCache['prefetch'] = (url, task, cleanup) => {
+        const key = getPrefetchKey(url);
+        pruneExpired();
+
+        const existing = store.get(key);
+        if (existing && (existing.status === 'pending' || !snapshot(key, existing).isStale)) {
+            // Mark as recently used
+            store.delete(key);
+            store.set(key, existing);
+            return existing.promise;
+        }
+
+        if (existing) remove(key);
+
+        const entry: StoredEntry = {
+            status: 'pending',
+            promise: Promise.resolve(false),
+            createdAt: Date.now(),
+            cleanup,
+            controller: typeof AbortController !== 'undefined' ? new AbortController() : undefined
+        };
+
+        entry.promise = new Promise<boolean>((resolve) => resolve(task(entry.controller?.signal))).then((success) => {
+            if (store.get(key) !== entry) return success;
+
+            if (success) {
+                entry.status = 'success';
+                entry.completedAt = Date.now();
+            } else {
+                // Let a failed prefetch be tried again
+                entry.status = 'error';
+                remove(key);
+            }
+            notify();
+            return success;
+        }, (error) => {
+            if (store.get(key) === entry) {
+                entry.status = 'error';
+                remove(key);
+                notify();
+            }
+            throw error;
+        });
+
+        store.set(key, entry);
+
+        while (store.size > maxEntries) {
+            const oldest = store.keys().next().value as string;
+            remove(oldest);
+        }
+
+        notify();
+        return entry.promise;
+    };
+
+    // Reads run during render, so expired entries are skipped here and pruned by prefetch and entries
+    const get: PrefetchCache['get'] = (url) => {
+        const key = getPrefetchKey(url);
+        const entry = store.get(key);
+        if (!entry || isExpired(entry)) return undefined;
+        return snapshot(key, entry);
+    };
+
+    const entries: PrefetchCache['entries'] = () => {
+        if (pruneExpired()) notify();
+        const result: PrefetchCacheEntry[] = [];
+        store.forEach((entry, key) => result.push(snapshot(key, entry)));
+        return result;
+    };
+
+    const invalidate: PrefetchCache['invalidate'] = (urlOrPredicate) => {
+        let changed = false;
+        if (typeof urlOrPredicate === 'string') {
+            changed = remove(getPrefetchKey(urlOrPredicate));
+        } else {
+            store.forEach((entry, key) => {
+                if (urlOrPredicate(snapshot(key, entry))) changed = remove(key) || changed;
+            });
+        }
+        if (changed) notify();
+    };
+
+    const clear: PrefetchCache['clear'] = () => {
+        if (store.size === 0) return;
+        store.forEach((entry, key) => remove(key));
+        notify();
+    };
+
+    const retain: PrefetchCache['retain'] = (url) => {
+        const key = getPrefetchKey(url);
+        retainCounts.set(key, (retainCounts.get(key) || 0) + 1);
+
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+
+            const count = (retainCounts.get(key) || 1) - 1;
+            if (count > 0) {
+                retainCounts.set(key, count);
+                return;
+            }
+            retainCounts.delete(key);
+
+            // The task sees the aborted signal and settles, which drops the entry so it can run again
+            const entry = store.get(key);
+            if (entry && entry.status === 'pending' && entry.controller) {
+                entry.controller.abort();
+            }
+        };
+    };
+
+    const subscribe: PrefetchCache['subscribe'] = (listener) => {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    };
+
+    return { prefetch, get, entries, invalidate, clear, retain, subscribe };
+};
+
+/**
+ * The prefetch cache shared by every link outside a NavLinkProvider with its own prefetchCache
+ */
+export const prefetchCache: PrefetchCache = createPrefetchCache();
@@ -0,0 +1,132 @@
+import { PrefetchQueue, PrefetchQueueOptions, PrefetchStrategy } from '../types';
+
+/**
+ * Default prefetch queue options
+ */
+export const defaultPrefetchQueueOptions: Required<PrefetchQueueOptions> = {
+    concurrency: 4,
+    respectSaveData: true,
+    slowConnectionTypes: ['slow-2g', '2g'],
+    slowConnectionConcurrency: 1
+};
+
+/**
+ * Priority of each prefetch strategy; waiting prefetches with a higher priority start first
+ */
+export const prefetchPriorities: Record<PrefetchStrategy, number> = {
+    hover: 4,
+    focus: 4,
+    render: 3,
+    viewport: 2,
+    idle: 1
+};
+
+/**
+ * The parts of the Network Information API used to throttle prefetching
+ * @interface NetworkInformationLike
+ */
+interface NetworkInformationLike {
+    saveData?: boolean;
+    effectiveType?: string;
+}
+
+/**
+ * A prefetch waiting in a queue
+ * @interface QueuedPrefetch
+ */
+interface QueuedPrefetch {
+    task: () => unknown;
+    strategy: PrefetchStrategy;
+    priority: number;
+}
+
+/**
+ * Reads navigator.connection, undefined where the Network Information API is not supported
+ * @returns {NetworkInformationLike | undefined} - The connection information
+ */
+const getConnection = (): NetworkInformationLike | undefined => {
+    if (typeof navigator === 'undefined') return undefined;
+    return (navigator as Navigator & { connection?: NetworkInformationLike }).connection;
+};
+
+/**
+ * Creates a queue that limits how many prefetches run at once, starts waiting prefetches
+ * by priority and holds prefetches back on data-saving or slow connections
+ *
+ * @param {PrefetchQueueOptions} [options] - Concurrency and network options
+ * @returns {PrefetchQueue} - The prefetch queue
+ *
+ * @example
+ * const queue = createPrefetchQueue({ concurrency: 2, slowConnectionTypes: ['slow-2g', '2g', '3g'] });
+ *
+ * <NavLinkProvider prefetchQueue={queue}>
+ *   <App />
+ * </NavLinkProvider>
+ */
+export const createPrefetchQueue = (options: PrefetchQueueOptions = {}): PrefetchQueue => {
+    const {
+        concurrency,
+        respectSaveData,
+        slowConnectionTypes,
+        slowConnectionConcurrency
+    } = { ...defaultPrefetchQueueOptions, ...options };
+
+    // Waiting prefetches, highest priority first, then in the order they were queued
+    const queue: QueuedPrefetch[] = [];
+    let running = 0;
+
+    const isSlowConnection = () => {
+        const effectiveType = getConnection()?.effectiveType;
+        return !!effectiveType && slowConnectionTypes.indexOf(effectiveType) !== -1;
+    };
+
+    const isAllowed: PrefetchQueue['isAllowed'] = (strategy) => {
+        if (respectSaveData && getConnection()?.saveData) return false;
+        if (isSlowConnection()) return prefetchPriorities[strategy] >= prefetchPriorities.hover;
+        return true;
+    };
+
+    const startNext = () => {
+        const limit = isSlowConnection() ? slowConnectionConcurrency : concurrency;
+
+        while (running < limit && queue.length > 0) {
+            const next = queue.shift()!;
+
+            // The connection may have changed while the prefetch waited
+            if (!isAllowed(next.strategy)) continue;
+
+            running++;
+            const done = () => {
+                running--;
+                startNext();
+            };
+            new Promise((resolve) => resolve(next.task())).then(done, done);
+        }
+    };
+
+    const schedule: PrefetchQueue['schedule'] = (task, strategy) => {
+        if (!isAllowed(strategy)) return () => undefined;
+
+        const queued: QueuedPrefetch = { task, strategy, priority: prefetchPriorities[strategy] };
+
+        let index = queue.length;
+        while (index > 0 && queue[index - 1].priority < queued.priority) index--;
+        queue.splice(index, 0, queued);
+
+        startNext();
+
+        return () => {
+            const position = queue.indexOf(queued);
+            if (position !== -1) queue.splice(position, 1);
+        };
+    };
+
+    const getState: PrefetchQueue['getState'] = () => ({ running, queued: queue.length });
+
+    return { schedule, isAllowed, getState };
+};
+
+/**
+ * The prefetch queue shared by every link outside a NavLinkProvider with its own prefetchQueue
+ */
+export const prefetchQueue: PrefetchQueue = createPrefetchQueue();
@@ -0,0 +1,214 @@
+import { parsePath } from './matchers';
+
+/**
+ * Arguments passed to a route loader
+ * @interface LoaderArgsLike
+ */
+export interface LoaderArgsLike {
+    request: Request;
+    params: Record<string, string | undefined>;
+    context?: unknown;
+}
+
+/**
+ * A route loader, as defined on React Router data routes
+ */
+export type LoaderLike = (args: LoaderArgsLike) => unknown;
+
+/**
+ * The parts of a React Router data route used for prefetching
+ * @interface DataRouteLike
+ */
+export interface DataRouteLike {
+    id?: string;
+    path?: string;
+    loader?: LoaderLike | boolean;
+    lazy?: (() => Promise<Record<string, unknown>>) | Record<string, () => Promise<unknown>>;
+    children?: DataRouteLike[];
+}
+
+/**
+ * A route match, as returned by React Router's `matchRoutes`
+ * @interface DataRouteMatchLike
+ */
+export interface DataRouteMatchLike {
+    route: DataRouteLike;
+    params: Record<string, string | undefined>;
+    pathname: string;
+}
+
+/**
+ * The parts of a React Router data router (`createBrowserRouter`, 6.4+ and 7) used for prefetching
+ * @interface DataRouterLike
+ */
+export interface DataRouterLike {
+    routes: DataRouteLike[];
+    basename?: string;
+}
+
+/**
+ * React Router's `matchRoutes`
+ */
+export type MatchRoutesLike = (routes: DataRouteLike[], location: string, basename?: string) => DataRouteMatchLike[] | null;
+
+/**
+ * Options for prefetching route data
+ * @interface RouteDataPrefetchOptions
+ */
+export interface RouteDataPrefetchOptions {
+    /**
+     * The data router created with `createBrowserRouter` or `createHashRouter`
+     */
+    router: DataRouterLike;
+
+    /**
+     * `matchRoutes` from react-router-dom
+     */
+    matchRoutes: MatchRoutesLike;
+
+    /**
+     * Whether to call the loaders of the matched routes as well as their lazy() imports.
+     * Loaders should be wrapped with `withPrefetchCache` so navigation can reuse the data
+     * @default false
+     */
+    loaders?: boolean;
+
+    /**
+     * Signal aborting the prefetch, passed on to the loaders' requests
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Requests created while prefetching, so cached loaders can tell them from navigations
+ */
+const prefetchRequests = new WeakSet<Request>();
+
+/**
+ * Resolved lazy() results, so each route module is only requested once
+ */
+const lazyResults = new WeakMap<DataRouteLike, Promise<Record<string, unknown>>>();
+
+/**
+ * Runs the lazy() import of a route, once per route
+ * @param {DataRouteLike} route - The route to resolve
+ * @returns {Promise<Record<string, unknown>>} - The properties returned by lazy()
+ */
+const resolveLazyRoute = (route: DataRouteLike): Promise<Record<string, unknown>> => {
+    const { lazy } = route;
+    if (!lazy) return Promise.resolve({});
+
+    let result = lazyResults.get(route);
+    if (!result) {
+        if (typeof lazy === 'function') {
+            result = lazy();
+        } else {
+            // React Router 7 also accepts an object of lazy properties
+            const keys = Object.keys(lazy);
+            result = Promise.all(keys.map((key) => lazy[key]())).then((values) => {
+                const resolved: Record<string, unknown> = {};
+                keys.forEach((key, index) => {
+                    resolved[key] = values[index];
+                });
+                return resolved;
+            });
+        }
+        // Let a failed import be retried on the next prefetch
+        result.catch(() => lazyResults.delete(route));
+        lazyResults.set(route, result);
+    }
+    return result;
+};
+
+/**
+ * Prefetches a URL with a React Router data router: resolves the routes matching `to`,
+ * runs their lazy() imports and optionally calls their loaders
+ *
+ * @param {string} to - The URL to prefetch, relative to the router's basename
+ * @param {RouteDataPrefetchOptions} options - The router, matchRoutes, whether to call loaders and an abort signal
+ * @returns {Promise<boolean>} - Whether any route matched
+ *
+ * @example
+ * import { matchRoutes } from 'react-router-dom';
+ *
+ * await prefetchRouteData('/projects/42', { router, matchRoutes, loaders: true });
+ */
+export const prefetchRouteData = (
+    to: string,
+    { router, matchRoutes, loaders = false, signal }: RouteDataPrefetchOptions
+): Promise<boolean> => {
+    const basename = router.basename && router.basename !== '/' ? router.basename.replace(/\/$/, '') : '';
+    const { pathname, search, hash } = parsePath(to);
+    const fullPath = `${basename}${pathname}`;
+
+    const matches = matchRoutes(router.routes, `${fullPath}${search}${hash}`, router.basename);
+    if (!matches || matches.length === 0) return Promise.resolve(false);
+
+    return Promise.all(matches.map((match) => resolveLazyRoute(match.route).then((lazyProps) => {
+        if (!loaders || signal?.aborted) return;
+
+        const loader = typeof lazyProps.loader === 'function'
+            ? lazyProps.loader as LoaderLike
+            : match.route.loader;
+        if (typeof loader !== 'function') return;
+
+        const request = new Request(new URL(`${fullPath}${search}`, window.location.origin).href, { signal });
+        prefetchRequests.add(request);
+        return loader({ request, params: match.params });
+    }))).then(() => true);
+};
+
+/**
+ * Cached loader results, keyed by loader and request URL
+ */
+const loaderCache = new WeakMap<LoaderLike, Map<string, { value: unknown; expiresAt: number }>>();
+
+/**
+ * Wraps a route loader so data loaded while prefetching is reused by the navigation that follows.
+ * A prefetched result is used once, and only while it is younger than `maxAge`
+ *
+ * @param {LoaderLike} loader - The route loader
+ * @param {object} [options] - Cache options
+ * @param {number} [options.maxAge=30000] - How long prefetched data stays usable (ms)
+ * @returns {LoaderLike} - The caching loader
+ *
+ * @example
+ * const router = createBrowserRouter([
+ *   { path: '/projects/:projectId', loader: withPrefetchCache(projectLoader), element: <Project /> }
+ * ]);
+ */
+export const withPrefetchCache = <T extends LoaderLike>(loader: T, { maxAge = 30000 }: { maxAge?: number } = {}): T => {
+    const cache = new Map<string, { value: unknown; expiresAt: number }>();
+
+    const cachedLoader = ((args: LoaderArgsLike) => {
+        const key = args.request.url.split('#')[0];
+        const entry = cache.get(key);
+
+        if (prefetchRequests.has(args.request)) {
+            if (entry && entry.expiresAt > Date.now()) return entry.value;
+
+            const value = loader(args);
+            cache.set(key, { value, expiresAt: Date.now() + maxAge });
+            Promise.resolve(value).catch(() => cache.delete(key));
+            return value;
+        }
+
+        // Navigation consumes the prefetched data; the next visit loads fresh data
+        cache.delete(key);
+        if (entry && entry.expiresAt > Date.now()) {
+            return entry.value;
+        }
+        return loader(args);
+    }) as T;
+
+    loaderCache.set(cachedLoader, cache);
+    return cachedLoader;
+};
+
+/**
+ * Clears the data prefetched for a loader wrapped with `withPrefetchCache`
+ * @param {LoaderLike} loader - The wrapped loader
+ */
+export const clearPrefetchCache = (loader: LoaderLike): void => {
+    loaderCache.get(loader)?.clear();
+};
@@ -0,0 +1,51 @@
+import { RouteDefinition, RouteParams, RouteParamValue, RouteSearchParams } from '../types';
+import { buildHref } from './matchers';
+
+/**
+ * Where to link within a route, without the typing of RouteLocation
+ * @interface RouteTarget
+ */
+export interface RouteTarget {
+    params?: Partial<Record<string, RouteParamValue>>;
+    search?: RouteSearchParams;
+    hash?: string;
+}
+
+/**
+ * Reads the pattern of a route definition
+ * @param {RouteDefinition} definition - A pattern, or a pattern with the type of its search params
+ * @returns {string} - The route pattern
+ */
+export const getRoutePattern = (definition: RouteDefinition): string => {
+    return typeof definition === 'string' ? definition : definition.path;
+};
+
+/**
+ * Builds the URL of a route from its params, search params and hash
+ * @param {RouteDefinition} definition - The route definition
+ * @param {RouteTarget} [target] - Params, search params and hash
+ * @returns {string} - The URL
+ *
+ * @example
+ * buildRouteHref('/users/:id', { params: { id: 42 }, search: { tab: 'posts' }, hash: 'latest' });
+ * // '/users/42?tab=posts#latest'
+ */
+export const buildRouteHref = (definition: RouteDefinition, target: RouteTarget = {}): string => {
+    const { params = {}, search, hash } = target;
+    // Always interpolate, so optional params without a value are left out of the path
+    return buildHref(getRoutePattern(definition), { params, search, hash });
+};
+
+/**
+ * Converts params to the strings matched against the current location, leaving out undefined values
+ * @param {Partial<Record<string, RouteParamValue>>} [params] - The params of a link
+ * @returns {RouteParams} - The params as strings
+ */
+export const stringifyRouteParams = (params: Partial<Record<string, RouteParamValue>> = {}): RouteParams => {
+    const stringified: RouteParams = {};
+    Object.keys(params).forEach((key) => {
+        const value = params[key];
+        if (value !== undefined) stringified[key] = String(value);
+    });
+    return stringified;
+};
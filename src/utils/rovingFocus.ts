@@ -0,0 +1,117 @@
+import { RovingOrientation } from '../types';
+
+/**
+ * Options for moving focus within a roving group
+ * @interface RovingMoveOptions
+ */
+export interface RovingMoveOptions {
+    orientation: RovingOrientation;
+    loop?: boolean;
+    columns?: number;
+    rtl?: boolean;
+    ctrlKey?: boolean;
+}
+
+/**
+ * Moves an index by a step, wrapping around or stopping at the ends
+ * @param {number} index - The current index
+ * @param {number} step - The step, negative to move back
+ * @param {number} count - The number of items
+ * @param {boolean} loop - Whether to wrap around
+ * @returns {number} - The new index
+ */
+const moveIndex = (index: number, step: number, count: number, loop: boolean): number => {
+    const next = index + step;
+    if (loop) return (next + count) % count;
+    return Math.min(Math.max(next, 0), count - 1);
+};
+
+/**
+ * Computes which item of a roving group a key moves focus to, following the WAI-ARIA
+ * keyboard patterns: arrow keys along the orientation, Home and End to the first and
+ * last items, and in a grid, up and down by a row and Home and End within the row
+ * (with Ctrl, to the first and last items)
+ * @param {string} key - The key pressed, e.g. 'ArrowRight'
+ * @param {number} index - The index of the focused item
+ * @param {number} count - The number of focusable items
+ * @param {RovingMoveOptions} options - Orientation, wrapping, columns and text direction
+ * @returns {number | null} - The index of the item to focus, or null if the key doesn't move focus
+ *
+ * @example
+ * getRovingTargetIndex('ArrowRight', 2, 3, { orientation: 'horizontal' }); // 0
+ * getRovingTargetIndex('ArrowDown', 1, 6, { orientation: 'grid', columns: 3 }); // 4
+ */
+export const getRovingTargetIndex = (
+    key: string,
+    index: number,
+    count: number,
+    options: RovingMoveOptions
+): number | null => {
+    if (count === 0) return null;
+
+    const { orientation, loop = true, rtl = false, ctrlKey = false } = options;
+    const columns = Math.max(1, options.columns || 1);
+    const forwardKey = rtl ? 'ArrowLeft' : 'ArrowRight';
+    const backwardKey = rtl ? 'ArrowRight' : 'ArrowLeft';
+
+    if (orientation === 'grid') {
+        const rowStart = index - (index % columns);
+        switch (key) {
+            case forwardKey:
+                return moveIndex(index, 1, count, loop);
+            case backwardKey:
+                return moveIndex(index, -1, count, loop);
+            case 'ArrowDown':
+                return index + columns < count ? index + columns : index;
+            case 'ArrowUp':
+                return index - columns >= 0 ? index - columns : index;
+            case 'Home':
+                return ctrlKey ? 0 : rowStart;
+            case 'End':
+                return ctrlKey ? count - 1 : Math.min(rowStart + columns, count) - 1;
+            default:
+                return null;
+        }
+    }
+
+    const nextKey = orientation === 'horizontal' ? forwardKey : 'ArrowDown';
+    const previousKey = orientation === 'horizontal' ? backwardKey : 'ArrowUp';
+
+    switch (key) {
+        case nextKey:
+            return moveIndex(index, 1, count, loop);
+        case previousKey:
+            return moveIndex(index, -1, count, loop);
+        case 'Home':
+            return 0;
+        case 'End':
+            return count - 1;
+        default:
+            return null;
+    }
+};
+
+/**
+ * Finds the next item whose text starts with the typed characters, starting after the focused
+ * item. Repeating a single character cycles through the items starting with it
+ * @param {string[]} labels - The text of the items
+ * @param {number} index - The index of the focused item
+ * @param {string} search - The characters typed so far
+ * @returns {number | null} - The index of the matching item, or null if there is none
+ *
+ * @example
+ * getTypeaheadIndex(['Home', 'Pricing', 'Blog'], 0, 'p'); // 1
+ */
+export const getTypeaheadIndex = (labels: string[], index: number, search: string): number | null => {
+    const normalizedSearch = search.toLowerCase();
+    const isRepeatedCharacter = normalizedSearch.split('').every((character) => character === normalizedSearch[0]);
+    const query = isRepeatedCharacter ? normalizedSearch[0] : normalizedSearch;
+
+    // A longer search can still match the focused item; a single character moves on
+    const start = query.length > 1 ? index : index + 1;
+    for (let offset = 0; offset < labels.length; offset++) {
+        const candidate = (start + offset) % labels.length;
+        if (labels[candidate].trim().toLowerCase().indexOf(query) === 0) return candidate;
+    }
+    return null;
+};
@@ -0,0 +1,162 @@
+import { ViewTransitionOptions } from '../types';
+
+/**
+ * The parts of a ViewTransition used by links, missing from older DOM typings
+ * @interface ViewTransitionLike
+ */
+interface ViewTransitionLike {
+    finished: Promise<void>;
+    updateCallbackDone: Promise<void>;
+}
+
+/**
+ * `document.startViewTransition`, taking an update callback or, in newer browsers, options with types
+ */
+type StartViewTransition = (
+    update: (() => void | Promise<void>) | { update: () => void | Promise<void>; types?: string[] }
+) => ViewTransitionLike;
+
+/**
+ * Attribute of the root element listing the types of the running transition, for CSS
+ */
+const typesAttribute = 'data-view-transition';
+
+/**
+ * Reads `document.startViewTransition` when the browser supports view transitions
+ * @returns {StartViewTransition | undefined} - The function bound to the document, or undefined
+ */
+const getStartViewTransition = (): StartViewTransition | undefined => {
+    if (typeof document === 'undefined') return undefined;
+    const start = (document as Document & { startViewTransition?: StartViewTransition }).startViewTransition;
+    return typeof start === 'function' ? start.bind(document) : undefined;
+};
+
+/**
+ * Checks if the browser supports view transitions
+ * @returns {boolean} - Whether `document.startViewTransition` is available
+ */
+export const supportsViewTransitions = (): boolean => !!getStartViewTransition();
+
+/**
+ * Checks if the browser accepts transition types in `document.startViewTransition`
+ * @returns {boolean} - Whether transition types are supported
+ */
+const supportsTransitionTypes = (): boolean => {
+    const ViewTransition = (window as Window & { ViewTransition?: { prototype: object } }).ViewTransition;
+    return !!ViewTransition && 'types' in ViewTransition.prototype;
+};
+
+/**
+ * Normalizes a viewTransition prop or provider option to options
+ * @param {boolean | ViewTransitionOptions | undefined} option - The option
+ * @returns {ViewTransitionOptions | undefined} - The options, undefined when not set
+ */
+const toViewTransitionOptions = (option?: boolean | ViewTransitionOptions): ViewTransitionOptions | undefined => {
+    if (option === undefined) return undefined;
+    if (typeof option === 'boolean') return { enabled: option };
+    return option;
+};
+
+/**
+ * Resolves the view transition of a link from its viewTransition prop, merged over the provider's option
+ * @param {boolean | ViewTransitionOptions} [linkOption] - The link's viewTransition prop
+ * @param {boolean | ViewTransitionOptions} [providerOption] - The provider's viewTransition option
+ * @returns {ViewTransitionOptions | null} - The options, or null when the link doesn't use view transitions
+ *
+ * @example
+ * resolveViewTransition({ direction: 'back' }, { activeName: 'nav-active' });
+ * // { activeName: 'nav-active', direction: 'back' }
+ * resolveViewTransition(false, true); // null
+ */
+export const resolveViewTransition = (
+    linkOption?: boolean | ViewTransitionOptions,
+    providerOption?: boolean | ViewTransitionOptions
+): ViewTransitionOptions | null => {
+    const linkOptions = toViewTransitionOptions(linkOption);
+    const providerOptions = toViewTransitionOptions(providerOption);
+    if (!linkOptions && !providerOptions) return null;
+
+    const { enabled = true, ...options } = { ...providerOptions, ...linkOptions };
+    return enabled ? options : null;
+};
+
+/**
+ * Lists the types of a transition, its direction last
+ * @param {ViewTransitionOptions} options - The transition options
+ * @returns {string[]} - The types
+ *
+ * @example
+ * getViewTransitionTypes({ types: ['slide'], direction: 'back' }); // ['slide', 'back']
+ */
+export const getViewTransitionTypes = (options: ViewTransitionOptions): string[] => {
+    const types = options.types ? options.types.slice() : [];
+    if (options.direction && types.indexOf(options.direction) === -1) {
+        types.push(options.direction);
+    }
+    return types;
+};
+
+/**
+ * Runs a navigation in a view transition. The clicked link gets the transition's name in the
+ * old page, and the root element lists its types in data-view-transition until it finishes.
+ * Without view transitions support, the navigation runs right away
+ * @param {() => void | Promise<void>} update - Navigates, updating the DOM synchronously or by the returned promise,
+ * e.g. once the router has rendered the new location
+ * @param {ViewTransitionOptions} options - The transition options
+ * @param {HTMLElement | null} [element] - The clicked link
+ * @returns {Promise<void>} - Resolves once the navigation has run, rejects if it throws
+ *
+ * @example
+ * startNavigationTransition(() => {
+ *     flushSync(() => navigate('/photos/1'));
+ * }, { name: 'photo' }, linkElement);
+ */
+export const startNavigationTransition = (
+    update: () => void | Promise<void>,
+    options: ViewTransitionOptions,
+    element?: HTMLElement | null
+): Promise<void> => {
+    const startViewTransition = getStartViewTransition();
+    if (!startViewTransition) {
+        return new Promise<void>((resolve) => resolve(update()));
+    }
+
+    const root = document.documentElement;
+    const types = getViewTransitionTypes(options);
+    const { name } = options;
+
+    // The link may already have a name, e.g. the active name of an active link
+    const previousName = element ? element.style.getPropertyValue('view-transition-name') : '';
+    if (element && name) {
+        element.style.setProperty('view-transition-name', name);
+    }
+    if (types.length > 0) {
+        root.setAttribute(typesAttribute, types.join(' '));
+    }
+
+    // The old page is captured by now, so the name can move to the element of the new page
+    const runUpdate = () => {
+        if (element && name) {
+            if (previousName) {
+                element.style.setProperty('view-transition-name', previousName);
+            } else {
+                element.style.removeProperty('view-transition-name');
+            }
+        }
+        return update();
+    };
+
+    const transition = types.length > 0 && supportsTransitionTypes()
+        ? startViewTransition({ update: runUpdate, types })
+        : startViewTransition(runUpdate);
+
+    // Leave the types of a newer transition in place
+    const cleanUp = () => {
+        if (types.length > 0 && root.getAttribute(typesAttribute) === types.join(' ')) {
+            root.removeAttribute(typesAttribute);
+        }
+    };
+    transition.finished.then(cleanUp, cleanUp);
+
+    return transition.updateCallbackDone;
+};
@@ -0,0 +1,17 @@
+import React from 'react';
+
+/**
+ * Hides content visually while keeping it available to screen readers,
+ * e.g. the new-tab label of outbound links and the navigation announcer
+ */
+export const visuallyHiddenStyle: React.CSSProperties = {
+    position: 'absolute',
+    width: 1,
+    height: 1,
+    padding: 0,
+    margin: -1,
+    overflow: 'hidden',
+    clip: 'rect(0, 0, 0, 0)',
+    whiteSpace: 'nowrap',
+    border: 0
+};
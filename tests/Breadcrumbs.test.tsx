@@ -0,0 +1,41 @@
+/**
+ * @file tests/Breadcrumbs.test.tsx
+ * @description Render tests for breadcrumbs derived from the current location
+ */
+
+import React from 'react';
+import { screen, within } from '@testing-library/react';
+import { Breadcrumbs } from '../src/Breadcrumbs';
+import { renderAt } from './utils/renderAt';
+
+describe('Breadcrumbs', () => {
+    test('should link the ancestors and mark the current page', () => {
+        renderAt('/users/42/edit', (
+            <Breadcrumbs routes={{ '/users': 'People', '/users/:id': ({ id }) => `User ${id}`, '/users/:id/edit': 'Edit' }} />
+        ));
+
+        const nav = screen.getByRole('navigation', { name: 'Breadcrumb' });
+        const links = within(nav).getAllByRole('link');
+        expect(links.map((link) => link.textContent)).toEqual(['Home', 'People', 'User 42']);
+        expect(links.map((link) => link.getAttribute('href'))).toEqual(['/', '/users', '/users/42']);
+        expect(links.some((link) => link.getAttribute('data-active') === 'true')).toBe(false);
+        expect(screen.getByText('Edit').getAttribute('aria-current')).toBe('page');
+    });
+
+    test('should show labels loaded asynchronously once they resolve', async () => {
+        renderAt('/users/42', (
+            <Breadcrumbs includeHome={false} routes={{ '/users/:id': ({ id }) => Promise.resolve(`User ${id}`) }} />
+        ));
+
+        expect(await screen.findByText('User 42')).toBeTruthy();
+        expect(screen.getByText('User 42').closest('li')?.hasAttribute('aria-busy')).toBe(false);
+    });
+
+    test('should leave the separator out after the last crumb', () => {
+        renderAt('/docs/api', <Breadcrumbs separator="›" />);
+
+        const items = screen.getAllByRole('listitem');
+        expect(items).toHaveLength(3);
+        expect(items.map((item) => item.querySelector('[aria-hidden="true"]')?.textContent)).toEqual(['›', '›', undefined]);
+    });
+});
@@ -0,0 +1,68 @@
+/**
+ * @file tests/NavGroup.test.tsx
+ * @description Render tests for collapsible groups of links
+ */
+
+import React from 'react';
+import { fireEvent, screen } from '@testing-library/react';
+import { NavGroup } from '../src/NavGroup';
+import { NavPlus } from '../src/NavPlus';
+import { renderAt } from './utils/renderAt';
+
+describe('NavGroup', () => {
+    test('should expand when one of its links is active', () => {
+        const onExpandedChange = jest.fn();
+        const { container } = renderAt('/billing', (
+            <NavGroup label="Settings" id="settings" onExpandedChange={onExpandedChange}>
+                <NavPlus to="/account">Account</NavPlus>
+                <NavPlus to="/billing">Billing</NavPlus>
+            </NavGroup>
+        ));
+
+        const toggle = screen.getByRole('button', { name: 'Settings' });
+        expect(toggle.getAttribute('aria-expanded')).toBe('true');
+        expect(toggle.getAttribute('aria-controls')).toBe('settings-content');
+        expect(container.querySelector('#settings-content')?.hasAttribute('hidden')).toBe(false);
+        expect(container.querySelector('#settings')?.getAttribute('data-active')).toBe('true');
+        expect(onExpandedChange).toHaveBeenCalledWith(true);
+    });
+
+    test('should stay collapsed without an active link', () => {
+        const { container } = renderAt('/reports', (
+            <NavGroup label="Settings" id="settings">
+                <NavPlus to="/account">Account</NavPlus>
+            </NavGroup>
+        ));
+
+        expect(screen.getByRole('button', { name: 'Settings' }).getAttribute('aria-expanded')).toBe('false');
+        expect(container.querySelector('#settings')?.getAttribute('data-active')).toBe('false');
+    });
+
+    test('should let an auto-expanded group be collapsed by hand', () => {
+        renderAt('/billing', (
+            <NavGroup label="Settings">
+                <NavPlus to="/billing">Billing</NavPlus>
+            </NavGroup>
+        ));
+
+        const toggle = screen.getByRole('button', { name: 'Settings' });
+        fireEvent.click(toggle);
+
+        expect(toggle.getAttribute('aria-expanded')).toBe('false');
+        expect(document.getElementById(toggle.getAttribute('aria-controls') || '')?.hasAttribute('hidden')).toBe(true);
+    });
+
+    test('should count nested groups as active for their parent', () => {
+        const { container } = renderAt('/invoices', (
+            <NavGroup label="Settings" id="settings">
+                <NavGroup label="Billing" id="billing">
+                    <NavPlus to="/invoices">Invoices</NavPlus>
+                </NavGroup>
+            </NavGroup>
+        ));
+
+        expect(container.querySelector('#settings')?.getAttribute('data-active')).toBe('true');
+        expect(screen.getByRole('button', { name: 'Settings' }).getAttribute('aria-expanded')).toBe('true');
+        expect(screen.getByRole('button', { name: 'Billing' }).getAttribute('aria-expanded')).toBe('true');
+    });
+});
@@ -0,0 +1,58 @@
+/**
+ * @file tests/NavIndicator.test.tsx
+ * @description Render tests for the indicator following the active link
+ */
+
+import React from 'react';
+import { fireEvent, screen, waitFor } from '@testing-library/react';
+import { NavIndicator } from '../src/NavIndicator';
+import { NavGroup } from '../src/NavGroup';
+import { NavPlus } from '../src/NavPlus';
+import { renderAt } from './utils/renderAt';
+
+const indicatorTarget = () => screen.getByTestId('indicator-target').textContent;
+
+describe('NavIndicator', () => {
+    const navigation = (
+        <nav style={{ position: 'relative' }}>
+            <NavPlus to="/">Home</NavPlus>
+            <NavGroup label="Settings" id="settings">
+                <NavPlus to="/settings/account">Account</NavPlus>
+                <NavGroup label="Billing" id="billing">
+                    <NavPlus to="/settings/billing">Invoices</NavPlus>
+                </NavGroup>
+            </NavGroup>
+            <NavIndicator>
+                {({ activeElement }) => <span data-testid="indicator-target">{activeElement?.textContent}</span>}
+            </NavIndicator>
+        </nav>
+    );
+
+    test('should be placed over the active link, not its groups or a root link', () => {
+        renderAt('/settings/billing', navigation);
+
+        expect(indicatorTarget()).toBe('Invoices');
+        expect(screen.getByTestId('indicator-target').parentElement?.getAttribute('data-visible')).toBe('true');
+    });
+
+    test('should follow the active link', async () => {
+        renderAt('/settings/billing', navigation);
+
+        fireEvent.click(screen.getByRole('link', { name: 'Account' }));
+        await waitFor(() => expect(indicatorTarget()).toBe('Account'));
+
+        fireEvent.click(screen.getByRole('link', { name: 'Home' }));
+        await waitFor(() => expect(indicatorTarget()).toBe('Home'));
+    });
+
+    test('should be hidden without an active link', () => {
+        renderAt('/reports', (
+            <nav>
+                <NavPlus to="/settings">Settings</NavPlus>
+                <NavIndicator data-testid="indicator" />
+            </nav>
+        ));
+
+        expect(screen.getByTestId('indicator').getAttribute('data-visible')).toBe('false');
+    });
+});
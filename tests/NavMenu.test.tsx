@@ -0,0 +1,77 @@
+/**
+ * @file tests/NavMenu.test.tsx
+ * @description Render tests for navigation trees rendered as nested lists of links
+ */
+
+import React from 'react';
+import { screen } from '@testing-library/react';
+import { NavMenu } from '../src/NavMenu';
+import { NavTreeNode } from '../src/types';
+import { renderAt } from './utils/renderAt';
+
+const tree: NavTreeNode[] = [
+    { id: 'home', label: 'Home', to: '/', linkProps: { matchMode: 'exact' } },
+    {
+        id: 'reports',
+        label: 'Reports',
+        children: [
+            { label: 'Weekly', to: '/reports/weekly' },
+            { label: 'Exports', to: '/exports', permissions: ['reports:export'] }
+        ]
+    },
+    { id: 'beta', label: 'Beta', to: '/beta', featureFlag: 'beta' }
+];
+
+describe('NavMenu', () => {
+    test('should render the nodes the user may see as nested lists of links', () => {
+        renderAt('/', (
+            <NavMenu
+                items={tree}
+                aria-label="Main"
+                hasPermission={() => false}
+                isFeatureEnabled={(flag) => flag === 'beta'}
+            />
+        ));
+
+        const nav = screen.getByRole('navigation', { name: 'Main' });
+        expect(nav.querySelectorAll('a')).toHaveLength(3);
+        expect(screen.getByRole('link', { name: 'Beta' }).getAttribute('href')).toBe('/beta');
+        expect(screen.queryByText('Exports')).toBeNull();
+    });
+
+    test('should mark the item of the active link and expand its section', () => {
+        renderAt('/reports/weekly', <NavMenu items={tree} />);
+
+        const weekly = screen.getByRole('link', { name: 'Weekly' });
+        expect(weekly.getAttribute('data-active')).toBe('true');
+        expect(weekly.closest('li')?.getAttribute('data-active')).toBe('true');
+        expect(screen.getByRole('link', { name: 'Home' }).closest('li')?.getAttribute('data-active')).toBe('false');
+
+        const toggle = screen.getByRole('button', { name: 'Reports' });
+        expect(toggle.getAttribute('aria-expanded')).toBe('true');
+        expect(toggle.closest('li')?.getAttribute('data-active')).toBe('true');
+    });
+
+    test('should collapse sections without an active link', () => {
+        renderAt('/', <NavMenu items={tree} />);
+
+        const toggle = screen.getByRole('button', { name: 'Reports' });
+        expect(toggle.getAttribute('aria-expanded')).toBe('false');
+        expect(document.getElementById(toggle.getAttribute('aria-controls') || '')?.hasAttribute('hidden')).toBe(true);
+    });
+
+    test('should name the toggle of sections whose label is not a string', () => {
+        renderAt('/', (
+            <NavMenu
+                items={[
+                    { label: <strong>Docs</strong>, to: '/docs', children: [{ label: 'Guides', to: '/docs/guides' }] },
+                    { label: <em>API</em>, to: '/api', toggleLabel: 'Show the API pages', children: [{ label: 'Hooks', to: '/api/hooks' }] }
+                ]}
+            />
+        ));
+
+        const docsToggle = screen.getByRole('button', { name: 'Docs' });
+        expect(docsToggle.getAttribute('aria-labelledby')).toBe(screen.getByRole('link', { name: 'Docs' }).id);
+        expect(screen.getByRole('button', { name: 'Show the API pages' }).hasAttribute('aria-labelledby')).toBe(false);
+    });
+});
@@ -0,0 +1,311 @@
+/**
+ * @file tests/NavPlus.test.tsx
+ * @description Render tests for the navigation paths of NavPlus
+ */
+
+import React, { useEffect, useState } from 'react';
+import { fireEvent, screen, waitFor } from '@testing-library/react';
+import { NavPlus } from '../src/NavPlus';
+import { useNavLocation } from '../src/context/NavContext';
+import { useNavigationBlocker } from '../src/hooks/useNavigationBlocker';
+import { createNavEventBus } from '../src/utils/navEvents';
+import { NavEvent, NavigationAttempt } from '../src/types';
+import { renderAt } from './utils/renderAt';
+
+/**
+ * A page showing the current pathname. The docs page renders its section a little after the page
+ */
+const Page: React.FC = () => {
+    const location = useNavLocation();
+    const isDocs = location?.pathname === '/docs';
+    const [showSection, setShowSection] = useState(false);
+
+    useEffect(() => {
+        if (!isDocs) return;
+        const timeoutId = setTimeout(() => setShowSection(true), 50);
+        return () => clearTimeout(timeoutId);
+    }, [isDocs]);
+
+    return (
+        <main>
+            <h1>{location?.pathname}</h1>
+            {isDocs && showSection && <h2 id="install">Install</h2>}
+        </main>
+    );
+};
+
+describe('NavPlus post-navigation', () => {
+    const scrollTo = jest.fn();
+    const scrollIntoView = jest.fn();
+
+    beforeEach(() => {
+        scrollTo.mockClear();
+        scrollIntoView.mockClear();
+        window.scrollTo = scrollTo;
+        Element.prototype.scrollIntoView = scrollIntoView;
+    });
+
+    test('should scroll to the top and focus the main landmark once the new page has rendered', async () => {
+        renderAt('/', (
+            <>
+                <NavPlus to="/about">About</NavPlus>
+                <Page />
+            </>
+        ), { postNavigation: true });
+
+        const main = screen.getByRole('main');
+        let headingWhenFocused: string | null = null;
+        main.addEventListener('focus', () => {
+            headingWhenFocused = screen.getByRole('heading', { level: 1 }).textContent;
+        });
+
+        fireEvent.click(screen.getByRole('link', { name: 'About' }));
+
+        await waitFor(() => expect(document.activeElement).toBe(main));
+        expect(headingWhenFocused).toBe('/about');
+        expect(main.getAttribute('tabindex')).toBe('-1');
+        expect(scrollTo).toHaveBeenCalledWith({ left: 0, top: 0, behavior: 'auto' });
+    });
+
+    test('should wait for the element of the hash to render', async () => {
+        renderAt('/', (
+            <>
+                <NavPlus to="/docs#install">Install</NavPlus>
+                <Page />
+            </>
+        ), { postNavigation: true });
+
+        fireEvent.click(screen.getByRole('link', { name: 'Install' }));
+
+        await waitFor(() => expect(document.activeElement?.id).toBe('install'));
+        expect(scrollIntoView).toHaveBeenCalledTimes(1);
+        expect(scrollTo).not.toHaveBeenCalled();
+    });
+
+    test('should keep the scroll position and focus with preserveScroll', async () => {
+        renderAt('/', (
+            <>
+                <NavPlus to="/about" preserveScroll>About</NavPlus>
+                <Page />
+            </>
+        ), { postNavigation: true });
+
+        const link = screen.getByRole('link', { name: 'About' });
+        link.focus();
+        fireEvent.click(link);
+
+        await screen.findByText('/about');
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(document.activeElement).toBe(link);
+        expect(scrollTo).not.toHaveBeenCalled();
+    });
+});
+
+describe('NavPlus view transitions', () => {
+    /**
+     * Renders the view-transition-name NavPlus sets in its style as an attribute, as jsdom drops it
+     */
+    const NamedLink = React.forwardRef<HTMLAnchorElement, React.AnchorHTMLAttributes<HTMLAnchorElement>>((props, ref) => (
+        <a ref={ref} {...props} data-transition-name={props.style?.viewTransitionName} />
+    ));
+
+    const headingsWhenDone: Array<string | null> = [];
+    const startViewTransition = jest.fn((update: () => void | Promise<void>) => {
+        const updateCallbackDone = Promise.resolve().then(update).then(() => {
+            headingsWhenDone.push(screen.getByRole('heading', { level: 1 }).textContent);
+        });
+        return { updateCallbackDone, finished: updateCallbackDone };
+    });
+
+    beforeEach(() => {
+        headingsWhenDone.length = 0;
+        startViewTransition.mockClear();
+        Object.defineProperty(document, 'startViewTransition', { configurable: true, value: startViewTransition });
+    });
+
+    afterEach(() => {
+        delete (document as Document & { startViewTransition?: unknown }).startViewTransition;
+    });
+
+    const navigation = (
+        <>
+            <NavPlus to="/" as={NamedLink} viewTransition={{ activeName: 'nav-active' }}>Home</NavPlus>
+            <NavPlus to="/photos" as={NamedLink} viewTransition={{ activeName: 'nav-active' }}>Photos</NavPlus>
+            <NavPlus to="/photos/1" viewTransition={{ name: 'photo' }}>First photo</NavPlus>
+            <Page />
+        </>
+    );
+
+    test('should give the active name to the exactly active link only', () => {
+        renderAt('/photos', navigation);
+
+        expect(screen.getByRole('link', { name: 'Photos' }).getAttribute('data-transition-name')).toBe('nav-active');
+        expect(screen.getByRole('link', { name: 'Home' }).getAttribute('data-active')).toBe('true');
+        expect(screen.getByRole('link', { name: 'Home' }).hasAttribute('data-transition-name')).toBe(false);
+    });
+
+    test('should navigate in the transition and let it capture the rendered location', async () => {
+        renderAt('/photos', navigation);
+
+        fireEvent.click(screen.getByRole('link', { name: 'First photo' }));
+
+        expect(startViewTransition).toHaveBeenCalledTimes(1);
+        expect(screen.getByRole('heading', { level: 1 }).textContent).toBe('/photos');
+        await waitFor(() => expect(headingsWhenDone).toEqual(['/photos/1']));
+    });
+});
+
+describe('NavPlus internal absolute URLs', () => {
+    test('should match and navigate to URLs of the current origin as paths', async () => {
+        renderAt('/', (
+            <>
+                <NavPlus to="http://localhost/">Home</NavPlus>
+                <NavPlus to="http://localhost/about">About</NavPlus>
+                <Page />
+            </>
+        ));
+
+        const about = screen.getByRole('link', { name: 'About' });
+        expect(about.getAttribute('href')).toBe('/about');
+        expect(about.hasAttribute('target')).toBe(false);
+        expect(screen.getByRole('link', { name: 'Home' }).getAttribute('data-active')).toBe('true');
+
+        fireEvent.click(about);
+
+        expect(await screen.findByText('/about')).toBeTruthy();
+        expect(about.getAttribute('data-active')).toBe('true');
+    });
+});
+
+describe('NavPlus navigation events', () => {
+    const events: Array<Pick<NavEvent, 'type' | 'to' | 'trigger'>> = [];
+    const eventBus = createNavEventBus();
+    eventBus.subscribe(({ type, to, trigger }) => events.push({ type, to, trigger }));
+
+    // jsdom doesn't implement navigation, so keep it from following the links the browser handles
+    const preventBrowserNavigation = (event: MouseEvent) => event.preventDefault();
+
+    beforeEach(() => {
+        events.length = 0;
+        window.addEventListener('click', preventBrowserNavigation);
+    });
+
+    afterEach(() => {
+        window.removeEventListener('click', preventBrowserNavigation);
+    });
+
+    const links = (
+        <>
+            <NavPlus to="/about">About</NavPlus>
+            <NavPlus to="https://example.com/">Example</NavPlus>
+            <Page />
+        </>
+    );
+
+    test('should mark links the browser follows itself with the browser trigger', () => {
+        renderAt('/', links, { eventBus });
+
+        fireEvent.click(screen.getByRole('link', { name: 'About' }), { ctrlKey: true });
+        fireEvent.click(screen.getByRole('link', { name: 'Example' }));
+
+        expect(events).toEqual([
+            { type: 'navigate:start', to: '/about', trigger: 'browser' },
+            { type: 'navigate:end', to: '/about', trigger: 'browser' },
+            { type: 'navigate:start', to: 'https://example.com/', trigger: 'browser' },
+            { type: 'navigate:end', to: 'https://example.com/', trigger: 'browser' }
+        ]);
+        expect(screen.getByRole('heading', { level: 1 }).textContent).toBe('/');
+    });
+
+    test('should mark navigations through the router with the click trigger', async () => {
+        renderAt('/', links, { eventBus });
+
+        fireEvent.click(screen.getByRole('link', { name: 'About' }));
+
+        expect(await screen.findByText('/about')).toBeTruthy();
+        expect(events).toEqual([
+            { type: 'navigate:start', to: '/about', trigger: 'click' },
+            { type: 'navigate:end', to: '/about', trigger: 'click' }
+        ]);
+    });
+});
+
+describe('NavPlus navigation guards', () => {
+    const events: Array<Pick<NavEvent, 'type' | 'to'>> = [];
+    const eventBus = createNavEventBus();
+    eventBus.subscribe(({ type, to }) => events.push({ type, to }));
+
+    beforeEach(() => {
+        events.length = 0;
+    });
+
+    test('should cancel the navigation when a guard returns false', async () => {
+        renderAt('/', (
+            <>
+                <NavPlus to="/admin">Admin</NavPlus>
+                <Page />
+            </>
+        ), { eventBus, beforeNavigate: ({ to }) => to !== '/admin' });
+
+        fireEvent.click(screen.getByRole('link', { name: 'Admin' }));
+
+        await waitFor(() => expect(events).toEqual([
+            { type: 'navigate:start', to: '/admin' },
+            { type: 'navigate:cancel', to: '/admin' }
+        ]));
+        expect(screen.getByRole('heading', { level: 1 }).textContent).toBe('/');
+    });
+
+    test('should navigate to the URL a guard redirects to', async () => {
+        renderAt('/', (
+            <>
+                <NavPlus to="/settings">Settings</NavPlus>
+                <Page />
+            </>
+        ), { eventBus, beforeNavigate: ({ to }) => Promise.resolve(`/login?next=${encodeURIComponent(to)}`) });
+
+        fireEvent.click(screen.getByRole('link', { name: 'Settings' }));
+
+        expect(await screen.findByText('/login')).toBeTruthy();
+        expect(window.location.search).toBe('?next=%2Fsettings');
+        expect(events[events.length - 1]).toEqual({ type: 'navigate:end', to: '/login?next=%2Fsettings' });
+    });
+
+    test('should run the link guard before the provider guards', async () => {
+        const providerGuard = jest.fn<boolean, [NavigationAttempt]>(() => true);
+
+        renderAt('/', (
+            <>
+                <NavPlus to="/pricing" onBeforeNavigate={() => '/plans'}>Pricing</NavPlus>
+                <Page />
+            </>
+        ), { beforeNavigate: providerGuard });
+
+        fireEvent.click(screen.getByRole('link', { name: 'Pricing' }));
+
+        expect(await screen.findByText('/plans')).toBeTruthy();
+        expect(providerGuard).toHaveBeenCalledWith(expect.objectContaining({ to: '/plans' }));
+    });
+
+    test('should ask useNavigationBlocker before leaving', async () => {
+        const confirm = jest.fn(() => Promise.resolve(false));
+        const Form: React.FC = () => {
+            useNavigationBlocker(true, { confirm, beforeUnload: false });
+            return null;
+        };
+
+        renderAt('/', (
+            <>
+                <NavPlus to="/about">About</NavPlus>
+                <Form />
+                <Page />
+            </>
+        ), { eventBus });
+
+        fireEvent.click(screen.getByRole('link', { name: 'About' }));
+
+        await waitFor(() => expect(events[events.length - 1]).toEqual({ type: 'navigate:cancel', to: '/about' }));
+        expect(confirm).toHaveBeenCalledWith(expect.objectContaining({ to: '/about' }));
+        expect(screen.getByRole('heading', { level: 1 }).textContent).toBe('/');
+    });
+});
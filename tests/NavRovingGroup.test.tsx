@@ -0,0 +1,69 @@
+/**
+ * @file tests/NavRovingGroup.test.tsx
+ * @description Render tests for roving-tabindex keyboard navigation between links
+ */
+
+import React from 'react';
+import { fireEvent, screen } from '@testing-library/react';
+import { NavRovingGroup } from '../src/NavRovingGroup';
+import { NavPlus } from '../src/NavPlus';
+import { renderAt } from './utils/renderAt';
+
+const renderMenubar = (path: string) => renderAt(path, (
+    <NavRovingGroup preset="menubar" aria-label="Main">
+        <NavPlus to="/" matchMode="exact">Home</NavPlus>
+        <NavPlus to="/products">Products</NavPlus>
+        <NavPlus to="/pricing" disabled>Pricing</NavPlus>
+        <NavPlus to="/contact">Contact</NavPlus>
+    </NavRovingGroup>
+));
+
+describe('NavRovingGroup', () => {
+    test('should make the active link the only tab stop', () => {
+        renderMenubar('/products');
+
+        expect(screen.getByRole('menubar', { name: 'Main' }).getAttribute('aria-orientation')).toBe('horizontal');
+        expect(screen.getByRole('menuitem', { name: 'Products' }).tabIndex).toBe(0);
+        expect(screen.getByRole('menuitem', { name: 'Home' }).tabIndex).toBe(-1);
+        expect(screen.getByRole('menuitem', { name: 'Contact' }).tabIndex).toBe(-1);
+    });
+
+    test('should move focus and the tab stop with the arrow keys, skipping disabled links', () => {
+        renderMenubar('/products');
+
+        const products = screen.getByRole('menuitem', { name: 'Products' });
+        const contact = screen.getByRole('menuitem', { name: 'Contact' });
+        products.focus();
+
+        fireEvent.keyDown(products, { key: 'ArrowRight' });
+        expect(document.activeElement).toBe(contact);
+        expect(contact.tabIndex).toBe(0);
+        expect(products.tabIndex).toBe(-1);
+
+        fireEvent.keyDown(contact, { key: 'ArrowRight' });
+        expect(document.activeElement).toBe(screen.getByRole('menuitem', { name: 'Home' }));
+    });
+
+    test('should move focus to the first and last links with Home and End', () => {
+        renderMenubar('/');
+
+        const home = screen.getByRole('menuitem', { name: 'Home' });
+        home.focus();
+
+        fireEvent.keyDown(home, { key: 'End' });
+        expect(document.activeElement).toBe(screen.getByRole('menuitem', { name: 'Contact' }));
+
+        fireEvent.keyDown(document.activeElement as HTMLElement, { key: 'Home' });
+        expect(document.activeElement).toBe(home);
+    });
+
+    test('should move focus to the next link starting with the typed characters', () => {
+        renderMenubar('/');
+
+        const home = screen.getByRole('menuitem', { name: 'Home' });
+        home.focus();
+
+        fireEvent.keyDown(home, { key: 'c' });
+        expect(document.activeElement).toBe(screen.getByRole('menuitem', { name: 'Contact' }));
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * @file tests/NavigationAnnouncer.test.tsx
+ * @description Render tests for the live region announcing the page reached after navigations
+ */
+
+import React from 'react';
+import { fireEvent, screen, waitFor } from '@testing-library/react';
+import { NavPlus } from '../src/NavPlus';
+import { useNavLocation } from '../src/context/NavContext';
+import { renderAt } from './utils/renderAt';
+
+const Page: React.FC = () => {
+    const location = useNavLocation();
+    return <h1>{location?.pathname === '/about' ? 'About us' : 'Home'}</h1>;
+};
+
+const links = (
+    <>
+        <NavPlus to="/">Home</NavPlus>
+        <NavPlus to="/about">About</NavPlus>
+        <Page />
+    </>
+);
+
+describe('NavigationAnnouncer', () => {
+    beforeEach(() => {
+        document.title = '';
+    });
+
+    test('should politely announce the page reached after a navigation', async () => {
+        renderAt('/', links, { announceNavigation: { delay: 10 } });
+
+        const region = screen.getByRole('status');
+        expect(region.getAttribute('aria-live')).toBe('polite');
+        expect(region.getAttribute('aria-atomic')).toBe('true');
+        expect(region.textContent).toBe('');
+
+        fireEvent.click(screen.getByRole('link', { name: 'About' }));
+
+        await waitFor(() => expect(region.textContent).toBe('About us'));
+    });
+
+    test('should announce the message built by getMessage', async () => {
+        const getMessage = jest.fn((title: string) => `Navigated to ${title}`);
+        document.title = 'Docs';
+        renderAt('/', links, { announceNavigation: { delay: 10, getMessage } });
+
+        fireEvent.click(screen.getByRole('link', { name: 'About' }));
+
+        await waitFor(() => expect(screen.getByRole('status').textContent).toBe('Navigated to Docs'));
+        expect(getMessage).toHaveBeenCalledWith('Docs', expect.objectContaining({ type: 'navigate:end', to: '/about' }));
+    });
+
+    test('should not announce navigations that leave the location as it was', async () => {
+        renderAt('/', links, { announceNavigation: { delay: 10 } });
+
+        fireEvent.click(screen.getByRole('link', { name: 'Home' }));
+
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        expect(screen.getByRole('status').textContent).toBe('');
+    });
+
+    test('should hide the region visually unless a className is given', () => {
+        const { unmount } = renderAt('/', links, { announceNavigation: true });
+        expect(screen.getByRole('status').style.position).toBe('absolute');
+        unmount();
+
+        renderAt('/', links, { announceNavigation: { className: 'sr-only' } });
+        const region = screen.getByRole('status');
+        expect(region.className).toBe('sr-only');
+        expect(region.hasAttribute('style')).toBe(false);
+    });
+});
@@ -3,7 +3,13 @@
  * @description Tests for prefetching utilities
  */
 
-import { defaultPrefetchOptions, normalizePrefetchOptions, executePrefetch } from "../src/utils/prefetch";
+import {
+    defaultPrefetchOptions,
+    normalizePrefetchOptions,
+    executePrefetch,
+    resolvePrefetchStrategies,
+    retryPrefetch
+} from "../src/utils/prefetch";
 
 
 
@@ -48,6 +54,45 @@ describe('normalizePrefetchOptions', () => {
     test('should handle undefined', () => {
         expect(normalizePrefetchOptions(undefined)).toEqual(defaultPrefetchOptions);
     });
+
+    test('should merge the prop over custom defaults', () => {
+        const defaults = { enabled: false, delay: 50 };
+
+        expect(normalizePrefetchOptions(undefined, defaults)).toEqual({
+            enabled: false,
+            delay: 50,
+            routerType: 'react-router'
+        });
+
+        expect(normalizePrefetchOptions({ routerType: 'wouter' }, defaults)).toEqual({
+            enabled: true,
+            delay: 50,
+            routerType: 'wouter'
+        });
+
+        expect(normalizePrefetchOptions(true, defaults)).toEqual({
+            enabled: true,
+            delay: 50,
+            routerType: 'react-router'
+        });
+    });
+});
+
+describe('resolvePrefetchStrategies', () => {
+    test('should default to hover and focus', () => {
+        expect(resolvePrefetchStrategies(undefined)).toEqual(['hover', 'focus']);
+    });
+
+    test('should accept a single strategy or a list', () => {
+        expect(resolvePrefetchStrategies('viewport')).toEqual(['viewport']);
+        expect(resolvePrefetchStrategies(['idle', 'hover'])).toEqual(['idle', 'hover']);
+    });
+
+    test('should keep the strategy from the provider defaults', () => {
+        const options = normalizePrefetchOptions(true, { strategy: ['viewport', 'idle'] });
+
+        expect(resolvePrefetchStrategies(options.strategy)).toEqual(['viewport', 'idle']);
+    });
 });
 
 describe('executePrefetch', () => {
@@ -74,44 +119,53 @@ describe('executePrefetch', () => {
         jest.restoreAllMocks();
     });
 
-    test('should return false for external URLs', () => {
-        const result = executePrefetch('/dashboard', 'react-router', true);
+    test('should return false for external URLs', async () => {
+        const result = await executePrefetch('/dashboard', 'react-router', true);
         expect(result).toBe(false);
         expect(document.createElement).not.toHaveBeenCalled();
     });
 
-    test('should use custom prefetch function if provided and routerType is custom', () => {
+    test('should use custom prefetch function if provided and routerType is custom', async () => {
         const customPrefetch = jest.fn();
-        const result = executePrefetch('/dashboard', 'custom', false, undefined, customPrefetch);
+        const result = await executePrefetch('/dashboard', 'custom', false, undefined, customPrefetch);
 
         expect(result).toBe(true);
-        expect(customPrefetch).toHaveBeenCalledWith('/dashboard');
+        expect(customPrefetch).toHaveBeenCalledWith('/dashboard', { signal: undefined });
         expect(document.createElement).not.toHaveBeenCalled();
     });
 
-    test('should create link elements for react-router prefetching', () => {
-        const result = executePrefetch('/dashboard', 'react-router', false);
+    test('should use the router adapter prefetch function if available in context', async () => {
+        const routerContext = { prefetch: jest.fn() };
+        const result = await executePrefetch('/dashboard', 'react-router', false, routerContext);
+
+        expect(result).toBe(true);
+        expect(routerContext.prefetch).toHaveBeenCalledWith('/dashboard', { signal: undefined });
+        expect(document.createElement).not.toHaveBeenCalled();
+    });
+
+    test('should create link elements for react-router prefetching', async () => {
+        const result = await executePrefetch('/dashboard', 'react-router', false);
 
         expect(result).toBe(true);
         expect(document.createElement).toHaveBeenCalledWith('link');
         expect(document.head.appendChild).toHaveBeenCalledTimes(2); // prefetch + preconnect
     });
 
-    test('should use TanStack Router prefetch if available in context', () => {
+    test('should use TanStack Router prefetch if available in context', async () => {
         const mockContext = {
             router: {
                 prefetch: jest.fn()
             }
         };
 
-        const result = executePrefetch('/dashboard', 'tanstack-router', false, mockContext);
+        const result = await executePrefetch('/dashboard', 'tanstack-router', false, mockContext);
 
         expect(result).toBe(true);
         expect(mockContext.router.prefetch).toHaveBeenCalledWith('/dashboard');
         expect(document.createElement).not.toHaveBeenCalled();
     });
 
-    test('should try global TanStack Router if not in context', () => {
+    test('should try global TanStack Router if not in context', async () => {
         // Mock global TanStackRouter
         (window as any).TanStackRouter = {
             router: {
@@ -119,7 +173,7 @@ describe('executePrefetch', () => {
             }
         };
 
-        const result = executePrefetch('/dashboard', 'tanstack-router', false);
+        const result = await executePrefetch('/dashboard', 'tanstack-router', false);
 
         expect(result).toBe(true);
         expect((window as any).TanStackRouter.router.prefetch).toHaveBeenCalledWith('/dashboard');
@@ -128,4 +182,64 @@ describe('executePrefetch', () => {
         // Clean up
         delete (window as any).TanStackRouter;
     });
-});
\ No newline at end of file
+});
+
+describe('async prefetching', () => {
+    test('should wait for a prefetch function returning a Promise', async () => {
+        let resolvePrefetch: () => void = () => undefined;
+        const customPrefetch = jest.fn(() => new Promise<void>((resolve) => {
+            resolvePrefetch = resolve;
+        }));
+        let settled = false;
+
+        const result = executePrefetch('/reports', 'custom', false, undefined, customPrefetch).then((success) => {
+            settled = true;
+            return success;
+        });
+
+        await Promise.resolve();
+        expect(settled).toBe(false);
+
+        resolvePrefetch();
+        expect(await result).toBe(true);
+    });
+
+    test('should pass the abort signal and reject when the prefetch fails', async () => {
+        const controller = new AbortController();
+        const customPrefetch = jest.fn(() => Promise.reject(new Error('offline')));
+
+        await expect(
+            executePrefetch('/reports', 'custom', false, undefined, customPrefetch, controller.signal)
+        ).rejects.toThrow('offline');
+        expect(customPrefetch).toHaveBeenCalledWith('/reports', { signal: controller.signal });
+    });
+
+    test('should not prefetch once aborted', async () => {
+        const controller = new AbortController();
+        const customPrefetch = jest.fn();
+        controller.abort();
+
+        expect(await executePrefetch('/reports', 'custom', false, undefined, customPrefetch, controller.signal)).toBe(false);
+        expect(customPrefetch).not.toHaveBeenCalled();
+    });
+});
+
+describe('retryPrefetch', () => {
+    test('should retry failed prefetches', async () => {
+        const prefetch = jest.fn()
+            .mockReturnValueOnce(Promise.reject(new Error('offline')))
+            .mockReturnValueOnce(Promise.resolve(true));
+
+        expect(await retryPrefetch(prefetch, { retry: 2, retryDelay: 0 })).toBe(true);
+        expect(prefetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should reject with the last error once out of retries', async () => {
+        const retryDelay = jest.fn(() => 0);
+        const prefetch = jest.fn(() => Promise.reject(new Error('offline')));
+
+        await expect(retryPrefetch(prefetch, { retry: 2, retryDelay })).rejects.toThrow('offline');
+        expect(prefetch).toHaveBeenCalledTimes(3);
+        expect(retryDelay.mock.calls).toEqual([[1], [2]]);
+    });
+});
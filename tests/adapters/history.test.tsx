@@ -0,0 +1,125 @@
+/**
+ * @file tests/adapters/history.test.tsx
+ * @description Tests for the History API source and adapter, with a basename and hash routing
+ */
+
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { createHistoryAdapter, createHistorySource } from '../../src/adapters/history';
+import { NavLinkProvider, useNavLocation } from '../../src/context/NavContext';
+import { NavPlus } from '../../src/NavPlus';
+
+const CurrentLocation: React.FC = () => {
+    const location = useNavLocation();
+    return <output>{`${location?.pathname}${location?.search}${location?.hash}`}</output>;
+};
+
+describe('createHistorySource', () => {
+    test('should strip the basename from the location', () => {
+        window.history.pushState(null, '', '/app/users?page=2#top');
+        const source = createHistorySource({ basename: '/app/' });
+
+        const location = source.getLocation();
+        expect(location).toEqual({ pathname: '/users', search: '?page=2', hash: '#top' });
+        expect(source.getLocation()).toBe(location);
+
+        window.history.pushState(null, '', '/app');
+        expect(source.getLocation().pathname).toBe('/');
+    });
+
+    test('should prefix navigation targets and hrefs with the basename', () => {
+        window.history.pushState(null, '', '/app');
+        const source = createHistorySource({ basename: '/app' });
+        const length = window.history.length;
+
+        expect(source.createHref('/invoices?status=open')).toBe('/app/invoices?status=open');
+        expect(source.createHref('/')).toBe('/app');
+
+        source.navigate('/invoices');
+        expect(window.location.pathname).toBe('/app/invoices');
+        expect(window.history.length).toBe(length + 1);
+
+        source.navigate('/invoices/42', { replace: true });
+        expect(window.location.pathname).toBe('/app/invoices/42');
+        expect(window.history.length).toBe(length + 1);
+    });
+
+    test('should read and write the route in the hash with hashRouting', () => {
+        window.history.pushState(null, '', '/index.html?lang=en#/users/42?tab=posts');
+        const source = createHistorySource({ hashRouting: true });
+
+        expect(source.getLocation()).toEqual({ pathname: '/users/42', search: '?tab=posts', hash: '' });
+        expect(source.createHref('/invoices')).toBe('#/invoices');
+
+        source.navigate('/invoices');
+        expect(window.location.pathname).toBe('/index.html');
+        expect(window.location.search).toBe('?lang=en');
+        expect(window.location.hash).toBe('#/invoices');
+        expect(source.getLocation().pathname).toBe('/invoices');
+    });
+
+    test('should notify subscribers of navigations, popstate and hashchange', () => {
+        window.history.pushState(null, '', '/');
+        const listener = jest.fn();
+        const source = createHistorySource({ hashRouting: true });
+        const unsubscribe = source.subscribe(listener);
+
+        source.navigate('/users');
+        expect(listener).toHaveBeenCalledTimes(1);
+
+        window.history.pushState(null, '', '/#/settings');
+        window.dispatchEvent(new PopStateEvent('popstate'));
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(source.getLocation().pathname).toBe('/settings');
+
+        window.dispatchEvent(new HashChangeEvent('hashchange'));
+        expect(listener).toHaveBeenCalledTimes(3);
+
+        unsubscribe();
+        window.dispatchEvent(new PopStateEvent('popstate'));
+        expect(listener).toHaveBeenCalledTimes(3);
+    });
+});
+
+describe('createHistoryAdapter', () => {
+    test('should render hrefs with the basename and match the location without it', () => {
+        window.history.pushState(null, '', '/app/users');
+        render(
+            <NavLinkProvider adapter={createHistoryAdapter({ basename: '/app' })}>
+                <NavPlus to="/users">Users</NavPlus>
+                <NavPlus to="/invoices">Invoices</NavPlus>
+                <CurrentLocation />
+            </NavLinkProvider>
+        );
+
+        const users = screen.getByRole('link', { name: 'Users' });
+        expect(users.getAttribute('href')).toBe('/app/users');
+        expect(users.getAttribute('data-active')).toBe('true');
+        expect(screen.getByRole('status').textContent).toBe('/users');
+
+        fireEvent.click(screen.getByRole('link', { name: 'Invoices' }));
+        expect(window.location.pathname).toBe('/app/invoices');
+        expect(screen.getByRole('status').textContent).toBe('/invoices');
+        expect(screen.getByRole('link', { name: 'Invoices' }).getAttribute('data-active')).toBe('true');
+    });
+
+    test('should follow hash routes and back and forward navigation', () => {
+        window.history.pushState(null, '', '/#/users');
+        render(
+            <NavLinkProvider adapter={createHistoryAdapter({ hashRouting: true })}>
+                <NavPlus to="/users">Users</NavPlus>
+                <CurrentLocation />
+            </NavLinkProvider>
+        );
+
+        expect(screen.getByRole('link', { name: 'Users' }).getAttribute('href')).toBe('#/users');
+        expect(screen.getByRole('status').textContent).toBe('/users');
+
+        act(() => {
+            window.history.pushState(null, '', '/#/settings?tab=profile');
+            window.dispatchEvent(new PopStateEvent('popstate'));
+        });
+        expect(screen.getByRole('status').textContent).toBe('/settings?tab=profile');
+        expect(screen.getByRole('link', { name: 'Users' }).getAttribute('data-active')).toBe('false');
+    });
+});
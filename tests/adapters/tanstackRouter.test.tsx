@@ -0,0 +1,64 @@
+/**
+ * @file tests/adapters/tanstackRouter.test.tsx
+ * @description Tests for the TanStack Router adapter
+ */
+
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { createTanStackRouterAdapter } from '../../src/adapters/tanstackRouter';
+
+describe('createTanStackRouterAdapter', () => {
+    const Link = jest.fn(({ to, search, hash, children }: { to: string; search?: object; hash?: string; children?: React.ReactNode }) => (
+        <a href={to} data-search={JSON.stringify(search)} data-hash={hash}>{children}</a>
+    ));
+    const module = {
+        Link,
+        useRouter: () => ({ navigate: jest.fn() }),
+        useRouterState: () => ({ pathname: '/' })
+    };
+
+    beforeEach(() => {
+        Link.mockClear();
+    });
+
+    test('should pass the path, search object and hash to the Link separately', () => {
+        const AdapterLink = createTanStackRouterAdapter(module).Link as React.ElementType;
+        render(<AdapterLink to="/projects/42?tab=files&tag=a&tag=b#readme" replace>Project</AdapterLink>);
+
+        expect(Link).toHaveBeenCalledWith(expect.objectContaining({
+            to: '/projects/42',
+            search: { tab: 'files', tag: ['a', 'b'] },
+            hash: 'readme',
+            replace: true
+        }), expect.anything());
+        expect(screen.getByRole('link', { name: 'Project' }).getAttribute('href')).toBe('/projects/42');
+    });
+
+    test('should leave search and hash out of plain paths', () => {
+        const AdapterLink = createTanStackRouterAdapter(module).Link as React.ElementType;
+        render(<AdapterLink to="/about">About</AdapterLink>);
+
+        expect(Link.mock.calls[0][0].search).toBeUndefined();
+        expect(Link.mock.calls[0][0].hash).toBeUndefined();
+    });
+
+    test('should not provide a Link without one', () => {
+        expect(createTanStackRouterAdapter({ ...module, Link: undefined }).Link).toBeUndefined();
+    });
+
+    test('should catch navigations the router rejects', async () => {
+        const error = new Error('loader failed');
+        const navigate = jest.fn(() => Promise.reject(error));
+        const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const adapter = createTanStackRouterAdapter({ ...module, useRouter: () => ({ navigate }) });
+
+        const { result } = renderHook(() => adapter.useNavigate());
+        result.current?.('/projects/42?tab=files', { replace: true });
+        await Promise.resolve();
+        await Promise.resolve();
+
+        expect(navigate).toHaveBeenCalledWith({ href: '/projects/42?tab=files', replace: true });
+        expect(consoleError).toHaveBeenCalledWith('createTanStackRouterAdapter: navigation to /projects/42?tab=files failed', error);
+        consoleError.mockRestore();
+    });
+});
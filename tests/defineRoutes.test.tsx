@@ -0,0 +1,48 @@
+/**
+ * @file tests/defineRoutes.test.tsx
+ * @description Render tests for the typed Link of route registries
+ */
+
+import React from 'react';
+import { screen } from '@testing-library/react';
+import { defineRoutes } from '../src/defineRoutes';
+import { renderAt } from './utils/renderAt';
+
+describe('RouteLink', () => {
+    const { Link: RouteLink } = defineRoutes({
+        users: '/users/:tab?',
+        user: '/users/:id/profile'
+    });
+
+    test('should be active on a route with an optional param left out', () => {
+        renderAt('/users', <RouteLink to="users">Users</RouteLink>);
+
+        const link = screen.getByRole('link', { name: 'Users' });
+        expect(link.getAttribute('href')).toBe('/users');
+        expect(link.getAttribute('data-active')).toBe('true');
+    });
+
+    test('should match the optional param when it is given', () => {
+        renderAt('/users/posts', (
+            <>
+                <RouteLink to="users" params={{ tab: 'posts' }}>Posts</RouteLink>
+                <RouteLink to="users" params={{ tab: 'likes' }}>Likes</RouteLink>
+            </>
+        ));
+
+        expect(screen.getByRole('link', { name: 'Posts' }).getAttribute('data-active')).toBe('true');
+        expect(screen.getByRole('link', { name: 'Likes' }).getAttribute('data-active')).toBe('false');
+    });
+
+    test('should match the search params of the link', () => {
+        renderAt('/users?sort=asc', (
+            <>
+                <RouteLink to="users" search={{ sort: 'asc' }}>Ascending</RouteLink>
+                <RouteLink to="users" search={{ sort: 'desc' }}>Descending</RouteLink>
+            </>
+        ));
+
+        expect(screen.getByRole('link', { name: 'Ascending' }).getAttribute('data-active')).toBe('true');
+        expect(screen.getByRole('link', { name: 'Descending' }).getAttribute('data-active')).toBe('false');
+    });
+});
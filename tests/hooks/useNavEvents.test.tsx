@@ -0,0 +1,60 @@
+/**
+ * @file tests/hooks/useNavEvents.test.tsx
+ * @description Render tests for subscribing to navigation events with useNavEvents
+ */
+
+import React, { useState } from 'react';
+import { fireEvent, screen, waitFor } from '@testing-library/react';
+import { useNavEvents } from '../../src/hooks/useNavEvents';
+import { NavPlus } from '../../src/NavPlus';
+import { NavEvent } from '../../src/types';
+import { renderAt } from '../utils/renderAt';
+
+describe('useNavEvents', () => {
+    const listener = jest.fn<void, [NavEvent]>();
+
+    const Tracker: React.FC = () => {
+        useNavEvents(listener, ['navigate:end']);
+        return null;
+    };
+
+    const App: React.FC = () => {
+        const [tracking, setTracking] = useState(true);
+        return (
+            <>
+                {tracking && <Tracker />}
+                <button type="button" onClick={() => setTracking(false)}>Stop tracking</button>
+                <NavPlus to="/about" trackingData={{ section: 'header' }}>About</NavPlus>
+                <NavPlus to="/pricing">Pricing</NavPlus>
+            </>
+        );
+    };
+
+    beforeEach(() => {
+        listener.mockClear();
+    });
+
+    test('should receive the events of the links below the provider', async () => {
+        renderAt('/', <App />);
+
+        fireEvent.click(screen.getByRole('link', { name: 'About' }));
+
+        await waitFor(() => expect(listener).toHaveBeenCalledTimes(1));
+        expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+            type: 'navigate:end',
+            to: '/about',
+            trigger: 'click',
+            trackingData: { section: 'header' }
+        }));
+    });
+
+    test('should unsubscribe on unmount', async () => {
+        renderAt('/', <App />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Stop tracking' }));
+        fireEvent.click(screen.getByRole('link', { name: 'Pricing' }));
+
+        await waitFor(() => expect(window.location.pathname).toBe('/pricing'));
+        expect(listener).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,150 @@
+/**
+ * @file tests/hooks/usePrefetch.test.tsx
+ * @description Tests for the prefetch status and strategies of usePrefetch
+ */
+
+import React from 'react';
+import { act, cleanup, render, waitFor } from '@testing-library/react';
+import { usePrefetch } from '../../src/hooks/usePrefetch';
+import { NavPlus } from '../../src/NavPlus';
+import { NavLinkProvider } from '../../src/context/NavContext';
+import { createPrefetchCache } from '../../src/utils/prefetchCache';
+import { PrefetchCache } from '../../src/types';
+
+describe('usePrefetch', () => {
+    test('should not re-render for prefetches of other URLs', async () => {
+        const prefetchCache: PrefetchCache = createPrefetchCache();
+        const renders = jest.fn();
+
+        const Link: React.FC<{ to: string }> = ({ to }) => {
+            const { status } = usePrefetch(to, { prefetch: { enabled: true } });
+            renders(to, status);
+            return null;
+        };
+
+        render(
+            <NavLinkProvider prefetchCache={prefetchCache}>
+                <Link to="/about" />
+            </NavLinkProvider>
+        );
+        renders.mockClear();
+
+        await act(() => prefetchCache.prefetch('/pricing', () => true).then(() => undefined));
+        expect(renders).not.toHaveBeenCalled();
+
+        await act(() => prefetchCache.prefetch('/about', () => true).then(() => undefined));
+        expect(renders).toHaveBeenLastCalledWith('/about', 'success');
+    });
+});
+
+describe('usePrefetch strategies', () => {
+    const customPrefetch = jest.fn(() => Promise.resolve());
+
+    /**
+     * Renders a link prefetching with a strategy, in a provider with a cache of its own
+     */
+    const renderLink = (strategy: 'viewport' | 'idle') => render(
+        <NavLinkProvider prefetchCache={createPrefetchCache()}>
+            <NavPlus to="/reports" prefetch={{ strategy, routerType: 'custom', customPrefetch }}>Reports</NavPlus>
+        </NavLinkProvider>
+    );
+
+    const globalScope = window as unknown as Record<string, unknown>;
+    const originals = {
+        IntersectionObserver: globalScope.IntersectionObserver,
+        requestIdleCallback: globalScope.requestIdleCallback,
+        cancelIdleCallback: globalScope.cancelIdleCallback
+    };
+
+    beforeEach(() => {
+        customPrefetch.mockClear();
+    });
+
+    afterEach(() => {
+        // Unmount while the mocked APIs are still there
+        cleanup();
+        globalScope.IntersectionObserver = originals.IntersectionObserver;
+        globalScope.requestIdleCallback = originals.requestIdleCallback;
+        globalScope.cancelIdleCallback = originals.cancelIdleCallback;
+    });
+
+    describe('viewport', () => {
+        let intersect: (isIntersecting: boolean) => void;
+        const observe = jest.fn();
+        const disconnect = jest.fn();
+
+        beforeEach(() => {
+            observe.mockClear();
+            disconnect.mockClear();
+            globalScope.IntersectionObserver = jest.fn((callback: IntersectionObserverCallback) => {
+                const observer = { observe, disconnect } as unknown as IntersectionObserver;
+                intersect = (isIntersecting) => callback([{ isIntersecting } as IntersectionObserverEntry], observer);
+                return observer;
+            });
+        });
+
+        test('should prefetch once the link becomes visible', async () => {
+            const { getByRole } = renderLink('viewport');
+            expect(observe).toHaveBeenCalledWith(getByRole('link', { name: 'Reports' }));
+
+            act(() => intersect(false));
+            expect(customPrefetch).not.toHaveBeenCalled();
+
+            act(() => intersect(true));
+            await waitFor(() => expect(customPrefetch).toHaveBeenCalledTimes(1));
+            expect(customPrefetch).toHaveBeenCalledWith('/reports', { signal: expect.any(AbortSignal) });
+            expect(disconnect).toHaveBeenCalled();
+        });
+
+        test('should stop observing the link on unmount', () => {
+            const { unmount } = renderLink('viewport');
+
+            unmount();
+            expect(disconnect).toHaveBeenCalled();
+            expect(customPrefetch).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('idle', () => {
+        test('should prefetch once the browser is idle', async () => {
+            let runIdle: () => void = () => undefined;
+            const requestIdleCallback = jest.fn((callback: () => void) => {
+                runIdle = callback;
+                return 7;
+            });
+            globalScope.requestIdleCallback = requestIdleCallback;
+            globalScope.cancelIdleCallback = jest.fn();
+
+            renderLink('idle');
+            expect(requestIdleCallback).toHaveBeenCalledWith(expect.any(Function), { timeout: 2000 });
+            expect(customPrefetch).not.toHaveBeenCalled();
+
+            act(() => runIdle());
+            await waitFor(() => expect(customPrefetch).toHaveBeenCalledTimes(1));
+        });
+
+        test('should cancel the idle callback on unmount', () => {
+            const cancelIdleCallback = jest.fn();
+            globalScope.requestIdleCallback = jest.fn(() => 7);
+            globalScope.cancelIdleCallback = cancelIdleCallback;
+
+            renderLink('idle').unmount();
+            expect(cancelIdleCallback).toHaveBeenCalledWith(7);
+        });
+
+        test('should fall back to a timeout without requestIdleCallback', async () => {
+            delete globalScope.requestIdleCallback;
+
+            renderLink('idle');
+            await waitFor(() => expect(customPrefetch).toHaveBeenCalledTimes(1));
+        });
+
+        test('should clear the fallback timeout on unmount', async () => {
+            delete globalScope.requestIdleCallback;
+
+            renderLink('idle').unmount();
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            expect(customPrefetch).not.toHaveBeenCalled();
+        });
+    });
+});
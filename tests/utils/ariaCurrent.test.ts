@@ -0,0 +1,37 @@
+/**
+ * @file tests/utils/ariaCurrent.test.ts
+ * @description Tests for resolving the aria-current value of links
+ */
+
+import { resolveAriaCurrent } from '../../src/utils/ariaCurrent';
+
+const exact = { isActive: true, isExact: true };
+const partial = { isActive: true, isExact: false };
+const inactive = { isActive: false, isExact: false };
+
+describe('resolveAriaCurrent', () => {
+    test('should mark the current page and its ancestors by default', () => {
+        expect(resolveAriaCurrent(exact)).toBe('page');
+        expect(resolveAriaCurrent(partial)).toBe(true);
+        expect(resolveAriaCurrent(inactive)).toBeUndefined();
+    });
+
+    test('should apply a single value to exact matches only', () => {
+        expect(resolveAriaCurrent(exact, 'step')).toBe('step');
+        expect(resolveAriaCurrent(partial, 'step')).toBe(true);
+        expect(resolveAriaCurrent(exact, 'true')).toBe('true');
+    });
+
+    test('should apply separate exact and partial values', () => {
+        const options = { exact: 'location' as const, partial: 'location' as const };
+        expect(resolveAriaCurrent(exact, options)).toBe('location');
+        expect(resolveAriaCurrent(partial, options)).toBe('location');
+        expect(resolveAriaCurrent(partial, { exact: 'date' })).toBe(true);
+    });
+
+    test('should leave the attribute out when set to false', () => {
+        expect(resolveAriaCurrent(exact, false)).toBeUndefined();
+        expect(resolveAriaCurrent(partial, { partial: false })).toBeUndefined();
+        expect(resolveAriaCurrent(exact, { partial: false })).toBe('page');
+    });
+});
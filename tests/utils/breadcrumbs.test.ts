@@ -0,0 +1,56 @@
+/**
+ * @file tests/utils/breadcrumbs.test.ts
+ * @description Tests for splitting pathnames into breadcrumbs and labelling them
+ */
+
+import { formatBreadcrumbSegment, getBreadcrumbPaths, resolveBreadcrumbs } from '../../src/utils/breadcrumbs';
+
+describe('getBreadcrumbPaths', () => {
+    test('should list the pathnames from the root to the pathname', () => {
+        expect(getBreadcrumbPaths('/users/42/settings')).toEqual(['/', '/users', '/users/42', '/users/42/settings']);
+        expect(getBreadcrumbPaths('/')).toEqual(['/']);
+    });
+});
+
+describe('formatBreadcrumbSegment', () => {
+    test('should turn dashes and underscores into spaces and capitalize', () => {
+        expect(formatBreadcrumbSegment('billing-history')).toBe('Billing history');
+        expect(formatBreadcrumbSegment('api_keys')).toBe('Api keys');
+    });
+});
+
+describe('resolveBreadcrumbs', () => {
+    test('should label crumbs from routes, with the params of dynamic segments', () => {
+        const crumbs = resolveBreadcrumbs('/users/42/edit', {
+            routes: { '/users': 'People', '/users/:id': (params) => `User ${params.id}` }
+        });
+        expect(crumbs.map((crumb) => crumb.label)).toEqual(['Home', 'People', 'User 42', 'Edit']);
+        expect(crumbs[2]).toMatchObject({ pathname: '/users/42', segment: '42', params: { id: '42' }, isCurrent: false });
+        expect(crumbs[3].isCurrent).toBe(true);
+    });
+
+    test('should fall back to the label function, then the segment', () => {
+        const crumbs = resolveBreadcrumbs('/docs/getting%20started', {
+            label: (crumb) => (crumb.segment === 'docs' ? 'Documentation' : undefined),
+            homeLabel: 'Start'
+        });
+        expect(crumbs.map((crumb) => crumb.label)).toEqual(['Start', 'Documentation', 'Getting started']);
+    });
+
+    test('should leave out hidden routes and the home crumb', () => {
+        const crumbs = resolveBreadcrumbs('/teams/7/members', {
+            routes: [{ path: '/teams/:teamId', label: 'Team', hidden: true }],
+            includeHome: false
+        });
+        expect(crumbs.map((crumb) => crumb.pathname)).toEqual(['/teams', '/teams/7/members']);
+        expect(crumbs.map((crumb) => crumb.index)).toEqual([0, 1]);
+    });
+
+    test('should return async labels as pending', async () => {
+        const crumbs = resolveBreadcrumbs('/projects/p1', {
+            routes: { '/projects/:projectId': ({ projectId }) => Promise.resolve(`Project ${projectId}`) }
+        });
+        expect(crumbs[2]).toMatchObject({ label: 'P1', status: 'loading' });
+        await expect(crumbs[2].pending).resolves.toBe('Project p1');
+    });
+});
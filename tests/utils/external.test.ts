@@ -0,0 +1,79 @@
+/**
+ * @file tests/utils/external.test.ts
+ * @description Tests for external link detection and the outbound link policy
+ */
+
+import { isExternalUrl, isOutboundLinkAllowed, isSpecialSchemeUrl, matchesHost, stripCurrentOrigin } from '../../src/utils/external';
+
+describe('isSpecialSchemeUrl', () => {
+    test('should detect non-web schemes', () => {
+        expect(isSpecialSchemeUrl('mailto:hi@example.com')).toBe(true);
+        expect(isSpecialSchemeUrl('tel:+15551234567')).toBe(true);
+        expect(isSpecialSchemeUrl('https://example.com')).toBe(false);
+        expect(isSpecialSchemeUrl('/contact')).toBe(false);
+    });
+});
+
+describe('matchesHost', () => {
+    test('should match exact hosts and wildcard domains', () => {
+        expect(matchesHost('example.com', ['example.com'])).toBe(true);
+        expect(matchesHost('Docs.Example.com', ['*.example.com'])).toBe(true);
+        expect(matchesHost('example.com', ['*.example.com'])).toBe(true);
+        expect(matchesHost('badexample.com', ['*.example.com'])).toBe(false);
+    });
+});
+
+describe('isExternalUrl', () => {
+    test('should treat paths as internal', () => {
+        expect(isExternalUrl('/pricing')).toBe(false);
+        expect(isExternalUrl('pricing?plan=pro')).toBe(false);
+    });
+
+    test('should treat special schemes and other hosts as external', () => {
+        expect(isExternalUrl('mailto:hi@example.com')).toBe(true);
+        expect(isExternalUrl('https://example.com/docs')).toBe(true);
+        expect(isExternalUrl('//cdn.example.com/file.pdf')).toBe(true);
+    });
+
+    test('should treat the current host and internal hosts as internal', () => {
+        expect(isExternalUrl(`${window.location.origin}/pricing`)).toBe(false);
+        expect(isExternalUrl('https://docs.example.com/api', ['*.example.com'])).toBe(false);
+    });
+
+    test('should compare the scheme and port of the current origin', () => {
+        // jsdom runs on http://localhost
+        expect(isExternalUrl('HTTP://LOCALHOST:80/pricing')).toBe(false);
+        expect(isExternalUrl('//localhost/pricing')).toBe(false);
+        expect(isExternalUrl('https://localhost/pricing')).toBe(true);
+        expect(isExternalUrl('http://localhost:3000/pricing')).toBe(true);
+    });
+});
+
+describe('stripCurrentOrigin', () => {
+    test('should turn URLs of the current origin into paths', () => {
+        expect(stripCurrentOrigin('http://localhost/pricing?plan=pro#faq')).toBe('/pricing?plan=pro#faq');
+        expect(stripCurrentOrigin('//localhost?plan=pro')).toBe('/?plan=pro');
+    });
+
+    test('should leave other URLs as they are', () => {
+        expect(stripCurrentOrigin('https://localhost/pricing')).toBe('https://localhost/pricing');
+        expect(stripCurrentOrigin('https://example.com/docs')).toBe('https://example.com/docs');
+        expect(stripCurrentOrigin('/pricing')).toBe('/pricing');
+    });
+});
+
+describe('isOutboundLinkAllowed', () => {
+    test('should apply blocked and allowed hosts', () => {
+        expect(isOutboundLinkAllowed('https://spam.test', { blockedHosts: ['spam.test'] })).toBe(false);
+        expect(isOutboundLinkAllowed('https://github.com', { allowedHosts: ['github.com'] })).toBe(true);
+        expect(isOutboundLinkAllowed('https://gitlab.com', { allowedHosts: ['github.com'] })).toBe(false);
+        expect(isOutboundLinkAllowed('mailto:hi@example.com', { allowedHosts: ['github.com'] })).toBe(true);
+    });
+
+    test('should let isAllowed decide last', () => {
+        const isAllowed = jest.fn((url: string) => url.indexOf('?ref=') === -1);
+
+        expect(isOutboundLinkAllowed('https://example.com?ref=spam', { isAllowed })).toBe(false);
+        expect(isOutboundLinkAllowed('https://example.com', { isAllowed })).toBe(true);
+    });
+});
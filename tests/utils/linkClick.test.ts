@@ -0,0 +1,48 @@
+/**
+ * @file tests/utils/linkClick.test.ts
+ * @description Tests for link click handling
+ */
+
+import { isModifiedClick, shouldHandleLinkClick } from '../../src/utils/linkClick';
+
+const click = (overrides = {}) => ({
+    button: 0,
+    metaKey: false,
+    altKey: false,
+    ctrlKey: false,
+    shiftKey: false,
+    ...overrides
+});
+
+describe('isModifiedClick', () => {
+    test('should detect modifier keys', () => {
+        expect(isModifiedClick(click())).toBe(false);
+        expect(isModifiedClick(click({ metaKey: true }))).toBe(true);
+        expect(isModifiedClick(click({ ctrlKey: true }))).toBe(true);
+        expect(isModifiedClick(click({ shiftKey: true }))).toBe(true);
+        expect(isModifiedClick(click({ altKey: true }))).toBe(true);
+    });
+});
+
+describe('shouldHandleLinkClick', () => {
+    test('should handle plain primary clicks', () => {
+        expect(shouldHandleLinkClick(click())).toBe(true);
+        expect(shouldHandleLinkClick(click(), '_self')).toBe(true);
+    });
+
+    test('should leave modified clicks to the browser', () => {
+        expect(shouldHandleLinkClick(click({ ctrlKey: true }))).toBe(false);
+        expect(shouldHandleLinkClick(click({ metaKey: true }))).toBe(false);
+        expect(shouldHandleLinkClick(click({ shiftKey: true }))).toBe(false);
+    });
+
+    test('should leave non-primary buttons to the browser', () => {
+        expect(shouldHandleLinkClick(click({ button: 1 }))).toBe(false);
+        expect(shouldHandleLinkClick(click({ button: 2 }))).toBe(false);
+    });
+
+    test('should leave other targets to the browser', () => {
+        expect(shouldHandleLinkClick(click(), '_blank')).toBe(false);
+        expect(shouldHandleLinkClick(click(), 'preview')).toBe(false);
+    });
+});
@@ -3,7 +3,19 @@
  * @description Tests for URL matching utilities
  */
 
-import { matchers, cleanUrl, isActive, isActiveWithCustomFn } from '../../src/utils/matchers';
+import {
+    matchers,
+    cleanUrl,
+    isActive,
+    isActiveWithCustomFn,
+    createMatchers,
+    matchRoute,
+    parsePath,
+    buildHref,
+    matchSearch,
+    matchHash,
+    matchLocation
+} from '../../src/utils/matchers';
 import { MatchMode } from '../../src/types';
 
 describe('matchers', () => {
@@ -43,6 +55,59 @@ describe('matchers', () => {
         expect(patternMatcher('/products', '', pattern)).toBe(false);
         expect(patternMatcher('/products/item-123/details', '', pattern)).toBe(false);
     });
+
+    test('startsWith and includes matchers should respect segment boundaries', () => {
+        const startsWithMatcher = matchers.get('startsWith');
+        const includesMatcher = matchers.get('includes');
+        if (!startsWithMatcher || !includesMatcher) throw new Error('matchers not found');
+
+        expect(startsWithMatcher('/application', '/app')).toBe(false);
+        expect(startsWithMatcher('/app/settings', '/app')).toBe(true);
+        expect(includesMatcher('/account/settings-old', '/settings')).toBe(false);
+        expect(includesMatcher('/account/settings/profile', '/settings')).toBe(true);
+
+        expect(startsWithMatcher('/application', '/app', undefined, { segmentBoundaries: false })).toBe(true);
+        expect(includesMatcher('/account/settings-old', '/settings', undefined, { segmentBoundaries: false })).toBe(true);
+    });
+
+    test('matchers should honor case sensitivity', () => {
+        const exactMatcher = matchers.get('exact');
+        if (!exactMatcher) throw new Error('Exact matcher not found');
+
+        expect(exactMatcher('/Home', '/home')).toBe(false);
+        expect(exactMatcher('/Home', '/home', undefined, { caseSensitive: false })).toBe(true);
+    });
+
+    test('route matcher should match route patterns on segment boundaries', () => {
+        const routeMatcher = matchers.get('route');
+        if (!routeMatcher) throw new Error('route matcher not found');
+
+        expect(routeMatcher('/users/42', '/users/:id')).toBe(true);
+        expect(routeMatcher('/users/42/settings', '/users/:id/*')).toBe(true);
+        expect(routeMatcher('/user', '/users')).toBe(false);
+        expect(routeMatcher('/users/42/settings', '/users/:id')).toBe(false);
+    });
+});
+
+describe('matchRoute', () => {
+    test('should extract dynamic segments and wildcards', () => {
+        expect(matchRoute('/projects/:projectId', '/projects/42')).toEqual({ projectId: '42' });
+        expect(matchRoute('/users/:id/*', '/users/42/settings/profile')).toEqual({ id: '42', '*': 'settings/profile' });
+        expect(matchRoute('/files/:path*', '/files/docs/read%20me.md')).toEqual({ path: 'docs/read me.md' });
+        expect(matchRoute('/files/:path*', '/files')).toEqual({});
+    });
+
+    test('should support optional segments', () => {
+        expect(matchRoute('/posts/:page?', '/posts')).toEqual({});
+        expect(matchRoute('/posts/:page?', '/posts/2')).toEqual({ page: '2' });
+        expect(matchRoute('/:lang?/docs', '/fr/docs')).toEqual({ lang: 'fr' });
+        expect(matchRoute('/en?/docs', '/docs')).toEqual({});
+    });
+
+    test('should return null when the pathname does not match', () => {
+        expect(matchRoute('/users/:id', '/user')).toBeNull();
+        expect(matchRoute('/files/:path+', '/files')).toBeNull();
+    });
 });
 
 describe('cleanUrl', () => {
@@ -55,6 +120,108 @@ describe('cleanUrl', () => {
         expect(cleanUrl('')).toBe('/');
         expect(cleanUrl(undefined as unknown as string)).toBe('/');
     });
+
+    test('should drop the query string and hash and collapse slashes', () => {
+        expect(cleanUrl('/reports?tab=weekly#top')).toBe('/reports');
+        expect(cleanUrl('//docs///install')).toBe('/docs/install');
+    });
+
+    test('should handle trailing slashes', () => {
+        expect(cleanUrl('/about/')).toBe('/about');
+        expect(cleanUrl('/')).toBe('/');
+        expect(cleanUrl('/about/', { trailingSlash: 'strict' })).toBe('/about/');
+    });
+
+    test('should decode percent-encoded characters unless disabled', () => {
+        expect(cleanUrl('/caf%C3%A9')).toBe('/café');
+        expect(cleanUrl('/a%2Fb')).toBe('/a%2Fb');
+        expect(cleanUrl('/caf%C3%A9', { decode: false })).toBe('/caf%C3%A9');
+        expect(cleanUrl('/100%')).toBe('/100%');
+    });
+
+    test('should strip the basename on a segment boundary', () => {
+        expect(cleanUrl('/app/users', { basename: '/app' })).toBe('/users');
+        expect(cleanUrl('/app', { basename: '/app/' })).toBe('/');
+        expect(cleanUrl('/application', { basename: '/app' })).toBe('/application');
+    });
+});
+
+describe('parsePath', () => {
+    test('should split a URL into pathname, search and hash', () => {
+        expect(parsePath('/docs?v=2#install')).toEqual({ pathname: '/docs', search: '?v=2', hash: '#install' });
+        expect(parsePath('/docs#a?b')).toEqual({ pathname: '/docs', search: '', hash: '#a?b' });
+        expect(parsePath('/docs')).toEqual({ pathname: '/docs', search: '', hash: '' });
+    });
+});
+
+describe('buildHref', () => {
+    test('should return the URL unchanged without options', () => {
+        expect(buildHref('/docs?a=b+c#top')).toBe('/docs?a=b+c#top');
+    });
+
+    test('should interpolate params into the pattern', () => {
+        expect(buildHref('/users/:id/posts', { params: { id: 'a b' } })).toBe('/users/a%20b/posts');
+        expect(buildHref('/users/:id/:tab?', { params: { id: 1 } })).toBe('/users/1');
+        expect(buildHref('/users/:id/:tab??sort=asc', { params: { id: 1, tab: 'posts' } })).toBe('/users/1/posts?sort=asc');
+    });
+
+    test('should append and override search params', () => {
+        expect(buildHref('/products', { search: { q: 'red & blue', tag: ['a', 'b'], page: undefined } }))
+            .toBe('/products?q=red%20%26%20blue&tag=a&tag=b');
+        expect(buildHref('/products?page=2&sort=name', { search: { page: 3 } })).toBe('/products?sort=name&page=3');
+        expect(buildHref('/products?page=2', { search: { page: null } })).toBe('/products');
+        expect(buildHref('/products', { search: new URLSearchParams('a=1&a=2') })).toBe('/products?a=1&a=2');
+    });
+
+    test('should preserve the current search params', () => {
+        const currentSearch = '?color=red&size=m&page=3';
+        expect(buildHref('/products', { preserveSearch: true, currentSearch, search: { page: 1 } }))
+            .toBe('/products?color=red&size=m&page=1');
+        expect(buildHref('/products', { preserveSearch: ['color'], currentSearch })).toBe('/products?color=red');
+        expect(buildHref('/products?size=l', { preserveSearch: true, currentSearch: '?size=m' })).toBe('/products?size=l');
+    });
+
+    test('should replace or remove the hash', () => {
+        expect(buildHref('/docs#intro', { hash: 'install' })).toBe('/docs#install');
+        expect(buildHref('/docs#intro', { hash: '' })).toBe('/docs');
+    });
+
+    test('should keep the origin of absolute URLs', () => {
+        expect(buildHref('https://example.com/search', { search: { q: 'x' } })).toBe('https://example.com/search?q=x');
+    });
+});
+
+describe('matchSearch', () => {
+    test('should require the link params to be present in subset mode', () => {
+        expect(matchSearch('?tab=weekly&page=2', '?tab=weekly', 'subset')).toBe(true);
+        expect(matchSearch('?tab=monthly', '?tab=weekly', 'subset')).toBe(false);
+        expect(matchSearch('?tab=weekly', '', 'subset')).toBe(true);
+    });
+
+    test('should require the same params in exact mode', () => {
+        expect(matchSearch('page=2&tab=weekly', '?tab=weekly&page=2', 'exact')).toBe(true);
+        expect(matchSearch('?tab=weekly&page=2', '?tab=weekly', 'exact')).toBe(false);
+        expect(matchSearch('?tag=a&tag=b', '?tag=b&tag=a', 'exact')).toBe(true);
+        expect(matchSearch('?tag=a&tag=a', '?tag=a', 'exact')).toBe(false);
+    });
+
+    test('should only compare the listed keys', () => {
+        expect(matchSearch('?tab=weekly&page=2', '?tab=weekly&page=1', ['tab'])).toBe(true);
+        expect(matchSearch('?tab=monthly', '?tab=weekly', ['tab'])).toBe(false);
+    });
+
+    test('should ignore the query string in ignore mode', () => {
+        expect(matchSearch('?tab=monthly', '?tab=weekly', 'ignore')).toBe(true);
+    });
+});
+
+describe('matchHash', () => {
+    test('should compare hashes in exact mode', () => {
+        expect(matchHash('#install', '#install', 'exact')).toBe(true);
+        expect(matchHash('install', '#install', 'exact')).toBe(true);
+        expect(matchHash('#usage', '#install', 'exact')).toBe(false);
+        expect(matchHash('#usage', '#install')).toBe(true);
+    });
 });
 
 describe('isActive', () => {
@@ -77,11 +244,41 @@ describe('isActive', () => {
         expect(isActive('/products', '', 'pattern', pattern)).toBe(false);
     });
 
+    test('should pass match options to the matcher', () => {
+        expect(isActive('/Application', '/app', 'startsWith')).toBe(false);
+        expect(isActive('/Application', '/app', 'startsWith', undefined, {
+            segmentBoundaries: false,
+            caseSensitive: false
+        })).toBe(true);
+        expect(isActive('/Users/42', '/users/:id', 'route')).toBe(false);
+        expect(isActive('/Users/42', '/users/:id', 'route', undefined, { caseSensitive: false })).toBe(true);
+    });
+
+    test('should look the match mode up in custom matchers first', () => {
+        const activeMatchers = createMatchers(new Map([
+            ['exact', (pathname: string, url: string) => pathname.replace(/^\/(en|fr)(?=\/|$)/, '') === url]
+        ]));
+
+        expect(isActive('/fr/pricing', '/pricing', 'exact', undefined, undefined, activeMatchers)).toBe(true);
+        expect(isActive('/home/details', '/home', 'startsWith', undefined, undefined, activeMatchers)).toBe(true);
+    });
+
     test('should default to includes matching if invalid match mode provided', () => {
         expect(isActive('/my/home/page', '/home', 'invalid' as MatchMode)).toBe(true);
     });
 });
 
+describe('createMatchers', () => {
+    test('should keep the built-in matchers and add custom ones', () => {
+        const custom = () => true;
+        const combined = createMatchers(new Map([['includes', custom]]));
+
+        expect(combined.get('includes')).toBe(custom);
+        expect(combined.get('exact')).toBe(matchers.get('exact'));
+        expect(matchers.get('includes')).not.toBe(custom);
+    });
+});
+
 describe('isActiveWithCustomFn', () => {
     test('should use custom function to determine active state', () => {
         const customFn = (pathname: string, url: string) => {
@@ -91,4 +288,59 @@ describe('isActiveWithCustomFn', () => {
         expect(isActiveWithCustomFn('/products/123/edit', '/products', customFn)).toBe(true);
         expect(isActiveWithCustomFn('/products/123/view', '/products', customFn)).toBe(false);
     });
+
+    test('should pass route params to the custom function', () => {
+        const customFn = jest.fn((pathname: string, url: string, params: Record<string, string>) => params.id === '42');
+
+        expect(isActiveWithCustomFn('/users/42', '/users/:id', customFn, { id: '42' })).toBe(true);
+        expect(customFn).toHaveBeenCalledWith('/users/42', '/users/:id', { id: '42' });
+    });
+});
+
+describe('matchLocation', () => {
+    test('should tell exact matches from links above the location', () => {
+        expect(matchLocation('/users', { pathname: '/users' })).toEqual({ isActive: true, isExact: true, params: {} });
+        expect(matchLocation('/users', { pathname: '/users/42' })).toEqual({ isActive: true, isExact: false, params: {} });
+        expect(matchLocation('/users', { pathname: '/USERS/' }, {
+            matchMode: 'startsWith',
+            matchOptions: { caseSensitive: false }
+        }).isExact).toBe(true);
+    });
+
+    test('should count route, pattern and custom matches as exact', () => {
+        expect(matchLocation('/users/:id', { pathname: '/users/42' }, { matchMode: 'route' }))
+            .toEqual({ isActive: true, isExact: true, params: { id: '42' } });
+        expect(matchLocation('/users', { pathname: '/users/42' }, { matchMode: 'pattern', matchPattern: /^\/users/ }).isExact)
+            .toBe(true);
+        expect(matchLocation('/users', { pathname: '/users/42' }, { isActiveFunc: () => true }).isExact).toBe(true);
+    });
+
+    test('should keep the optional segments of route patterns', () => {
+        expect(matchLocation('/users/:tab?', { pathname: '/users' }, { matchMode: 'route' }))
+            .toEqual({ isActive: true, isExact: true, params: {} });
+        expect(matchLocation('/users/:tab?', { pathname: '/users/posts' }, { matchMode: 'route' }).params)
+            .toEqual({ tab: 'posts' });
+        expect(matchLocation('/docs/api?/:page', { pathname: '/docs/intro' }, { matchMode: 'route' }).isActive).toBe(true);
+    });
+
+    test('should decode route params once', () => {
+        expect(matchLocation('/files/:name', { pathname: '/files/100%2520off' }, { matchMode: 'route' }).params)
+            .toEqual({ name: '100%20off' });
+        expect(matchLocation('/users/:name', { pathname: '/users/J%C3%BCrgen%20M' }, { matchMode: 'route' }).params)
+            .toEqual({ name: 'Jürgen M' });
+    });
+
+    test('should split the query string off route patterns after their optional segments', () => {
+        const options = { matchMode: 'route' as const };
+
+        expect(matchLocation('/users/:tab??sort=asc', { pathname: '/users', search: '?sort=asc' }, options).isActive)
+            .toBe(true);
+        expect(matchLocation('/users/:tab??sort=asc', { pathname: '/users', search: '?sort=desc' }, options).isActive)
+            .toBe(false);
+    });
+
+    test('should not be exact when inactive', () => {
+        expect(matchLocation('/users', { pathname: '/posts' })).toEqual({ isActive: false, isExact: false, params: {} });
+        expect(matchLocation('/users', undefined)).toEqual({ isActive: false, isExact: false, params: {} });
+    });
 });
\ No newline at end of file
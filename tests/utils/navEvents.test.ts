@@ -0,0 +1,69 @@
+/**
+ * @file tests/utils/navEvents.test.ts
+ * @description Tests for the navigation event bus
+ */
+
+import { createNavEventBus } from '../../src/utils/navEvents';
+import { NavEvent } from '../../src/types';
+
+const event = (type: NavEvent['type']): NavEvent => ({
+    type,
+    to: '/pricing',
+    trigger: 'click',
+    id: 'pricing-link',
+    trackingData: { placement: 'header' },
+    timestamp: 0
+} as NavEvent);
+
+describe('createNavEventBus', () => {
+    test('should send events to every subscriber', () => {
+        const bus = createNavEventBus();
+        const first = jest.fn();
+        const second = jest.fn();
+        bus.subscribe(first);
+        bus.subscribe(second);
+
+        bus.emit(event('navigate:start'));
+
+        expect(first).toHaveBeenCalledWith(event('navigate:start'));
+        expect(second).toHaveBeenCalledWith(event('navigate:start'));
+    });
+
+    test('should only send the subscribed event types', () => {
+        const bus = createNavEventBus();
+        const listener = jest.fn();
+        bus.subscribe(listener, ['navigate:cancel', 'prefetch:start']);
+
+        bus.emit(event('navigate:start'));
+        bus.emit(event('navigate:cancel'));
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith(event('navigate:cancel'));
+    });
+
+    test('should stop sending events after unsubscribing', () => {
+        const bus = createNavEventBus();
+        const listener = jest.fn();
+        const unsubscribe = bus.subscribe(listener);
+
+        unsubscribe();
+        bus.emit(event('link:impression'));
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    test('should keep notifying subscribers when one throws', () => {
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+        const bus = createNavEventBus();
+        const listener = jest.fn();
+        bus.subscribe(() => {
+            throw new Error('analytics offline');
+        });
+        bus.subscribe(listener);
+
+        bus.emit(event('navigate:end'));
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        jest.restoreAllMocks();
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * @file tests/utils/navIndicator.test.ts
+ * @description Tests for placing the active link indicator
+ */
+
+import {
+    findActiveLink,
+    getIndicatorRect,
+    getIndicatorStyle,
+    getIndicatorVariables,
+    isSameIndicatorRect
+} from '../../src/utils/navIndicator';
+import { NavIndicatorState } from '../../src/types';
+
+const state: NavIndicatorState = {
+    rect: { left: 96, top: 4, width: 80, height: 32 },
+    activeElement: null,
+    isVisible: true,
+    shouldAnimate: true,
+    reducedMotion: false
+};
+
+describe('getIndicatorRect', () => {
+    test('should place the rect relative to the padding box of the container', () => {
+        const elementRect = { left: 130, top: 54, width: 80, height: 32 };
+        const containerRect = { left: 30, top: 40 };
+        const container = { scrollLeft: 0, scrollTop: 0, clientLeft: 2, clientTop: 2 };
+
+        expect(getIndicatorRect(elementRect, containerRect, container))
+            .toEqual({ left: 98, top: 12, width: 80, height: 32 });
+    });
+
+    test('should account for the scroll position of the container', () => {
+        const elementRect = { left: 130, top: 40, width: 80, height: 32 };
+        const containerRect = { left: 30, top: 40 };
+        const container = { scrollLeft: 50, scrollTop: 0, clientLeft: 0, clientTop: 0 };
+
+        expect(getIndicatorRect(elementRect, containerRect, container).left).toBe(150);
+    });
+});
+
+describe('isSameIndicatorRect', () => {
+    test('should compare rects by value', () => {
+        expect(isSameIndicatorRect(state.rect, { left: 96, top: 4, width: 80, height: 32 })).toBe(true);
+        expect(isSameIndicatorRect(state.rect, { left: 96, top: 4, width: 81, height: 32 })).toBe(false);
+        expect(isSameIndicatorRect(null, null)).toBe(true);
+        expect(isSameIndicatorRect(state.rect, null)).toBe(false);
+    });
+});
+
+describe('getIndicatorStyle', () => {
+    test('should position the indicator over the active link', () => {
+        expect(getIndicatorStyle(state, { duration: 200, easing: 'ease' })).toMatchObject({
+            position: 'absolute',
+            width: 80,
+            height: 32,
+            transform: 'translate(96px, 4px)',
+            opacity: 1,
+            transition: 'transform 200ms ease, width 200ms ease, height 200ms ease, opacity 200ms ease'
+        });
+    });
+
+    test('should not animate when it shouldn\'t and hide without an active link', () => {
+        const style = getIndicatorStyle({ ...state, isVisible: false, shouldAnimate: false }, { duration: 200, easing: 'ease' });
+        expect(style.transition).toBe('none');
+        expect(style.opacity).toBe(0);
+    });
+
+    test('should have no size before a link has been active', () => {
+        const style = getIndicatorStyle({ ...state, rect: null, isVisible: false }, { duration: 200, easing: 'ease' });
+        expect(style).toMatchObject({ width: 0, height: 0, opacity: 0 });
+        expect(style.transform).toBeUndefined();
+    });
+});
+
+describe('getIndicatorVariables', () => {
+    test('should describe the indicator with prefixed variables', () => {
+        expect(getIndicatorVariables(state, 200, '--nav-indicator')).toEqual({
+            '--nav-indicator-x': '96px',
+            '--nav-indicator-y': '4px',
+            '--nav-indicator-width': '80px',
+            '--nav-indicator-height': '32px',
+            '--nav-indicator-opacity': '1',
+            '--nav-indicator-duration': '200ms'
+        });
+    });
+
+    test('should set a zero duration when it shouldn\'t animate', () => {
+        expect(getIndicatorVariables({ ...state, shouldAnimate: false }, 200, '--tab')['--tab-duration']).toBe('0ms');
+    });
+});
+
+describe('findActiveLink', () => {
+    const createContainer = (html: string) => {
+        const container = document.createElement('nav');
+        container.innerHTML = html;
+        return container;
+    };
+
+    test('should prefer the exactly active link', () => {
+        const container = createContainer(`
+            <div data-active="true">
+                <a href="/" data-nav-active="partial">Home</a>
+                <a href="/settings/billing" data-nav-active="exact">Billing</a>
+            </div>
+        `);
+
+        expect(findActiveLink(container)?.textContent).toBe('Billing');
+    });
+
+    test('should fall back to the partially active link with the longest href', () => {
+        const container = createContainer(`
+            <a href="/" data-nav-active="partial">Home</a>
+            <a href="/settings" data-nav-active="partial">Settings</a>
+            <a href="/reports" data-nav-active="false">Reports</a>
+        `);
+
+        expect(findActiveLink(container)?.textContent).toBe('Settings');
+        expect(findActiveLink(createContainer('<a href="/" data-nav-active="false">Home</a>'))).toBeNull();
+    });
+
+    test('should use the selector when given', () => {
+        const container = createContainer(`
+            <a href="/" data-nav-active="exact">Home</a>
+            <a href="/custom" class="current">Custom</a>
+        `);
+
+        expect(findActiveLink(container, '.current')?.textContent).toBe('Custom');
+    });
+});
@@ -0,0 +1,70 @@
+/**
+ * @file tests/utils/navTree.test.ts
+ * @description Tests for filtering navigation trees and resolving their active state
+ */
+
+import { filterNavTree, resolveNavTree } from '../../src/utils/navTree';
+import { NavTreeNode } from '../../src/types';
+
+const tree: NavTreeNode[] = [
+    { id: 'home', label: 'Home', to: '/', linkProps: { matchMode: 'exact' } },
+    {
+        id: 'reports',
+        label: 'Reports',
+        children: [
+            { label: 'Weekly', to: '/reports/weekly' },
+            { label: 'Exports', to: '/exports', permissions: ['reports:export'] }
+        ]
+    },
+    { id: 'admin', label: 'Admin', children: [{ label: 'Users', to: '/admin/users', permissions: ['admin'] }] },
+    { id: 'beta', label: 'Beta', to: '/beta', featureFlag: 'beta' },
+    { id: 'legacy', label: 'Legacy', to: '/legacy', hidden: true }
+];
+
+describe('filterNavTree', () => {
+    test('should remove hidden nodes and keep the others without checks', () => {
+        expect(filterNavTree(tree).map((node) => node.id)).toEqual(['home', 'reports', 'admin', 'beta']);
+    });
+
+    test('should check permissions and feature flags', () => {
+        const visible = filterNavTree(tree, {
+            hasPermission: (permission) => permission === 'reports:export',
+            isFeatureEnabled: () => false
+        });
+        expect(visible.map((node) => node.id)).toEqual(['home', 'reports']);
+        expect(visible[1].children!.map((node) => node.label)).toEqual(['Weekly', 'Exports']);
+    });
+
+    test('should pass the ancestors to the filter', () => {
+        const filter = jest.fn((node: NavTreeNode) => node.label !== 'Weekly');
+        const visible = filterNavTree(tree, { filter });
+        expect(visible[1].children!.map((node) => node.label)).toEqual(['Exports']);
+        expect(filter).toHaveBeenCalledWith(tree[1].children![0], [tree[1]]);
+    });
+});
+
+describe('resolveNavTree', () => {
+    test('should resolve keys, depths and active states', () => {
+        const items = resolveNavTree(tree, { pathname: '/reports/weekly' });
+        expect(items.map((item) => item.key)).toEqual(['home', 'reports', 'admin', 'beta', 'legacy']);
+        expect(items[0].isActive).toBe(false);
+        expect(items[1].isActive).toBe(false);
+        expect(items[1].isAnyChildActive).toBe(true);
+        expect(items[1].children[0]).toMatchObject({ key: 'reports.0', depth: 1, href: '/reports/weekly', isActive: true });
+    });
+
+    test('should build hrefs from link props', () => {
+        const items = resolveNavTree(
+            [{ label: 'User', to: '/users/:id', linkProps: { params: { id: 42 }, search: { tab: 'posts' } } }],
+            { pathname: '/users/42', search: '?tab=posts' }
+        );
+        expect(items[0].href).toBe('/users/42?tab=posts');
+        expect(items[0].isActive).toBe(true);
+    });
+
+    test('should use the default match mode unless the node sets one', () => {
+        const location = { pathname: '/' };
+        expect(resolveNavTree([{ label: 'Docs', to: '/docs' }], location, { matchMode: 'exact' })[0].isActive).toBe(false);
+        expect(resolveNavTree(tree, location, { matchMode: 'startsWith' })[0].isActive).toBe(true);
+    });
+});
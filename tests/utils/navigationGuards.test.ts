@@ -0,0 +1,56 @@
+/**
+ * @file tests/utils/navigationGuards.test.ts
+ * @description Tests for navigation guards
+ */
+
+import { createNavigationGuardRegistry, runNavigationGuards } from '../../src/utils/navigationGuards';
+
+const navigation = { from: { pathname: '/editor' }, to: '/settings', replace: false };
+
+describe('runNavigationGuards', () => {
+    test('should allow the navigation when every guard allows it', async () => {
+        const guards = [jest.fn(() => true), jest.fn(() => undefined), jest.fn(() => Promise.resolve(true))];
+
+        expect(await runNavigationGuards(guards, navigation)).toEqual(navigation);
+        guards.forEach((guard) => expect(guard).toHaveBeenCalledWith(navigation));
+    });
+
+    test('should cancel the navigation and skip the remaining guards', async () => {
+        const last = jest.fn(() => true);
+
+        expect(await runNavigationGuards([() => Promise.resolve(false), last], navigation)).toBeNull();
+        expect(last).not.toHaveBeenCalled();
+    });
+
+    test('should redirect and pass the redirect to the remaining guards', async () => {
+        const last = jest.fn(() => true);
+
+        expect(await runNavigationGuards([() => '/login', last], navigation)).toEqual({ ...navigation, to: '/login' });
+        expect(last).toHaveBeenCalledWith({ ...navigation, to: '/login' });
+
+        expect(await runNavigationGuards([() => ({ to: '/login', replace: true })], navigation))
+            .toEqual({ ...navigation, to: '/login', replace: true });
+    });
+
+    test('should cancel the navigation when a guard throws', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+
+        expect(await runNavigationGuards([() => Promise.reject(new Error('denied'))], navigation)).toBeNull();
+
+        jest.restoreAllMocks();
+    });
+});
+
+describe('createNavigationGuardRegistry', () => {
+    test('should run base guards before registered guards', () => {
+        const base = () => true;
+        const registered = () => false;
+        const registry = createNavigationGuardRegistry(() => [base]);
+
+        const unregister = registry.register(registered);
+        expect(registry.getGuards()).toEqual([base, registered]);
+
+        unregister();
+        expect(registry.getGuards()).toEqual([base]);
+    });
+});
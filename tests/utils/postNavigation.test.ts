@@ -0,0 +1,59 @@
+/**
+ * @file tests/utils/postNavigation.test.ts
+ * @description Tests for the focus and scroll helpers run after navigations
+ */
+
+import { focusElement, getHashTarget, getHistoryEntryKey } from '../../src/utils/postNavigation';
+
+describe('getHashTarget', () => {
+    beforeEach(() => {
+        document.body.innerHTML = '<h2 id="install">Install</h2><h2 id="café">Café</h2><a name="legacy">Legacy</a>';
+    });
+
+    test('should find the element with the id of the hash', () => {
+        expect(getHashTarget('/docs#install')?.textContent).toBe('Install');
+        expect(getHashTarget('/docs#caf%C3%A9')?.textContent).toBe('Café');
+    });
+
+    test('should fall back to the anchor with the name of the hash', () => {
+        expect(getHashTarget('/docs#legacy')?.textContent).toBe('Legacy');
+    });
+
+    test('should return null without a hash or a matching element', () => {
+        expect(getHashTarget('/docs')).toBeNull();
+        expect(getHashTarget('/docs#')).toBeNull();
+        expect(getHashTarget('/docs#missing')).toBeNull();
+    });
+});
+
+describe('focusElement', () => {
+    test('should make elements focusable without adding them to the tab order', () => {
+        document.body.innerHTML = '<main>Content</main>';
+        const main = document.querySelector('main') as HTMLElement;
+
+        focusElement(main);
+        expect(main.getAttribute('tabindex')).toBe('-1');
+        expect(document.activeElement).toBe(main);
+    });
+
+    test('should leave the tabindex of focusable elements alone', () => {
+        document.body.innerHTML = '<a href="/docs">Docs</a>';
+        const link = document.querySelector('a') as HTMLElement;
+
+        focusElement(link);
+        expect(link.hasAttribute('tabindex')).toBe(false);
+        expect(document.activeElement).toBe(link);
+    });
+});
+
+describe('getHistoryEntryKey', () => {
+    test('should use the key routers store in the history state', () => {
+        window.history.replaceState({ key: 'abc123' }, '');
+        expect(getHistoryEntryKey()).toBe('key:abc123');
+    });
+
+    test('should fall back to the URL', () => {
+        window.history.replaceState(null, '', '/docs?page=2');
+        expect(getHistoryEntryKey()).toBe(`url:${window.location.origin}/docs?page=2`);
+    });
+});
@@ -0,0 +1,165 @@
+/**
+ * @file tests/utils/prefetchCache.test.ts
+ * @description Tests for the shared prefetch cache
+ */
+
+import { createPrefetchCache, getPrefetchKey } from '../../src/utils/prefetchCache';
+
+describe('getPrefetchKey', () => {
+    test('should normalize equivalent URLs to the same key', () => {
+        expect(getPrefetchKey('/products/?b=2&a=1#reviews')).toBe('/products?a=1&b=2');
+        expect(getPrefetchKey('products')).toBe('/products');
+    });
+});
+
+describe('createPrefetchCache', () => {
+    test('should dedupe in-flight and completed prefetches by URL', async () => {
+        const cache = createPrefetchCache();
+        const task = jest.fn(() => Promise.resolve(true));
+
+        const first = cache.prefetch('/products', task);
+        const second = cache.prefetch('/products/', task);
+        expect(cache.get('/products')?.status).toBe('pending');
+
+        expect(await first).toBe(true);
+        expect(await second).toBe(true);
+        await cache.prefetch('/products#top', task);
+
+        expect(task).toHaveBeenCalledTimes(1);
+        expect(cache.get('/products')?.status).toBe('success');
+    });
+
+    test('should run the prefetch again once the entry is stale', async () => {
+        const cache = createPrefetchCache({ staleTime: 0 });
+        const task = jest.fn(() => true);
+
+        await cache.prefetch('/products', task);
+        expect(cache.get('/products')?.isStale).toBe(true);
+
+        await cache.prefetch('/products', task);
+        expect(task).toHaveBeenCalledTimes(2);
+    });
+
+    test('should evict expired entries', async () => {
+        const cache = createPrefetchCache({ ttl: 0 });
+        const cleanup = jest.fn();
+
+        await cache.prefetch('/products', () => true, cleanup);
+
+        expect(cache.get('/products')).toBeUndefined();
+        expect(cache.entries()).toEqual([]);
+        expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    test('should read entries without notifying subscribers', async () => {
+        const cache = createPrefetchCache({ ttl: 0 });
+        const listener = jest.fn();
+
+        await cache.prefetch('/products', () => true);
+        cache.subscribe(listener);
+
+        expect(cache.get('/products')).toBeUndefined();
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    test('should evict the least recently used entries beyond maxEntries', async () => {
+        const cache = createPrefetchCache({ maxEntries: 2 });
+
+        await cache.prefetch('/a', () => true);
+        await cache.prefetch('/b', () => true);
+        await cache.prefetch('/a', () => true);
+        await cache.prefetch('/c', () => true);
+
+        expect(cache.entries().map((entry) => entry.key)).toEqual(['/a', '/c']);
+    });
+
+    test('should not keep failed prefetches', async () => {
+        const cache = createPrefetchCache();
+
+        expect(await cache.prefetch('/products', () => false)).toBe(false);
+        expect(cache.get('/products')).toBeUndefined();
+        await expect(cache.prefetch('/products', () => Promise.reject(new Error('offline')))).rejects.toThrow('offline');
+        expect(cache.get('/products')).toBeUndefined();
+    });
+
+    test('should abort an in-flight prefetch once every retaining link releases it', async () => {
+        const cache = createPrefetchCache();
+        const signals: Array<AbortSignal | undefined> = [];
+        const task = (signal?: AbortSignal) => new Promise<boolean>((resolve) => {
+            signals.push(signal);
+            signal?.addEventListener('abort', () => resolve(false));
+        });
+
+        const releaseFirst = cache.retain('/products');
+        const releaseSecond = cache.retain('/products/');
+        const result = cache.prefetch('/products', task);
+
+        releaseFirst();
+        releaseFirst();
+        expect(signals[0]?.aborted).toBe(false);
+
+        releaseSecond();
+        expect(signals[0]?.aborted).toBe(true);
+        expect(await result).toBe(false);
+        expect(cache.get('/products')).toBeUndefined();
+    });
+
+    test('should not abort prefetches that were never retained or have completed', async () => {
+        const cache = createPrefetchCache();
+        let signal: AbortSignal | undefined;
+
+        await cache.prefetch('/products', (taskSignal) => {
+            signal = taskSignal;
+            return true;
+        });
+        cache.retain('/products')();
+
+        expect(signal?.aborted).toBe(false);
+        expect(cache.get('/products')?.status).toBe('success');
+    });
+
+    test('should abort in-flight prefetches that are evicted, invalidated or cleared', async () => {
+        const cache = createPrefetchCache({ maxEntries: 2 });
+        const signals: Record<string, AbortSignal | undefined> = {};
+        const task = (url: string) => (signal?: AbortSignal) => new Promise<boolean>((resolve) => {
+            signals[url] = signal;
+            signal?.addEventListener('abort', () => resolve(false));
+        });
+
+        const first = cache.prefetch('/a', task('/a'));
+        cache.prefetch('/b', task('/b'));
+        cache.prefetch('/c', task('/c'));
+        expect(signals['/a']?.aborted).toBe(true);
+        expect(await first).toBe(false);
+
+        cache.invalidate('/b');
+        expect(signals['/b']?.aborted).toBe(true);
+
+        cache.clear();
+        expect(signals['/c']?.aborted).toBe(true);
+        expect(cache.entries()).toEqual([]);
+    });
+
+    test('should invalidate, clear and notify subscribers', async () => {
+        const cache = createPrefetchCache();
+        const listener = jest.fn();
+        const cleanup = jest.fn();
+        cache.subscribe(listener);
+
+        await cache.prefetch('/a', () => true, cleanup);
+        await cache.prefetch('/b', () => true);
+        await cache.prefetch('/c', () => true);
+
+        cache.invalidate('/a');
+        expect(cleanup).toHaveBeenCalledTimes(1);
+        expect(cache.get('/a')).toBeUndefined();
+
+        cache.invalidate((entry) => entry.key === '/b');
+        expect(cache.entries().map((entry) => entry.key)).toEqual(['/c']);
+
+        listener.mockClear();
+        cache.clear();
+        expect(cache.entries()).toEqual([]);
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+});
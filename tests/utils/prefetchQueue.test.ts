@@ -0,0 +1,106 @@
+/**
+ * @file tests/utils/prefetchQueue.test.ts
+ * @description Tests for the prefetch queue
+ */
+
+import { createPrefetchQueue } from '../../src/utils/prefetchQueue';
+
+/**
+ * Creates a task that stays pending until resolved by hand
+ */
+const deferredTask = (name: string, started: string[]) => {
+    let resolve: () => void = () => undefined;
+    const task = () => {
+        started.push(name);
+        return new Promise<void>((done) => {
+            resolve = done;
+        });
+    };
+    return { task, resolve: () => resolve() };
+};
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const setConnection = (connection: { saveData?: boolean; effectiveType?: string } | undefined) => {
+    Object.defineProperty(navigator, 'connection', { value: connection, configurable: true });
+};
+
+describe('createPrefetchQueue', () => {
+    afterEach(() => {
+        setConnection(undefined);
+    });
+
+    test('should limit the number of prefetches running at once', async () => {
+        const queue = createPrefetchQueue({ concurrency: 2 });
+        const started: string[] = [];
+        const a = deferredTask('a', started);
+        const b = deferredTask('b', started);
+        const c = deferredTask('c', started);
+
+        queue.schedule(a.task, 'hover');
+        queue.schedule(b.task, 'hover');
+        queue.schedule(c.task, 'hover');
+
+        expect(started).toEqual(['a', 'b']);
+        expect(queue.getState()).toEqual({ running: 2, queued: 1 });
+
+        a.resolve();
+        await flushPromises();
+        expect(started).toEqual(['a', 'b', 'c']);
+    });
+
+    test('should start hover before viewport before idle', async () => {
+        const queue = createPrefetchQueue({ concurrency: 1 });
+        const started: string[] = [];
+        const first = deferredTask('first', started);
+
+        queue.schedule(first.task, 'idle');
+        queue.schedule(deferredTask('idle', started).task, 'idle');
+        queue.schedule(deferredTask('viewport', started).task, 'viewport');
+        queue.schedule(deferredTask('hover', started).task, 'hover');
+
+        first.resolve();
+        await flushPromises();
+        expect(started).toEqual(['first', 'hover']);
+    });
+
+    test('should cancel prefetches that have not started', async () => {
+        const queue = createPrefetchQueue({ concurrency: 1 });
+        const started: string[] = [];
+        const first = deferredTask('first', started);
+
+        const cancelFirst = queue.schedule(first.task, 'hover');
+        const cancelSecond = queue.schedule(deferredTask('second', started).task, 'hover');
+        cancelFirst();
+        cancelSecond();
+
+        first.resolve();
+        await flushPromises();
+        expect(started).toEqual(['first']);
+        expect(queue.getState()).toEqual({ running: 0, queued: 0 });
+    });
+
+    test('should skip prefetching when data saving is on', () => {
+        setConnection({ saveData: true });
+        const task = jest.fn();
+
+        expect(createPrefetchQueue().isAllowed('hover')).toBe(false);
+        createPrefetchQueue().schedule(task, 'hover');
+        expect(task).not.toHaveBeenCalled();
+
+        expect(createPrefetchQueue({ respectSaveData: false }).isAllowed('hover')).toBe(true);
+    });
+
+    test('should only run hover and focus prefetches on slow connections', () => {
+        setConnection({ effectiveType: '2g' });
+        const queue = createPrefetchQueue();
+
+        expect(queue.isAllowed('hover')).toBe(true);
+        expect(queue.isAllowed('focus')).toBe(true);
+        expect(queue.isAllowed('viewport')).toBe(false);
+        expect(queue.isAllowed('idle')).toBe(false);
+
+        setConnection({ effectiveType: '4g' });
+        expect(queue.isAllowed('idle')).toBe(true);
+    });
+});
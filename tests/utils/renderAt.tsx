@@ -0,0 +1,22 @@
+/**
+ * @file tests/utils/renderAt.tsx
+ * @description Renders components at a URL, below a NavLinkProvider using the History API adapter
+ */
+
+import React from 'react';
+import { render } from '@testing-library/react';
+import { NavLinkProvider } from '../../src/context/NavContext';
+import { createHistoryAdapter } from '../../src/adapters/history';
+
+export type ProviderProps = Partial<React.ComponentProps<typeof NavLinkProvider>>;
+
+/**
+ * Moves the browser to `path` and renders `ui` below a NavLinkProvider following the History API
+ * @param {string} path - The URL to render at
+ * @param {React.ReactElement} ui - The components to render
+ * @param {ProviderProps} [props] - Other props of the NavLinkProvider
+ */
+export const renderAt = (path: string, ui: React.ReactElement, props: ProviderProps = {}) => {
+    window.history.pushState(null, '', path);
+    return render(<NavLinkProvider adapter={createHistoryAdapter()} {...props}>{ui}</NavLinkProvider>);
+};
@@ -0,0 +1,136 @@
+/**
+ * @file tests/utils/routeData.test.ts
+ * @description Tests for data router prefetching utilities
+ */
+
+import { prefetchRouteData, withPrefetchCache, DataRouteLike, LoaderArgsLike, MatchRoutesLike } from '../../src/utils/routeData';
+
+/**
+ * The parts of Request used by the loaders, as jsdom doesn't provide it
+ */
+class TestRequest {
+    url: string;
+    signal?: AbortSignal;
+
+    constructor(url: string, init: RequestInit = {}) {
+        this.url = url;
+        this.signal = init.signal || undefined;
+    }
+}
+
+const globalScope = global as unknown as { Request?: unknown };
+const originalRequest = globalScope.Request;
+
+beforeAll(() => {
+    globalScope.Request = TestRequest;
+});
+
+afterAll(() => {
+    globalScope.Request = originalRequest;
+});
+
+describe('prefetchRouteData', () => {
+    const lazy = jest.fn(() => Promise.resolve({}));
+    const route: DataRouteLike = { path: '/projects/:projectId', lazy };
+    const matchRoutes: MatchRoutesLike = jest.fn((routes, location) => (
+        location.startsWith('/app/projects/') ? [{ route, params: { projectId: '42' }, pathname: location }] : null
+    ));
+
+    test('should run the lazy import of the matched routes once', async () => {
+        const router = { routes: [route], basename: '/app' };
+
+        expect(await prefetchRouteData('/projects/42', { router, matchRoutes })).toBe(true);
+        expect(await prefetchRouteData('/projects/42?tab=files', { router, matchRoutes })).toBe(true);
+
+        expect(matchRoutes).toHaveBeenCalledWith([route], '/app/projects/42?tab=files', '/app');
+        expect(lazy).toHaveBeenCalledTimes(1);
+    });
+
+    test('should resolve to false when no route matches', async () => {
+        expect(await prefetchRouteData('/unknown', { router: { routes: [route], basename: '/app' }, matchRoutes })).toBe(false);
+    });
+});
+
+describe('withPrefetchCache', () => {
+    const navigationRequest = (url: string) => new Request(url);
+
+    /**
+     * Builds a router whose project route loads its data with `loader`
+     */
+    const setup = (loader: (args: LoaderArgsLike) => unknown, maxAge?: number) => {
+        const route: DataRouteLike = { path: '/projects/:projectId', loader: withPrefetchCache(loader, { maxAge }) };
+        const matchRoutes: MatchRoutesLike = (routes, location) => (
+            location.startsWith('/projects/') ? [{ route, params: { projectId: '42' }, pathname: location }] : null
+        );
+        return { route, router: { routes: [route] }, matchRoutes };
+    };
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should call the loaders with a request and the params when prefetching with loaders', async () => {
+        const loader = jest.fn(() => Promise.resolve('project 42'));
+        const { router, matchRoutes } = setup(loader);
+
+        await prefetchRouteData('/projects/42?tab=files#readme', { router, matchRoutes, loaders: true });
+
+        expect(loader).toHaveBeenCalledTimes(1);
+        expect(loader).toHaveBeenCalledWith({
+            request: expect.objectContaining({ url: 'http://localhost/projects/42?tab=files' }),
+            params: { projectId: '42' }
+        });
+    });
+
+    test('should not call the loaders when prefetching without loaders', async () => {
+        const loader = jest.fn(() => Promise.resolve('project 42'));
+        const { router, matchRoutes } = setup(loader);
+
+        await prefetchRouteData('/projects/42', { router, matchRoutes });
+
+        expect(loader).not.toHaveBeenCalled();
+    });
+
+    test('should reuse prefetched data for the next navigation only', async () => {
+        const loader = jest.fn(() => Promise.resolve({ id: '42' }));
+        const { route, router, matchRoutes } = setup(loader);
+        const cachedLoader = route.loader as (args: LoaderArgsLike) => unknown;
+
+        await prefetchRouteData('/projects/42', { router, matchRoutes, loaders: true });
+        const prefetched = await (loader.mock.results[0].value as Promise<unknown>);
+
+        const args = { request: navigationRequest('http://localhost/projects/42#readme'), params: { projectId: '42' } };
+        expect(await cachedLoader(args)).toBe(prefetched);
+        expect(loader).toHaveBeenCalledTimes(1);
+
+        expect(await cachedLoader(args)).toEqual({ id: '42' });
+        expect(await cachedLoader(args)).not.toBe(prefetched);
+        expect(loader).toHaveBeenCalledTimes(3);
+    });
+
+    test('should load fresh data when the prefetched data is older than maxAge', async () => {
+        const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+        const loader = jest.fn(() => Promise.resolve('project 42'));
+        const { route, router, matchRoutes } = setup(loader, 5000);
+        const cachedLoader = route.loader as (args: LoaderArgsLike) => unknown;
+        const args = { request: navigationRequest('http://localhost/projects/42'), params: { projectId: '42' } };
+
+        await prefetchRouteData('/projects/42', { router, matchRoutes, loaders: true });
+        await prefetchRouteData('/projects/42', { router, matchRoutes, loaders: true });
+        expect(loader).toHaveBeenCalledTimes(1);
+
+        now.mockReturnValue(6001);
+        await cachedLoader(args);
+        expect(loader).toHaveBeenCalledTimes(2);
+    });
+
+    test('should call the loader for navigations without prefetched data', async () => {
+        const loader = jest.fn((args: LoaderArgsLike) => Promise.resolve(`data for ${args.params.projectId}`));
+        const cachedLoader = withPrefetchCache(loader);
+        const request = { url: 'http://localhost/projects/42' } as Request;
+
+        expect(await cachedLoader({ request, params: { projectId: '42' } })).toBe('data for 42');
+        expect(await cachedLoader({ request, params: { projectId: '42' } })).toBe('data for 42');
+        expect(loader).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * @file tests/utils/routes.test.ts
+ * @description Tests for route interpolation and the href builder of route registries
+ */
+
+import { interpolateRoute, matchRoute } from '../../src/utils/matchers';
+import { buildRouteHref, stringifyRouteParams } from '../../src/utils/routes';
+import { defineRoutes } from '../../src/defineRoutes';
+
+describe('interpolateRoute', () => {
+    test('should interpolate and encode params', () => {
+        expect(interpolateRoute('/users/:id', { id: 42 })).toBe('/users/42');
+        expect(interpolateRoute('/tags/:tag', { tag: 'a/b c' })).toBe('/tags/a%2Fb%20c');
+    });
+
+    test('should leave out optional segments without a value', () => {
+        expect(interpolateRoute('/users/:id/:tab?', { id: 1 })).toBe('/users/1');
+        expect(interpolateRoute('/users/:id/:tab?', { id: 1, tab: 'posts' })).toBe('/users/1/posts');
+        expect(interpolateRoute('/files/:path*')).toBe('/files');
+        expect(interpolateRoute('/')).toBe('/');
+    });
+
+    test('should keep the slashes of splat params', () => {
+        expect(interpolateRoute('/files/:path+', { path: 'docs/read me.md' })).toBe('/files/docs/read%20me.md');
+        expect(interpolateRoute('/users/:id/*', { id: 1, '*': 'settings/profile' })).toBe('/users/1/settings/profile');
+    });
+
+    test('should keep optional static segments', () => {
+        expect(interpolateRoute('/:lang?/docs?/intro', {})).toBe('/docs/intro');
+    });
+
+    test('should round-trip through matchRoute', () => {
+        const pathname = interpolateRoute('/teams/:teamId/files/:path*', { teamId: 'a b', path: 'x/y' });
+        expect(matchRoute('/teams/:teamId/files/:path*', pathname)).toEqual({ teamId: 'a b', path: 'x/y' });
+    });
+});
+
+describe('buildRouteHref', () => {
+    test('should append search params and the hash', () => {
+        expect(buildRouteHref('/users/:id', { params: { id: 42 }, search: { tab: 'posts' }, hash: 'latest' }))
+            .toBe('/users/42?tab=posts#latest');
+        expect(buildRouteHref({ path: '/search' }, { search: { q: 'red shoes', page: undefined }, hash: '#top' }))
+            .toBe('/search?q=red%20shoes#top');
+    });
+
+    test('should leave out optional params without a value', () => {
+        expect(buildRouteHref('/users/:id/:tab?', { params: { id: 1 }, search: { a: 1, b: true } }))
+            .toBe('/users/1?a=1&b=true');
+        expect(buildRouteHref('/files/:path*')).toBe('/files');
+    });
+
+    test('should stringify params for active matching', () => {
+        expect(stringifyRouteParams({ id: 42, tab: undefined })).toEqual({ id: '42' });
+    });
+});
+
+describe('defineRoutes', () => {
+    const { routes, href } = defineRoutes({
+        home: '/',
+        user: '/users/:id/*',
+        search: { path: '/search', search: {} as { q: string; page?: number } }
+    });
+
+    test('should expose the route definitions', () => {
+        expect(routes.user).toBe('/users/:id/*');
+    });
+
+    test('should build hrefs by route name', () => {
+        expect(href('home')).toBe('/');
+        expect(href('user', { params: { id: 7 } })).toBe('/users/7');
+        expect(href('search', { search: { q: 'shoes', page: 2 } })).toBe('/search?q=shoes&page=2');
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * @file tests/utils/rovingFocus.test.ts
+ * @description Tests for the keyboard navigation of roving groups
+ */
+
+import { getRovingTargetIndex, getTypeaheadIndex } from '../../src/utils/rovingFocus';
+
+describe('getRovingTargetIndex', () => {
+    test('should move along a horizontal group with the left and right arrows', () => {
+        expect(getRovingTargetIndex('ArrowRight', 0, 3, { orientation: 'horizontal' })).toBe(1);
+        expect(getRovingTargetIndex('ArrowLeft', 1, 3, { orientation: 'horizontal' })).toBe(0);
+        expect(getRovingTargetIndex('ArrowDown', 0, 3, { orientation: 'horizontal' })).toBeNull();
+    });
+
+    test('should move along a vertical group with the up and down arrows', () => {
+        expect(getRovingTargetIndex('ArrowDown', 0, 3, { orientation: 'vertical' })).toBe(1);
+        expect(getRovingTargetIndex('ArrowUp', 1, 3, { orientation: 'vertical' })).toBe(0);
+        expect(getRovingTargetIndex('ArrowRight', 0, 3, { orientation: 'vertical' })).toBeNull();
+    });
+
+    test('should wrap around unless loop is off', () => {
+        expect(getRovingTargetIndex('ArrowRight', 2, 3, { orientation: 'horizontal' })).toBe(0);
+        expect(getRovingTargetIndex('ArrowLeft', 0, 3, { orientation: 'horizontal' })).toBe(2);
+        expect(getRovingTargetIndex('ArrowRight', 2, 3, { orientation: 'horizontal', loop: false })).toBe(2);
+        expect(getRovingTargetIndex('ArrowLeft', 0, 3, { orientation: 'horizontal', loop: false })).toBe(0);
+    });
+
+    test('should move to the first and last items with Home and End', () => {
+        expect(getRovingTargetIndex('Home', 2, 4, { orientation: 'vertical' })).toBe(0);
+        expect(getRovingTargetIndex('End', 0, 4, { orientation: 'vertical' })).toBe(3);
+    });
+
+    test('should swap the left and right arrows in right-to-left text', () => {
+        expect(getRovingTargetIndex('ArrowLeft', 0, 3, { orientation: 'horizontal', rtl: true })).toBe(1);
+        expect(getRovingTargetIndex('ArrowRight', 1, 3, { orientation: 'horizontal', rtl: true })).toBe(0);
+    });
+
+    test('should move by rows and within rows in a grid', () => {
+        const grid = { orientation: 'grid' as const, columns: 3 };
+        expect(getRovingTargetIndex('ArrowDown', 1, 7, grid)).toBe(4);
+        expect(getRovingTargetIndex('ArrowUp', 4, 7, grid)).toBe(1);
+        expect(getRovingTargetIndex('ArrowRight', 2, 7, grid)).toBe(3);
+        expect(getRovingTargetIndex('Home', 4, 7, grid)).toBe(3);
+        expect(getRovingTargetIndex('End', 3, 7, grid)).toBe(5);
+        expect(getRovingTargetIndex('End', 6, 7, grid)).toBe(6);
+    });
+
+    test('should stay put in a grid when there is no row above or below', () => {
+        const grid = { orientation: 'grid' as const, columns: 3 };
+        expect(getRovingTargetIndex('ArrowUp', 1, 7, grid)).toBe(1);
+        expect(getRovingTargetIndex('ArrowDown', 5, 7, grid)).toBe(5);
+    });
+
+    test('should move to the first and last items of a grid with Ctrl+Home and Ctrl+End', () => {
+        const grid = { orientation: 'grid' as const, columns: 3, ctrlKey: true };
+        expect(getRovingTargetIndex('Home', 4, 7, grid)).toBe(0);
+        expect(getRovingTargetIndex('End', 1, 7, grid)).toBe(6);
+    });
+
+    test('should return null for an empty group', () => {
+        expect(getRovingTargetIndex('ArrowRight', 0, 0, { orientation: 'horizontal' })).toBeNull();
+    });
+});
+
+describe('getTypeaheadIndex', () => {
+    const labels = ['Home', 'Pricing', 'Blog', 'Partners'];
+
+    test('should find the next item starting with the typed characters', () => {
+        expect(getTypeaheadIndex(labels, 0, 'p')).toBe(1);
+        expect(getTypeaheadIndex(labels, 0, 'PA')).toBe(3);
+    });
+
+    test('should cycle through the items starting with a repeated character', () => {
+        expect(getTypeaheadIndex(labels, 1, 'p')).toBe(3);
+        expect(getTypeaheadIndex(labels, 1, 'pp')).toBe(3);
+        expect(getTypeaheadIndex(labels, 3, 'p')).toBe(1);
+    });
+
+    test('should keep the focused item while a longer search still matches it', () => {
+        expect(getTypeaheadIndex(labels, 1, 'pr')).toBe(1);
+    });
+
+    test('should ignore surrounding whitespace and return null without a match', () => {
+        expect(getTypeaheadIndex(['  Docs '], 0, 'do')).toBe(0);
+        expect(getTypeaheadIndex(labels, 0, 'x')).toBeNull();
+    });
+});
@@ -0,0 +1,109 @@
+/**
+ * @file tests/utils/viewTransition.test.ts
+ * @description Tests for resolving and running the view transitions of navigations
+ */
+
+import {
+    getViewTransitionTypes,
+    resolveViewTransition,
+    startNavigationTransition
+} from '../../src/utils/viewTransition';
+
+describe('resolveViewTransition', () => {
+    test('should be off unless the link or the provider turns it on', () => {
+        expect(resolveViewTransition()).toBeNull();
+        expect(resolveViewTransition(true)).toEqual({});
+        expect(resolveViewTransition(undefined, true)).toEqual({});
+    });
+
+    test('should merge the link options over the provider options', () => {
+        expect(resolveViewTransition({ direction: 'back' }, { activeName: 'nav-active', types: ['slide'] }))
+            .toEqual({ activeName: 'nav-active', types: ['slide'], direction: 'back' });
+        expect(resolveViewTransition({ types: ['fade'] }, { types: ['slide'] })).toEqual({ types: ['fade'] });
+    });
+
+    test('should let links turn off the transitions of the provider', () => {
+        expect(resolveViewTransition(false, { activeName: 'nav-active' })).toBeNull();
+        expect(resolveViewTransition({ enabled: false }, true)).toBeNull();
+        expect(resolveViewTransition(true, false)).toEqual({});
+    });
+});
+
+describe('getViewTransitionTypes', () => {
+    test('should add the direction to the types', () => {
+        expect(getViewTransitionTypes({})).toEqual([]);
+        expect(getViewTransitionTypes({ direction: 'forward' })).toEqual(['forward']);
+        expect(getViewTransitionTypes({ types: ['slide'], direction: 'back' })).toEqual(['slide', 'back']);
+        expect(getViewTransitionTypes({ types: ['back'], direction: 'back' })).toEqual(['back']);
+    });
+});
+
+describe('startNavigationTransition', () => {
+    afterEach(() => {
+        delete (document as Document & { startViewTransition?: unknown }).startViewTransition;
+    });
+
+    /**
+     * Creates an element whose view-transition-name is kept, as jsdom drops unknown properties
+     */
+    const createElement = (name = '') => {
+        const properties: Record<string, string> = name ? { 'view-transition-name': name } : {};
+        const style = {
+            getPropertyValue: (property: string) => properties[property] || '',
+            setProperty: (property: string, value: string) => {
+                properties[property] = value;
+            },
+            removeProperty: (property: string) => {
+                delete properties[property];
+            }
+        };
+        return { style } as unknown as HTMLElement;
+    };
+
+    /**
+     * Mocks document.startViewTransition, recording the name of the element while the old page is captured
+     */
+    const mockViewTransitions = (element: HTMLElement) => {
+        const capturedNames: string[] = [];
+        Object.defineProperty(document, 'startViewTransition', {
+            configurable: true,
+            value: (update: () => void | Promise<void>) => {
+                capturedNames.push(element.style.getPropertyValue('view-transition-name'));
+                const updateCallbackDone = Promise.resolve().then(update);
+                return { updateCallbackDone, finished: updateCallbackDone };
+            }
+        });
+        return capturedNames;
+    };
+
+    test('should name the link while the old page is captured and restore its name', async () => {
+        const element = createElement('nav-active');
+        const capturedNames = mockViewTransitions(element);
+        const update = jest.fn(() => {
+            expect(element.style.getPropertyValue('view-transition-name')).toBe('nav-active');
+        });
+
+        await startNavigationTransition(update, { name: 'photo' }, element);
+
+        expect(capturedNames).toEqual(['photo']);
+        expect(update).toHaveBeenCalledTimes(1);
+    });
+
+    test('should remove the name of a link that had none', async () => {
+        const element = createElement();
+        mockViewTransitions(element);
+
+        await startNavigationTransition(() => undefined, { name: 'photo' }, element);
+
+        expect(element.style.getPropertyValue('view-transition-name')).toBe('');
+    });
+
+    test('should navigate right away without view transitions support', async () => {
+        const update = jest.fn();
+        const done = startNavigationTransition(update, { name: 'photo', direction: 'back' });
+
+        expect(update).toHaveBeenCalledTimes(1);
+        await expect(done).resolves.toBeUndefined();
+        expect(document.documentElement.hasAttribute('data-view-transition')).toBe(false);
+    });
+});